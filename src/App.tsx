@@ -1,29 +1,44 @@
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect, useSyncExternalStore } from 'react';
 import { Scene, SceneHandle } from './components/Scene';
 import { SettingsPanel } from './components/SettingsPanel';
 import { LoopProgressIndicator } from './components/LoopProgressIndicator';
+import { LoopVerificationPanel } from './components/LoopVerificationPanel';
 import { Preset } from './types';
 import { defaultSettings } from './presets';
 import { useVideoExport } from './hooks/useVideoExport';
+import { useLoopClock } from './hooks/useLoopClock';
 import { Menu, X, Play, Pause } from 'lucide-react';
 import type { AnimationSettings } from './types';
 
 export function App() {
   const [settings, setSettings] = useState<AnimationSettings>(defaultSettings);
   const [sidebarOpen, setSidebarOpen] = useState(true);
-  const [isPaused, setIsPaused] = useState(false);
+  const loopClock = useLoopClock();
+  const isPaused = useSyncExternalStore(loopClock.subscribe, () => loopClock.isPaused);
   const [showBorders, setShowBorders] = useState(false);
   const [showOverlays, setShowOverlays] = useState(true);
   const sceneRef = useRef<SceneHandle>(null);
-  const { isExporting, exportProgress, exportVideo } = useVideoExport();
+  const { isExporting, exportProgress, exportVideo, loopReport, verifyLoop, dismissLoopReport, gifSummary } = useVideoExport();
+
+  // Keep the loop clock in sync with the loop length
+  useEffect(() => {
+    loopClock.setLoopDuration(settings.loopDuration);
+  }, [loopClock, settings.loopDuration]);
 
   const handleExport = useCallback(async () => {
-    const canvas = sceneRef.current?.getCanvas();
-    if (canvas) {
-      await exportVideo(canvas, settings);
+    const scene = sceneRef.current;
+    if (scene) {
+      await exportVideo(scene, settings);
     }
   }, [exportVideo, settings]);
 
+  const handleVerifyLoop = useCallback(() => {
+    const scene = sceneRef.current;
+    if (scene) {
+      verifyLoop(scene, settings);
+    }
+  }, [verifyLoop, settings]);
+
   const handleApplyPreset = useCallback((preset: Preset) => {
     setSettings({ ...defaultSettings, ...preset.settings });
   }, []);
@@ -38,7 +53,7 @@ export function App() {
       <div className="flex-1 relative">
         {/* 3D Scene */}
         <div className={`w-full h-full transition-opacity duration-300 ${isPaused ? 'opacity-50' : ''}`}>
-        <Scene ref={sceneRef} settings={settings} showBorders={showBorders} showOverlays={showOverlays} isPaused={isPaused} />
+        <Scene ref={sceneRef} settings={settings} showBorders={showBorders} showOverlays={showOverlays} />
         </div>
 
         {/* Top bar overlay */}
@@ -56,7 +71,7 @@ export function App() {
           {showOverlays && (
             <div className="flex items-center gap-2 pointer-events-auto">
               <button
-                onClick={() => setIsPaused(!isPaused)}
+                onClick={() => loopClock.togglePlayback()}
                 className="p-2.5 rounded-xl bg-black/40 backdrop-blur-md border border-white/10 text-white/80 hover:text-white hover:bg-black/60 transition-all"
                 title={isPaused ? 'Resume' : 'Pause'}
               >
@@ -73,7 +88,10 @@ export function App() {
         </div>
 
         {/* Loop Progress Indicator */}
-        {showOverlays && <LoopProgressIndicator loopDuration={settings.loopDuration} isPaused={isPaused} />}
+        {showOverlays && <LoopProgressIndicator loopDuration={settings.loopDuration} exportFps={settings.exportFps} />}
+
+        {/* Seam check result */}
+        {loopReport && <LoopVerificationPanel report={loopReport} onDismiss={dismissLoopReport} />}
 
         {/* Bottom info bar */}
         {showOverlays && (
@@ -117,8 +135,10 @@ export function App() {
           settings={settings}
           onSettingsChange={setSettings}
           onExport={handleExport}
+          onVerifyLoop={handleVerifyLoop}
           isExporting={isExporting}
           exportProgress={exportProgress}
+          gifSummary={gifSummary}
           onApplyPreset={handleApplyPreset}
           onReset={handleReset}
           showBorders={showBorders}
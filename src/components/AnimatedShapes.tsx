@@ -1,8 +1,10 @@
-import { useRef, useMemo, Suspense } from 'react';
+import { useRef, useMemo, useEffect, useLayoutEffect, useState, Suspense } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { Text3D, Center } from '@react-three/drei';
 import * as THREE from 'three';
 import { AnimationSettings, GeometryType, TEXT_FONT_URLS } from '../types';
+import { useLoopClock } from '../hooks/useLoopClock';
+import { GradientMaterial, setGradientLoopT } from '../utils/gradientMaterial';
 
 function createGeometry(type: GeometryType, detail: number = 1): THREE.BufferGeometry {
   // Detail affects subdivision level (0-6)
@@ -155,406 +157,425 @@ interface ShapeProps {
   settings: AnimationSettings;
   index: number;
   total: number;
-  isPaused?: boolean;
 }
 
-function useShapeAnimation(meshRef: React.RefObject<THREE.Mesh | THREE.Group | null>, settings: AnimationSettings, index: number, total: number, isPaused: boolean) {
-  useFrame(({ clock }) => {
-    if (!meshRef.current || isPaused) return;
-
-    // Get raw elapsed time
-    const t = clock.getElapsedTime();
-    // Calculate loop position (0 to 1) based on loopDuration, independent of speed
-    let loopT = (t % settings.loopDuration) / settings.loopDuration;
-    
-    // Ensure loopT stays in valid range [0, 1) to prevent floating point precision issues
-    // that can cause jumps at loop boundaries, especially in exported videos
-    if (loopT < 0) loopT += 1;
-    
-    // Base phase always goes from 0 to 2π for a complete cycle per loopDuration
-    const basePhase = loopT * Math.PI * 2;
-    // Speed affects how fast the animation moves within the cycle
-    const phase = basePhase * settings.speed + settings.phaseOffset;
-    const offset = total > 1 ? (index / total) * Math.PI * 2 : 0;
-    const amp = settings.amplitude;
-    const vAmp = settings.verticalAmplitude;
-    const hAmp = settings.horizontalAmplitude;
-    const spread = settings.spread;
-    const freq = settings.frequency;
-    const rotMult = settings.rotationMultiplier;
-
-    switch (settings.animationType) {
-      case 'orbit': {
-        const angle = phase + offset;
-        const radius = spread * 0.5;
-        meshRef.current.position.x = Math.cos(angle) * radius * hAmp;
-        meshRef.current.position.y = Math.sin(angle * 2) * amp * 0.3 * vAmp;
-        meshRef.current.position.z = Math.sin(angle) * radius;
-        meshRef.current.rotation.x = (phase * 2 + offset) * rotMult;
-        meshRef.current.rotation.y = (phase * 2 + offset) * rotMult;
-        break;
-      }
-      case 'breathe': {
-        const breathScale = 1 + Math.sin(phase * freq + offset) * 0.3 * amp;
-        const baseAngle = offset;
-        const radius = spread * 0.4;
-        meshRef.current.position.x = Math.cos(baseAngle) * radius * hAmp;
-        meshRef.current.position.y = Math.sin(baseAngle) * radius * 0.5 * vAmp;
-        meshRef.current.position.z = Math.sin(baseAngle * 0.7) * radius * 0.5;
-        meshRef.current.scale.setScalar(breathScale * settings.shapeScale);
-        meshRef.current.rotation.x = (phase * 0.5 + offset) * rotMult;
-        meshRef.current.rotation.y = (phase * 0.3 + offset) * rotMult;
-        break;
-      }
-      case 'spiral': {
-        const spiralAngle = phase + offset;
-        const spiralRadius = (1 + Math.sin(phase + offset * 2)) * spread * 0.3;
-        const height = Math.cos(phase + offset) * amp;
-        meshRef.current.position.x = Math.cos(spiralAngle) * spiralRadius;
-        meshRef.current.position.y = height;
-        meshRef.current.position.z = Math.sin(spiralAngle) * spiralRadius;
-        meshRef.current.rotation.x = (phase * 2) * rotMult;
-        meshRef.current.rotation.z = (phase * 1.5) * rotMult;
-        break;
-      }
-      case 'wave': {
-        const waveX = (index - total / 2) * spread * 0.3 * hAmp;
-        const waveY = Math.sin(phase * freq + offset) * amp * vAmp;
-        const waveZ = Math.cos(phase * freq + offset * 0.5) * amp * 0.5;
-        meshRef.current.position.x = waveX;
-        meshRef.current.position.y = waveY;
-        meshRef.current.position.z = waveZ;
-        meshRef.current.rotation.x = (phase + offset) * rotMult;
-        meshRef.current.rotation.y = (phase * 0.5) * rotMult;
-        break;
-      }
-      case 'explode': {
-        const explodePhase = Math.sin(phase) * 0.5 + 0.5;
-        const explodeRadius = explodePhase * spread;
-        const theta = offset;
-        const phi = (index / total) * Math.PI;
-        meshRef.current.position.x = Math.sin(phi) * Math.cos(theta) * explodeRadius;
-        meshRef.current.position.y = Math.sin(phi) * Math.sin(theta) * explodeRadius;
-        meshRef.current.position.z = Math.cos(phi) * explodeRadius;
-        meshRef.current.rotation.x = (phase * 2 + offset) * rotMult;
-        meshRef.current.rotation.y = (phase * 3 + offset) * rotMult;
-        const explodeScale = 0.5 + (1 - explodePhase) * 0.5;
-        meshRef.current.scale.setScalar(explodeScale * settings.shapeScale);
-        break;
-      }
-      case 'morph': {
-        const morphAngle = phase + offset;
-        const morphR = spread * 0.4 * (1 + 0.3 * Math.sin(phase * 3 + offset));
-        meshRef.current.position.x = Math.cos(morphAngle) * morphR;
-        meshRef.current.position.y = Math.sin(morphAngle * 2) * amp * 0.5;
-        meshRef.current.position.z = Math.sin(morphAngle) * morphR * 0.5;
-        const morphScale = 1 + Math.sin(phase * 2 + offset) * 0.4;
-        meshRef.current.scale.setScalar(morphScale * settings.shapeScale);
-        meshRef.current.rotation.x = (phase + offset) * rotMult;
-        meshRef.current.rotation.y = (phase * 2) * rotMult;
-        meshRef.current.rotation.z = (phase * 0.5 + offset) * rotMult;
-        break;
-      }
-      case 'cascade': {
-        const cascadeY = ((phase / (Math.PI * 2) + index / total) % 1) * spread * 2 - spread;
-        const cascadeX = Math.sin(offset * 3) * spread * 0.3;
-        const cascadeZ = Math.cos(offset * 5) * spread * 0.3;
-        meshRef.current.position.x = cascadeX;
-        meshRef.current.position.y = cascadeY;
-        meshRef.current.position.z = cascadeZ;
-        meshRef.current.rotation.x = (phase * 2 + offset) * rotMult;
-        meshRef.current.rotation.z = (phase + offset) * rotMult;
-        const cascadeAlpha = 1 - Math.abs(cascadeY) / spread;
-        meshRef.current.scale.setScalar(cascadeAlpha * settings.shapeScale);
-        break;
-      }
-      case 'vortex': {
-        const vortexAngle = phase * 2 + offset;
-        const vortexR = spread * 0.3 * (1 + 0.5 * Math.sin(phase + offset));
-        const vortexY = Math.sin(phase * 2 + offset) * amp * 0.5;
-        meshRef.current.position.x = Math.cos(vortexAngle) * vortexR;
-        meshRef.current.position.y = vortexY;
-        meshRef.current.position.z = Math.sin(vortexAngle) * vortexR;
-        meshRef.current.rotation.x = (phase * 3) * rotMult;
-        meshRef.current.rotation.y = (phase * 2 + offset) * rotMult;
-        meshRef.current.rotation.z = phase * rotMult;
-        break;
-      }
-      case 'pendulum': {
-        const pendulumAngle = Math.sin(phase * freq + offset) * amp * 0.8;
-        const pendulumX = (index - total / 2) * spread * 0.25 * hAmp;
-        meshRef.current.position.x = pendulumX;
-        meshRef.current.position.y = Math.cos(pendulumAngle) * 2 * vAmp - 1;
-        meshRef.current.position.z = Math.sin(pendulumAngle) * 1;
-        meshRef.current.rotation.z = pendulumAngle * rotMult;
-        meshRef.current.rotation.x = (phase * 0.3) * rotMult;
-        break;
-      }
-      case 'kaleidoscope': {
-        const kAngle = offset + phase;
-        const kR = spread * 0.4;
-        const kMirror = index % 2 === 0 ? 1 : -1;
-        meshRef.current.position.x = Math.cos(kAngle) * kR * kMirror * hAmp;
-        meshRef.current.position.y = Math.sin(kAngle) * kR * vAmp;
-        meshRef.current.position.z = Math.sin(phase + offset * 2) * amp * 0.5;
-        meshRef.current.rotation.x = (phase * kMirror) * rotMult;
-        meshRef.current.rotation.y = (phase * 2) * rotMult;
-        meshRef.current.rotation.z = kAngle * rotMult;
-        const kScale = 0.8 + Math.sin(phase * 2 + offset) * 0.3;
-        meshRef.current.scale.setScalar(kScale * settings.shapeScale);
-        break;
-      }
-      case 'bounce': {
-        const bounceY = Math.abs(Math.sin(phase * freq + offset)) * amp * vAmp;
-        const bounceX = Math.cos(offset) * spread * 0.3 * hAmp;
-        const bounceZ = Math.sin(offset) * spread * 0.3;
-        meshRef.current.position.x = bounceX;
-        meshRef.current.position.y = bounceY;
-        meshRef.current.position.z = bounceZ;
-        meshRef.current.rotation.x = (phase * 2 + offset) * rotMult;
-        meshRef.current.rotation.z = (phase + offset) * rotMult;
-        const bounceScale = 1 + Math.sin(phase * freq + offset) * 0.2;
-        meshRef.current.scale.setScalar(bounceScale * settings.shapeScale);
-        break;
-      }
-      case 'twist': {
-        const twistAngle = phase * freq + offset;
-        const twistR = spread * 0.4;
-        meshRef.current.position.x = Math.cos(twistAngle) * twistR * hAmp;
-        meshRef.current.position.y = Math.sin(twistAngle * 2) * amp * 0.5 * vAmp;
-        meshRef.current.position.z = Math.sin(twistAngle) * twistR;
-        meshRef.current.rotation.x = twistAngle * rotMult;
-        meshRef.current.rotation.y = (twistAngle * 1.5) * rotMult;
-        meshRef.current.rotation.z = (twistAngle * 0.5) * rotMult;
-        break;
-      }
-      case 'pulse': {
-        const pulseScale = 1 + Math.sin(phase * freq + offset) * 0.5 * amp;
-        const pulseX = Math.cos(offset) * spread * 0.2 * hAmp;
-        const pulseZ = Math.sin(offset) * spread * 0.2;
-        meshRef.current.position.x = pulseX;
-        meshRef.current.position.y = Math.sin(phase * freq * 2 + offset) * amp * 0.3 * vAmp;
-        meshRef.current.position.z = pulseZ;
-        meshRef.current.scale.setScalar(pulseScale * settings.shapeScale);
-        meshRef.current.rotation.x = (phase + offset) * rotMult;
-        meshRef.current.rotation.y = (phase * 0.5) * rotMult;
-        break;
-      }
-      case 'figure8': {
-        const fig8Angle = phase * freq + offset;
-        const fig8R = spread * 0.4;
-        meshRef.current.position.x = Math.sin(fig8Angle) * fig8R * hAmp;
-        meshRef.current.position.y = Math.sin(fig8Angle * 2) * amp * 0.5 * vAmp;
-        meshRef.current.position.z = Math.cos(fig8Angle) * fig8R;
-        meshRef.current.rotation.x = (phase * 2) * rotMult;
-        meshRef.current.rotation.z = fig8Angle * rotMult;
-        break;
-      }
-      case 'helix': {
-        const helixAngle = phase * freq + offset;
-        const helixR = spread * 0.3;
-        const helixY = (phase / (Math.PI * 2)) * spread * 2 - spread;
-        meshRef.current.position.x = Math.cos(helixAngle) * helixR * hAmp;
-        meshRef.current.position.y = helixY * vAmp;
-        meshRef.current.position.z = Math.sin(helixAngle) * helixR;
-        meshRef.current.rotation.x = (phase * 3) * rotMult;
-        meshRef.current.rotation.y = helixAngle * rotMult;
-        break;
+/**
+ * Pose a shape for a loop position (0 to 1). Pure in loopT, so trail ghosts can be posed at earlier
+ * positions - wrapped into the previous loop - exactly where the shape itself was.
+ */
+function applyShapeAnimation(object: THREE.Object3D, settings: AnimationSettings, loopT: number, index: number, total: number) {
+  // Base phase always goes from 0 to 2π for a complete cycle per loopDuration
+  const basePhase = loopT * Math.PI * 2;
+  // Speed affects how fast the animation moves within the cycle
+  const phase = basePhase * settings.speed + settings.phaseOffset;
+  const offset = total > 1 ? (index / total) * Math.PI * 2 : 0;
+  const amp = settings.amplitude;
+  const vAmp = settings.verticalAmplitude;
+  const hAmp = settings.horizontalAmplitude;
+  const spread = settings.spread;
+  const freq = settings.frequency;
+  const rotMult = settings.rotationMultiplier;
+
+  switch (settings.animationType) {
+    case 'orbit': {
+      const angle = phase + offset;
+      const radius = spread * 0.5;
+      object.position.x = Math.cos(angle) * radius * hAmp;
+      object.position.y = Math.sin(angle * 2) * amp * 0.3 * vAmp;
+      object.position.z = Math.sin(angle) * radius;
+      object.rotation.x = (phase * 2 + offset) * rotMult;
+      object.rotation.y = (phase * 2 + offset) * rotMult;
+      break;
+    }
+    case 'breathe': {
+      const breathScale = 1 + Math.sin(phase * freq + offset) * 0.3 * amp;
+      const baseAngle = offset;
+      const radius = spread * 0.4;
+      object.position.x = Math.cos(baseAngle) * radius * hAmp;
+      object.position.y = Math.sin(baseAngle) * radius * 0.5 * vAmp;
+      object.position.z = Math.sin(baseAngle * 0.7) * radius * 0.5;
+      object.scale.setScalar(breathScale * settings.shapeScale);
+      object.rotation.x = (phase * 0.5 + offset) * rotMult;
+      object.rotation.y = (phase * 0.3 + offset) * rotMult;
+      break;
+    }
+    case 'spiral': {
+      const spiralAngle = phase + offset;
+      const spiralRadius = (1 + Math.sin(phase + offset * 2)) * spread * 0.3;
+      const height = Math.cos(phase + offset) * amp;
+      object.position.x = Math.cos(spiralAngle) * spiralRadius;
+      object.position.y = height;
+      object.position.z = Math.sin(spiralAngle) * spiralRadius;
+      object.rotation.x = (phase * 2) * rotMult;
+      object.rotation.z = (phase * 1.5) * rotMult;
+      break;
+    }
+    case 'wave': {
+      const waveX = (index - total / 2) * spread * 0.3 * hAmp;
+      const waveY = Math.sin(phase * freq + offset) * amp * vAmp;
+      const waveZ = Math.cos(phase * freq + offset * 0.5) * amp * 0.5;
+      object.position.x = waveX;
+      object.position.y = waveY;
+      object.position.z = waveZ;
+      object.rotation.x = (phase + offset) * rotMult;
+      object.rotation.y = (phase * 0.5) * rotMult;
+      break;
+    }
+    case 'explode': {
+      const explodePhase = Math.sin(phase) * 0.5 + 0.5;
+      const explodeRadius = explodePhase * spread;
+      const theta = offset;
+      const phi = (index / total) * Math.PI;
+      object.position.x = Math.sin(phi) * Math.cos(theta) * explodeRadius;
+      object.position.y = Math.sin(phi) * Math.sin(theta) * explodeRadius;
+      object.position.z = Math.cos(phi) * explodeRadius;
+      object.rotation.x = (phase * 2 + offset) * rotMult;
+      object.rotation.y = (phase * 3 + offset) * rotMult;
+      const explodeScale = 0.5 + (1 - explodePhase) * 0.5;
+      object.scale.setScalar(explodeScale * settings.shapeScale);
+      break;
+    }
+    case 'morph': {
+      const morphAngle = phase + offset;
+      const morphR = spread * 0.4 * (1 + 0.3 * Math.sin(phase * 3 + offset));
+      object.position.x = Math.cos(morphAngle) * morphR;
+      object.position.y = Math.sin(morphAngle * 2) * amp * 0.5;
+      object.position.z = Math.sin(morphAngle) * morphR * 0.5;
+      const morphScale = 1 + Math.sin(phase * 2 + offset) * 0.4;
+      object.scale.setScalar(morphScale * settings.shapeScale);
+      object.rotation.x = (phase + offset) * rotMult;
+      object.rotation.y = (phase * 2) * rotMult;
+      object.rotation.z = (phase * 0.5 + offset) * rotMult;
+      break;
+    }
+    case 'cascade': {
+      const cascadeY = ((phase / (Math.PI * 2) + index / total) % 1) * spread * 2 - spread;
+      const cascadeX = Math.sin(offset * 3) * spread * 0.3;
+      const cascadeZ = Math.cos(offset * 5) * spread * 0.3;
+      object.position.x = cascadeX;
+      object.position.y = cascadeY;
+      object.position.z = cascadeZ;
+      object.rotation.x = (phase * 2 + offset) * rotMult;
+      object.rotation.z = (phase + offset) * rotMult;
+      const cascadeAlpha = 1 - Math.abs(cascadeY) / spread;
+      object.scale.setScalar(cascadeAlpha * settings.shapeScale);
+      break;
+    }
+    case 'vortex': {
+      const vortexAngle = phase * 2 + offset;
+      const vortexR = spread * 0.3 * (1 + 0.5 * Math.sin(phase + offset));
+      const vortexY = Math.sin(phase * 2 + offset) * amp * 0.5;
+      object.position.x = Math.cos(vortexAngle) * vortexR;
+      object.position.y = vortexY;
+      object.position.z = Math.sin(vortexAngle) * vortexR;
+      object.rotation.x = (phase * 3) * rotMult;
+      object.rotation.y = (phase * 2 + offset) * rotMult;
+      object.rotation.z = phase * rotMult;
+      break;
+    }
+    case 'pendulum': {
+      const pendulumAngle = Math.sin(phase * freq + offset) * amp * 0.8;
+      const pendulumX = (index - total / 2) * spread * 0.25 * hAmp;
+      object.position.x = pendulumX;
+      object.position.y = Math.cos(pendulumAngle) * 2 * vAmp - 1;
+      object.position.z = Math.sin(pendulumAngle) * 1;
+      object.rotation.z = pendulumAngle * rotMult;
+      object.rotation.x = (phase * 0.3) * rotMult;
+      break;
+    }
+    case 'kaleidoscope': {
+      const kAngle = offset + phase;
+      const kR = spread * 0.4;
+      const kMirror = index % 2 === 0 ? 1 : -1;
+      object.position.x = Math.cos(kAngle) * kR * kMirror * hAmp;
+      object.position.y = Math.sin(kAngle) * kR * vAmp;
+      object.position.z = Math.sin(phase + offset * 2) * amp * 0.5;
+      object.rotation.x = (phase * kMirror) * rotMult;
+      object.rotation.y = (phase * 2) * rotMult;
+      object.rotation.z = kAngle * rotMult;
+      const kScale = 0.8 + Math.sin(phase * 2 + offset) * 0.3;
+      object.scale.setScalar(kScale * settings.shapeScale);
+      break;
+    }
+    case 'bounce': {
+      const bounceY = Math.abs(Math.sin(phase * freq + offset)) * amp * vAmp;
+      const bounceX = Math.cos(offset) * spread * 0.3 * hAmp;
+      const bounceZ = Math.sin(offset) * spread * 0.3;
+      object.position.x = bounceX;
+      object.position.y = bounceY;
+      object.position.z = bounceZ;
+      object.rotation.x = (phase * 2 + offset) * rotMult;
+      object.rotation.z = (phase + offset) * rotMult;
+      const bounceScale = 1 + Math.sin(phase * freq + offset) * 0.2;
+      object.scale.setScalar(bounceScale * settings.shapeScale);
+      break;
+    }
+    case 'twist': {
+      const twistAngle = phase * freq + offset;
+      const twistR = spread * 0.4;
+      object.position.x = Math.cos(twistAngle) * twistR * hAmp;
+      object.position.y = Math.sin(twistAngle * 2) * amp * 0.5 * vAmp;
+      object.position.z = Math.sin(twistAngle) * twistR;
+      object.rotation.x = twistAngle * rotMult;
+      object.rotation.y = (twistAngle * 1.5) * rotMult;
+      object.rotation.z = (twistAngle * 0.5) * rotMult;
+      break;
+    }
+    case 'pulse': {
+      const pulseScale = 1 + Math.sin(phase * freq + offset) * 0.5 * amp;
+      const pulseX = Math.cos(offset) * spread * 0.2 * hAmp;
+      const pulseZ = Math.sin(offset) * spread * 0.2;
+      object.position.x = pulseX;
+      object.position.y = Math.sin(phase * freq * 2 + offset) * amp * 0.3 * vAmp;
+      object.position.z = pulseZ;
+      object.scale.setScalar(pulseScale * settings.shapeScale);
+      object.rotation.x = (phase + offset) * rotMult;
+      object.rotation.y = (phase * 0.5) * rotMult;
+      break;
+    }
+    case 'figure8': {
+      const fig8Angle = phase * freq + offset;
+      const fig8R = spread * 0.4;
+      object.position.x = Math.sin(fig8Angle) * fig8R * hAmp;
+      object.position.y = Math.sin(fig8Angle * 2) * amp * 0.5 * vAmp;
+      object.position.z = Math.cos(fig8Angle) * fig8R;
+      object.rotation.x = (phase * 2) * rotMult;
+      object.rotation.z = fig8Angle * rotMult;
+      break;
+    }
+    case 'helix': {
+      const helixAngle = phase * freq + offset;
+      const helixR = spread * 0.3;
+      const helixY = (phase / (Math.PI * 2)) * spread * 2 - spread;
+      object.position.x = Math.cos(helixAngle) * helixR * hAmp;
+      object.position.y = helixY * vAmp;
+      object.position.z = Math.sin(helixAngle) * helixR;
+      object.rotation.x = (phase * 3) * rotMult;
+      object.rotation.y = helixAngle * rotMult;
+      break;
+    }
+    case 'ripple': {
+      const rippleDist = (index / total) * spread;
+      const ripplePhase = phase * freq - rippleDist * 0.5;
+      const rippleY = Math.sin(ripplePhase) * amp * vAmp;
+      const rippleX = (index - total / 2) * spread * 0.1 * hAmp;
+      object.position.x = rippleX;
+      object.position.y = rippleY;
+      object.position.z = Math.cos(ripplePhase) * amp * 0.5;
+      object.rotation.x = ripplePhase * rotMult;
+      object.rotation.z = (ripplePhase * 0.5) * rotMult;
+      const rippleScale = 0.8 + Math.sin(ripplePhase) * 0.4;
+      object.scale.setScalar(rippleScale * settings.shapeScale);
+      break;
+    }
+    case 'swirl': {
+      const swirlAngle = phase * freq + offset;
+      const swirlR = spread * 0.3 * (1 + 0.3 * Math.sin(phase + offset));
+      object.position.x = Math.cos(swirlAngle) * swirlR * hAmp;
+      object.position.y = Math.sin(swirlAngle * 2) * amp * 0.4 * vAmp;
+      object.position.z = Math.sin(swirlAngle) * swirlR;
+      object.rotation.x = (swirlAngle * 2) * rotMult;
+      object.rotation.y = swirlAngle * rotMult;
+      object.rotation.z = phase * rotMult;
+      break;
+    }
+    case 'simpleRotation': {
+      // Simple rotation around selected axis without position changes
+      // For single shape, center it at origin; for multiple shapes, arrange in circle
+      if (total === 1) {
+        object.position.x = 0;
+        object.position.y = 0;
+        object.position.z = 0;
+      } else {
+        object.position.x = Math.cos(offset) * spread * 0.2 * hAmp;
+        object.position.y = Math.sin(offset) * spread * 0.2 * vAmp;
+        object.position.z = 0;
       }
-      case 'ripple': {
-        const rippleDist = (index / total) * spread;
-        const ripplePhase = phase * freq - rippleDist * 0.5;
-        const rippleY = Math.sin(ripplePhase) * amp * vAmp;
-        const rippleX = (index - total / 2) * spread * 0.1 * hAmp;
-        meshRef.current.position.x = rippleX;
-        meshRef.current.position.y = rippleY;
-        meshRef.current.position.z = Math.cos(ripplePhase) * amp * 0.5;
-        meshRef.current.rotation.x = ripplePhase * rotMult;
-        meshRef.current.rotation.z = (ripplePhase * 0.5) * rotMult;
-        const rippleScale = 0.8 + Math.sin(ripplePhase) * 0.4;
-        meshRef.current.scale.setScalar(rippleScale * settings.shapeScale);
-        break;
+      
+      // Reset all rotations first
+      object.rotation.x = 0;
+      object.rotation.y = 0;
+      object.rotation.z = 0;
+      
+      // Apply rotation to selected axis
+      const rotationValue = phase * rotMult;
+      if (settings.rotationAxis === 'x' || settings.rotationAxis === 'all') {
+        object.rotation.x = rotationValue;
       }
-      case 'swirl': {
-        const swirlAngle = phase * freq + offset;
-        const swirlR = spread * 0.3 * (1 + 0.3 * Math.sin(phase + offset));
-        meshRef.current.position.x = Math.cos(swirlAngle) * swirlR * hAmp;
-        meshRef.current.position.y = Math.sin(swirlAngle * 2) * amp * 0.4 * vAmp;
-        meshRef.current.position.z = Math.sin(swirlAngle) * swirlR;
-        meshRef.current.rotation.x = (swirlAngle * 2) * rotMult;
-        meshRef.current.rotation.y = swirlAngle * rotMult;
-        meshRef.current.rotation.z = phase * rotMult;
-        break;
+      if (settings.rotationAxis === 'y' || settings.rotationAxis === 'all') {
+        object.rotation.y = rotationValue;
       }
-      case 'simpleRotation': {
-        // Simple rotation around selected axis without position changes
-        // For single shape, center it at origin; for multiple shapes, arrange in circle
-        if (total === 1) {
-          meshRef.current.position.x = 0;
-          meshRef.current.position.y = 0;
-          meshRef.current.position.z = 0;
-        } else {
-          meshRef.current.position.x = Math.cos(offset) * spread * 0.2 * hAmp;
-          meshRef.current.position.y = Math.sin(offset) * spread * 0.2 * vAmp;
-          meshRef.current.position.z = 0;
-        }
-        
-        // Reset all rotations first
-        meshRef.current.rotation.x = 0;
-        meshRef.current.rotation.y = 0;
-        meshRef.current.rotation.z = 0;
-        
-        // Apply rotation to selected axis
-        const rotationValue = phase * rotMult;
-        if (settings.rotationAxis === 'x' || settings.rotationAxis === 'all') {
-          meshRef.current.rotation.x = rotationValue;
-        }
-        if (settings.rotationAxis === 'y' || settings.rotationAxis === 'all') {
-          meshRef.current.rotation.y = rotationValue;
-        }
-        if (settings.rotationAxis === 'z' || settings.rotationAxis === 'all') {
-          meshRef.current.rotation.z = rotationValue;
-        }
-        break;
+      if (settings.rotationAxis === 'z' || settings.rotationAxis === 'all') {
+        object.rotation.z = rotationValue;
       }
+      break;
+    }
 
-      // === CRACKTRO / DEMOSCENE ANIMATION TYPES ===
-
-      case 'sineScroller': {
-        // Classic sine scroller: shapes scroll horizontally with sine-wave vertical offset
-        // Each shape is evenly spaced and wraps around
-        const scrollSpeed = phase * 2;
-        const spacing = spread * 0.6;
-        // Position wraps from right to left
-        const rawX = ((index * spacing - scrollSpeed * hAmp) % (total * spacing));
-        const scrollX = rawX > (total * spacing * 0.5) ? rawX - total * spacing : rawX;
-        const sineY = Math.sin(scrollX * freq * 0.8 + phase) * amp * vAmp;
-        meshRef.current.position.x = scrollX;
-        meshRef.current.position.y = sineY;
-        meshRef.current.position.z = 0;
-        meshRef.current.rotation.x = (phase + offset) * rotMult;
-        meshRef.current.rotation.y = (phase * 1.5 + offset) * rotMult;
-        meshRef.current.rotation.z = (phase * 0.5) * rotMult;
-        break;
-      }
+    // === CRACKTRO / DEMOSCENE ANIMATION TYPES ===
 
-      case 'starfield': {
-        // Classic starfield: shapes fly towards the camera from deep z
-        // Use deterministic pseudo-random positions based on index
-        const seed1 = Math.sin(index * 127.1 + 311.7) * 0.5;
-        const seed2 = Math.cos(index * 269.5 + 183.3) * 0.5;
-        const starSpeed = (phase * 0.5 + index * 0.37) % (Math.PI * 2);
-        const starZ = (1 - starSpeed / (Math.PI * 2)) * spread * 3 - spread;
-        const starX = seed1 * spread * hAmp * 2;
-        const starY = seed2 * spread * vAmp * 2;
-        // Scale up as stars get closer
-        const starDepth = Math.max(0.1, 1 - (starZ + spread) / (spread * 4));
-        meshRef.current.position.x = starX * starDepth;
-        meshRef.current.position.y = starY * starDepth;
-        meshRef.current.position.z = starZ;
-        meshRef.current.scale.setScalar(starDepth * settings.shapeScale * amp);
-        meshRef.current.rotation.z = (phase * 2 + offset) * rotMult;
-        break;
-      }
+    case 'sineScroller': {
+      // Classic sine scroller: shapes scroll horizontally with sine-wave vertical offset
+      // Each shape is evenly spaced and wraps around
+      const scrollSpeed = phase * 2;
+      const spacing = spread * 0.6;
+      // Position wraps from right to left
+      const rawX = ((index * spacing - scrollSpeed * hAmp) % (total * spacing));
+      const scrollX = rawX > (total * spacing * 0.5) ? rawX - total * spacing : rawX;
+      const sineY = Math.sin(scrollX * freq * 0.8 + phase) * amp * vAmp;
+      object.position.x = scrollX;
+      object.position.y = sineY;
+      object.position.z = 0;
+      object.rotation.x = (phase + offset) * rotMult;
+      object.rotation.y = (phase * 1.5 + offset) * rotMult;
+      object.rotation.z = (phase * 0.5) * rotMult;
+      break;
+    }
 
-      case 'copperbars': {
-        // Classic copper bars: horizontal bars that wave up and down with sine patterns
-        const barY = Math.sin(phase * freq + index * 0.8) * amp * vAmp * 2;
-        const barX = Math.sin(phase * 0.7 + index * 1.2) * spread * 0.3 * hAmp;
-        meshRef.current.position.x = barX;
-        meshRef.current.position.y = barY;
-        meshRef.current.position.z = -index * 0.15;
-        // Scale X to make bar shapes
-        meshRef.current.scale.set(
-          settings.shapeScale * 3,
-          settings.shapeScale * 0.3,
-          settings.shapeScale * 0.3
-        );
-        meshRef.current.rotation.z = Math.sin(phase * 0.5 + index) * 0.1 * rotMult;
-        meshRef.current.rotation.x = 0;
-        meshRef.current.rotation.y = 0;
-        break;
-      }
+    case 'starfield': {
+      // Classic starfield: shapes fly towards the camera from deep z
+      // Use deterministic pseudo-random positions based on index
+      const seed1 = Math.sin(index * 127.1 + 311.7) * 0.5;
+      const seed2 = Math.cos(index * 269.5 + 183.3) * 0.5;
+      const starSpeed = (phase * 0.5 + index * 0.37) % (Math.PI * 2);
+      const starZ = (1 - starSpeed / (Math.PI * 2)) * spread * 3 - spread;
+      const starX = seed1 * spread * hAmp * 2;
+      const starY = seed2 * spread * vAmp * 2;
+      // Scale up as stars get closer
+      const starDepth = Math.max(0.1, 1 - (starZ + spread) / (spread * 4));
+      object.position.x = starX * starDepth;
+      object.position.y = starY * starDepth;
+      object.position.z = starZ;
+      object.scale.setScalar(starDepth * settings.shapeScale * amp);
+      object.rotation.z = (phase * 2 + offset) * rotMult;
+      break;
+    }
 
-      case 'bobs': {
-        // Classic "bobs" effect: shapes following Lissajous-style sine patterns
-        // Each bob has a slightly different frequency creating mesmerizing patterns
-        const bobFreqX = freq + index * 0.15;
-        const bobFreqY = freq * 1.3 + index * 0.12;
-        const bobX = Math.sin(phase * bobFreqX + offset) * spread * 0.5 * hAmp;
-        const bobY = Math.cos(phase * bobFreqY + offset) * spread * 0.5 * vAmp;
-        const bobZ = Math.sin(phase * freq * 0.5 + offset * 2) * amp * 0.5;
-        meshRef.current.position.x = bobX;
-        meshRef.current.position.y = bobY;
-        meshRef.current.position.z = bobZ;
-        meshRef.current.rotation.x = (phase * 2 + offset) * rotMult;
-        meshRef.current.rotation.y = (phase * 3 + offset) * rotMult;
-        const bobScale = 0.8 + Math.sin(phase * 2 + offset) * 0.2;
-        meshRef.current.scale.setScalar(bobScale * settings.shapeScale);
-        break;
-      }
+    case 'copperbars': {
+      // Classic copper bars: horizontal bars that wave up and down with sine patterns
+      const barY = Math.sin(phase * freq + index * 0.8) * amp * vAmp * 2;
+      const barX = Math.sin(phase * 0.7 + index * 1.2) * spread * 0.3 * hAmp;
+      object.position.x = barX;
+      object.position.y = barY;
+      object.position.z = -index * 0.15;
+      // Scale X to make bar shapes
+      object.scale.set(
+        settings.shapeScale * 3,
+        settings.shapeScale * 0.3,
+        settings.shapeScale * 0.3
+      );
+      object.rotation.z = Math.sin(phase * 0.5 + index) * 0.1 * rotMult;
+      object.rotation.x = 0;
+      object.rotation.y = 0;
+      break;
+    }
 
-      case 'tunnel': {
-        // Classic tunnel effect: shapes arranged in rings that zoom towards camera
-        const ringCount = Math.max(3, Math.floor(total / 3));
-        const ringIndex = index % ringCount;
-        const posInRing = Math.floor(index / ringCount);
-        const ringAngle = (posInRing / Math.max(1, Math.floor(total / ringCount))) * Math.PI * 2;
-        // Rings move towards camera and wrap around
-        const tunnelZ = ((phase * 0.8 + ringIndex * 1.5) % (ringCount * 1.5)) - ringCount * 0.75;
-        const tunnelRadius = spread * 0.4 * (1 + tunnelZ * 0.15);
-        meshRef.current.position.x = Math.cos(ringAngle + phase * 0.3) * tunnelRadius * hAmp;
-        meshRef.current.position.y = Math.sin(ringAngle + phase * 0.3) * tunnelRadius * vAmp;
-        meshRef.current.position.z = tunnelZ;
-        const tunnelScale = Math.max(0.2, 1 - Math.abs(tunnelZ) / (ringCount * 0.75));
-        meshRef.current.scale.setScalar(tunnelScale * settings.shapeScale * amp);
-        meshRef.current.rotation.z = (phase + ringAngle) * rotMult;
-        meshRef.current.rotation.x = phase * 0.5 * rotMult;
-        break;
-      }
+    case 'bobs': {
+      // Classic "bobs" effect: shapes following Lissajous-style sine patterns
+      // Each bob has a slightly different frequency creating mesmerizing patterns
+      const bobFreqX = freq + index * 0.15;
+      const bobFreqY = freq * 1.3 + index * 0.12;
+      const bobX = Math.sin(phase * bobFreqX + offset) * spread * 0.5 * hAmp;
+      const bobY = Math.cos(phase * bobFreqY + offset) * spread * 0.5 * vAmp;
+      const bobZ = Math.sin(phase * freq * 0.5 + offset * 2) * amp * 0.5;
+      object.position.x = bobX;
+      object.position.y = bobY;
+      object.position.z = bobZ;
+      object.rotation.x = (phase * 2 + offset) * rotMult;
+      object.rotation.y = (phase * 3 + offset) * rotMult;
+      const bobScale = 0.8 + Math.sin(phase * 2 + offset) * 0.2;
+      object.scale.setScalar(bobScale * settings.shapeScale);
+      break;
+    }
 
-      case 'rasterbars': {
-        // Raster bars: multiple shapes moving in interleaved sine waves like old Amiga raster effects
-        const rasterPhase = phase * freq;
-        const rasterY = (index - total / 2) * spread * 0.2;
-        const rasterX = Math.sin(rasterPhase + index * 0.5) * spread * hAmp;
-        const rasterZ = Math.cos(rasterPhase * 0.7 + index * 0.3) * amp * 0.5;
-        meshRef.current.position.x = rasterX;
-        meshRef.current.position.y = rasterY + Math.sin(rasterPhase + index * 0.8) * amp * 0.3 * vAmp;
-        meshRef.current.position.z = rasterZ;
-        // Stretched horizontally like raster bars
-        meshRef.current.scale.set(
-          settings.shapeScale * 2.5,
-          settings.shapeScale * 0.4,
-          settings.shapeScale * 0.4
-        );
-        meshRef.current.rotation.y = Math.sin(rasterPhase * 0.3 + index) * 0.3 * rotMult;
-        meshRef.current.rotation.x = 0;
-        meshRef.current.rotation.z = Math.sin(rasterPhase * 0.2 + index * 0.4) * 0.15 * rotMult;
-        break;
-      }
+    case 'tunnel': {
+      // Classic tunnel effect: shapes arranged in rings that zoom towards camera
+      const ringCount = Math.max(3, Math.floor(total / 3));
+      const ringIndex = index % ringCount;
+      const posInRing = Math.floor(index / ringCount);
+      const ringAngle = (posInRing / Math.max(1, Math.floor(total / ringCount))) * Math.PI * 2;
+      // Rings move towards camera and wrap around
+      const tunnelZ = ((phase * 0.8 + ringIndex * 1.5) % (ringCount * 1.5)) - ringCount * 0.75;
+      const tunnelRadius = spread * 0.4 * (1 + tunnelZ * 0.15);
+      object.position.x = Math.cos(ringAngle + phase * 0.3) * tunnelRadius * hAmp;
+      object.position.y = Math.sin(ringAngle + phase * 0.3) * tunnelRadius * vAmp;
+      object.position.z = tunnelZ;
+      const tunnelScale = Math.max(0.2, 1 - Math.abs(tunnelZ) / (ringCount * 0.75));
+      object.scale.setScalar(tunnelScale * settings.shapeScale * amp);
+      object.rotation.z = (phase + ringAngle) * rotMult;
+      object.rotation.x = phase * 0.5 * rotMult;
+      break;
+    }
 
-      case 'plasma': {
-        // Plasma: shapes arranged in a grid-like pattern with plasma-style sine movement
-        const gridSize = Math.max(2, Math.ceil(Math.sqrt(total)));
-        const gridX = (index % gridSize) - gridSize / 2;
-        const gridY = Math.floor(index / gridSize) - gridSize / 2;
-        const plasmaX = gridX * spread * 0.3 * hAmp;
-        const plasmaY = gridY * spread * 0.3 * vAmp;
-        // Plasma displacement
-        const plasmaDisp = Math.sin(gridX * freq + phase * 2) * Math.cos(gridY * freq + phase * 1.5) * amp;
-        const plasmaZ = plasmaDisp;
-        meshRef.current.position.x = plasmaX + Math.sin(phase + gridY * 0.5) * 0.3;
-        meshRef.current.position.y = plasmaY + Math.cos(phase + gridX * 0.5) * 0.3;
-        meshRef.current.position.z = plasmaZ;
-        const plasmaScale = 0.6 + Math.sin(phase * 2 + gridX + gridY) * 0.3;
-        meshRef.current.scale.setScalar(plasmaScale * settings.shapeScale);
-        meshRef.current.rotation.x = (phase + gridX * 0.5) * rotMult;
-        meshRef.current.rotation.y = (phase + gridY * 0.5) * rotMult;
-        meshRef.current.rotation.z = (phase * 0.5) * rotMult;
-        break;
-      }
+    case 'rasterbars': {
+      // Raster bars: multiple shapes moving in interleaved sine waves like old Amiga raster effects
+      const rasterPhase = phase * freq;
+      const rasterY = (index - total / 2) * spread * 0.2;
+      const rasterX = Math.sin(rasterPhase + index * 0.5) * spread * hAmp;
+      const rasterZ = Math.cos(rasterPhase * 0.7 + index * 0.3) * amp * 0.5;
+      object.position.x = rasterX;
+      object.position.y = rasterY + Math.sin(rasterPhase + index * 0.8) * amp * 0.3 * vAmp;
+      object.position.z = rasterZ;
+      // Stretched horizontally like raster bars
+      object.scale.set(
+        settings.shapeScale * 2.5,
+        settings.shapeScale * 0.4,
+        settings.shapeScale * 0.4
+      );
+      object.rotation.y = Math.sin(rasterPhase * 0.3 + index) * 0.3 * rotMult;
+      object.rotation.x = 0;
+      object.rotation.z = Math.sin(rasterPhase * 0.2 + index * 0.4) * 0.15 * rotMult;
+      break;
     }
+
+    case 'plasma': {
+      // Plasma: shapes arranged in a grid-like pattern with plasma-style sine movement
+      const gridSize = Math.max(2, Math.ceil(Math.sqrt(total)));
+      const gridX = (index % gridSize) - gridSize / 2;
+      const gridY = Math.floor(index / gridSize) - gridSize / 2;
+      const plasmaX = gridX * spread * 0.3 * hAmp;
+      const plasmaY = gridY * spread * 0.3 * vAmp;
+      // Plasma displacement
+      const plasmaDisp = Math.sin(gridX * freq + phase * 2) * Math.cos(gridY * freq + phase * 1.5) * amp;
+      const plasmaZ = plasmaDisp;
+      object.position.x = plasmaX + Math.sin(phase + gridY * 0.5) * 0.3;
+      object.position.y = plasmaY + Math.cos(phase + gridX * 0.5) * 0.3;
+      object.position.z = plasmaZ;
+      const plasmaScale = 0.6 + Math.sin(phase * 2 + gridX + gridY) * 0.3;
+      object.scale.setScalar(plasmaScale * settings.shapeScale);
+      object.rotation.x = (phase + gridX * 0.5) * rotMult;
+      object.rotation.y = (phase + gridY * 0.5) * rotMult;
+      object.rotation.z = (phase * 0.5) * rotMult;
+      break;
+    }
+  }
+}
+
+function useShapeAnimation(meshRef: React.RefObject<THREE.Mesh | THREE.Group | null>, settings: AnimationSettings, index: number, total: number) {
+  const loopClock = useLoopClock();
+
+  useFrame(() => {
+    if (!meshRef.current) return;
+    // Loop position (0 to 1) from the shared loop clock - frozen while paused, set exactly when scrubbing or exporting
+    applyShapeAnimation(meshRef.current, settings, loopClock.loopT, index, total);
+    setGradientLoopT(meshRef.current, loopClock.loopT);
+  });
+}
+
+/**
+ * Pose trail ghosts where the shape was trailSpacing, 2 × trailSpacing, … seconds earlier. Positions before
+ * the loop start wrap to the loop end, so the trail is already complete on frame 0 of an export.
+ */
+function useTrailAnimation(ghostsRef: React.RefObject<(THREE.Object3D | null)[]>, settings: AnimationSettings, index: number, total: number) {
+  const loopClock = useLoopClock();
+
+  useFrame(() => {
+    const step = settings.trailSpacing / settings.loopDuration;
+    ghostsRef.current.forEach((ghost, k) => {
+      if (!ghost) return;
+      const loopT = (((loopClock.loopT - (k + 1) * step) % 1) + 1) % 1;
+      applyShapeAnimation(ghost, settings, loopT, index, total);
+      setGradientLoopT(ghost, loopT);
+    });
   });
 }
 
@@ -562,6 +583,24 @@ function useMaterialForShape(settings: AnimationSettings, index: number, total:
   return useMemo(() => {
     const color1 = new THREE.Color(settings.shapeColor);
     const color2 = new THREE.Color(settings.shapeColor2);
+
+    if (settings.useGradientMaterial) {
+      // Blend across each shape; multiple shapes sweep one after another
+      const material = new GradientMaterial({
+        color: color1,
+        wireframe: settings.wireframe,
+        emissive: color1,
+        emissiveIntensity: settings.wireframe ? 0.3 : 0.15,
+        metalness: settings.metalness,
+        roughness: settings.roughness,
+      });
+      material.color2.copy(color2);
+      material.gradientMode = settings.gradientMode;
+      material.sweepCycles = settings.gradientSweepSpeed;
+      material.sweepPhase = total > 1 ? index / total : 0;
+      return material;
+    }
+
     const mixedColor = color1.clone().lerp(color2, total > 1 ? index / (total - 1) : 0);
 
     if (settings.wireframe) {
@@ -582,45 +621,143 @@ function useMaterialForShape(settings: AnimationSettings, index: number, total:
       emissive: mixedColor,
       emissiveIntensity: 0.15,
     });
-  }, [settings.shapeColor, settings.shapeColor2, settings.wireframe, settings.metalness, settings.roughness, index, total]);
+  }, [
+    settings.shapeColor,
+    settings.shapeColor2,
+    settings.useGradientMaterial,
+    settings.gradientMode,
+    settings.gradientSweepSpeed,
+    settings.wireframe,
+    settings.metalness,
+    settings.roughness,
+    index,
+    total,
+  ]);
 }
 
-function Shape({ settings, index, total, isPaused = false }: ShapeProps) {
+/**
+ * One material per trail ghost, newest first: fading out, or towards the background color (opaque, like
+ * classic bob trails)
+ */
+function useTrailMaterials(material: THREE.MeshStandardMaterial, settings: AnimationSettings) {
+  const materials = useMemo(() => {
+    const background = new THREE.Color(settings.backgroundColor);
+    return Array.from({ length: settings.trailLength }, (_, k) => {
+      const strength = 1 - (k + 1) / (settings.trailLength + 1);
+      const ghost = material.clone();
+      if (settings.trailFade === 'opacity') {
+        ghost.transparent = true;
+        ghost.opacity = strength;
+        ghost.depthWrite = false;
+      } else {
+        ghost.color.lerp(background, 1 - strength);
+        ghost.emissive.lerp(background, 1 - strength);
+        if (ghost instanceof GradientMaterial) ghost.color2.lerp(background, 1 - strength);
+      }
+      return ghost;
+    });
+  }, [material, settings.trailLength, settings.trailFade, settings.backgroundColor]);
+
+  useEffect(() => () => materials.forEach(ghost => ghost.dispose()), [materials]);
+
+  return materials;
+}
+
+/**
+ * Normalize the shape's gradient materials (trail ghosts included) to its geometry's bounds
+ */
+function useGradientBounds(bounds: THREE.Box3 | null, material: THREE.Material, trailMaterials: THREE.Material[]) {
+  useLayoutEffect(() => {
+    if (!bounds) return;
+    [material, ...trailMaterials].forEach(m => {
+      if (m instanceof GradientMaterial) m.setBounds(bounds);
+    });
+  }, [bounds, material, trailMaterials]);
+}
+
+function Shape({ settings, index, total }: ShapeProps) {
   const meshRef = useRef<THREE.Mesh>(null);
+  const ghostsRef = useRef<(THREE.Object3D | null)[]>([]);
   const geometry = useMemo(() => createGeometry(settings.geometryType, settings.geometryDetail), [settings.geometryType, settings.geometryDetail]);
+  const bounds = useMemo(() => new THREE.Box3().setFromBufferAttribute(geometry.attributes.position as THREE.BufferAttribute), [geometry]);
   const material = useMaterialForShape(settings, index, total);
-  useShapeAnimation(meshRef, settings, index, total, isPaused);
+  const trailMaterials = useTrailMaterials(material, settings);
+  useGradientBounds(bounds, material, trailMaterials);
+  useShapeAnimation(meshRef, settings, index, total);
+  useTrailAnimation(ghostsRef, settings, index, total);
 
   return (
-    <mesh ref={meshRef} geometry={geometry} material={material} scale={settings.shapeScale} />
+    <>
+      <mesh ref={meshRef} geometry={geometry} material={material} scale={settings.shapeScale} />
+      {trailMaterials.map((ghostMaterial, k) => (
+        <mesh
+          key={k}
+          ref={(ghost) => { ghostsRef.current[k] = ghost; }}
+          geometry={geometry}
+          material={ghostMaterial}
+          scale={settings.shapeScale}
+        />
+      ))}
+    </>
   );
 }
 
-function TextShapeInner({ settings, index, total, isPaused = false }: ShapeProps) {
+function TextShapeInner({ settings, index, total }: ShapeProps) {
   const groupRef = useRef<THREE.Group>(null);
+  const ghostsRef = useRef<(THREE.Object3D | null)[]>([]);
+  const textRef = useRef<THREE.Mesh>(null);
+  const [bounds, setBounds] = useState<THREE.Box3 | null>(null);
   const material = useMaterialForShape(settings, index, total);
-  useShapeAnimation(groupRef, settings, index, total, isPaused);
+  const trailMaterials = useTrailMaterials(material, settings);
+  useShapeAnimation(groupRef, settings, index, total);
+  useTrailAnimation(ghostsRef, settings, index, total);
+  useGradientBounds(bounds, material, trailMaterials);
 
   const fontUrl = TEXT_FONT_URLS[settings.textFont] || TEXT_FONT_URLS.helvetiker_bold;
 
+  // Text3D rebuilds its geometry when any of these change
+  useLayoutEffect(() => {
+    const position = textRef.current?.geometry.attributes.position;
+    if (position) setBounds(new THREE.Box3().setFromBufferAttribute(position as THREE.BufferAttribute));
+  }, [
+    fontUrl,
+    settings.textContent,
+    settings.textDepth,
+    settings.textBevel,
+    settings.textBevelThickness,
+    settings.textBevelSize,
+  ]);
+
+  const renderText = (textMaterial: THREE.Material, ref?: React.Ref<THREE.Mesh>) => (
+    <Center>
+      <Text3D
+        ref={ref}
+        font={fontUrl}
+        size={0.8}
+        height={settings.textDepth}
+        curveSegments={8}
+        bevelEnabled={settings.textBevel}
+        bevelThickness={settings.textBevelThickness}
+        bevelSize={settings.textBevelSize}
+        bevelSegments={3}
+        material={textMaterial}
+      >
+        {settings.textContent || 'TEXT'}
+      </Text3D>
+    </Center>
+  );
+
   return (
-    <group ref={groupRef} scale={settings.shapeScale}>
-      <Center>
-        <Text3D
-          font={fontUrl}
-          size={0.8}
-          height={settings.textDepth}
-          curveSegments={8}
-          bevelEnabled={settings.textBevel}
-          bevelThickness={settings.textBevelThickness}
-          bevelSize={settings.textBevelSize}
-          bevelSegments={3}
-          material={material}
-        >
-          {settings.textContent || 'TEXT'}
-        </Text3D>
-      </Center>
-    </group>
+    <>
+      <group ref={groupRef} scale={settings.shapeScale}>
+        {renderText(material, textRef)}
+      </group>
+      {trailMaterials.map((ghostMaterial, k) => (
+        <group key={k} ref={(ghost) => { ghostsRef.current[k] = ghost; }} scale={settings.shapeScale}>
+          {renderText(ghostMaterial)}
+        </group>
+      ))}
+    </>
   );
 }
 
@@ -634,18 +771,17 @@ function TextShape(props: ShapeProps) {
 
 interface AnimatedShapesProps {
   settings: AnimationSettings;
-  isPaused?: boolean;
 }
 
-export function AnimatedShapes({ settings, isPaused = false }: AnimatedShapesProps) {
+export function AnimatedShapes({ settings }: AnimatedShapesProps) {
   const isText = settings.geometryType === 'text3d';
   const ShapeComponent = isText ? TextShape : Shape;
 
   const shapes = useMemo(() => {
     return Array.from({ length: settings.shapeCount }, (_, i) => (
-      <ShapeComponent key={`${i}-${settings.geometryType}-${settings.shapeCount}-${isText ? settings.textContent + settings.textFont : ''}`} settings={settings} index={i} total={settings.shapeCount} isPaused={isPaused} />
+      <ShapeComponent key={`${i}-${settings.geometryType}-${settings.shapeCount}-${isText ? settings.textContent + settings.textFont : ''}`} settings={settings} index={i} total={settings.shapeCount} />
     ));
-  }, [settings, isPaused, ShapeComponent, isText]);
+  }, [settings, ShapeComponent, isText]);
 
   return <>{shapes}</>;
 }
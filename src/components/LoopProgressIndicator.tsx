@@ -1,58 +1,97 @@
-import { useRef, useEffect, useState } from 'react';
-
-interface LoopPreviewProps {
-  loopDuration: number;
-  isPaused: boolean;
-}
-
-/**
- * Visual loop progress indicator
- */
-export function LoopProgressIndicator({ loopDuration, isPaused }: LoopPreviewProps) {
-  const [progress, setProgress] = useState(0);
-  const startTimeRef = useRef<number>(Date.now());
-  const animationFrameRef = useRef<number>(0);
-
-  useEffect(() => {
-    if (isPaused) return;
-
-    const updateProgress = () => {
-      const elapsed = (Date.now() - startTimeRef.current) / 1000;
-      const loopProgress = (elapsed % loopDuration) / loopDuration;
-      setProgress(loopProgress);
-      animationFrameRef.current = requestAnimationFrame(updateProgress);
-    };
-
-    animationFrameRef.current = requestAnimationFrame(updateProgress);
-
-    return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
-    };
-  }, [loopDuration, isPaused]);
-
-  useEffect(() => {
-    if (isPaused) return;
-    startTimeRef.current = Date.now();
-  }, [isPaused]);
-
-  return (
-    <div className="absolute top-4 left-4 right-4 lg:left-auto lg:right-4 pointer-events-none">
-      <div className="flex items-center gap-2">
-        <div className="flex-1 h-1 bg-white/10 rounded-full overflow-hidden">
-          <div
-            className="h-full bg-gradient-to-r from-violet-500 to-fuchsia-500 transition-all duration-100"
-            style={{
-              width: `${progress * 100}%`,
-              opacity: 0.8,
-            }}
-          />
-        </div>
-        <span className="text-[10px] text-white/40 font-mono min-w-[40px] text-right">
-          {Math.round(progress * 100)}%
-        </span>
-      </div>
-    </div>
-  );
-}
+import { useRef, useEffect, useCallback } from 'react';
+import { useLoopClock, useLoopT } from '../hooks/useLoopClock';
+
+interface LoopPreviewProps {
+  loopDuration: number;
+  exportFps: number;
+}
+
+/**
+ * Loop timeline
+ * Shows the shared loop clock position. Drag to seek anywhere in the loop (including the exact loop end),
+ * arrow keys step one frame at the export frame rate.
+ */
+export function LoopProgressIndicator({ loopDuration, exportFps }: LoopPreviewProps) {
+  const loopClock = useLoopClock();
+  const progress = useLoopT();
+  const trackRef = useRef<HTMLDivElement>(null);
+  const resumeAfterDragRef = useRef(false);
+
+  const frameCount = Math.max(1, Math.round(loopDuration * exportFps));
+  const currentFrame = Math.round(progress * frameCount);
+
+  const seekToPointer = useCallback((clientX: number) => {
+    const track = trackRef.current;
+    if (!track) return;
+    const rect = track.getBoundingClientRect();
+    loopClock.seek((clientX - rect.left) / rect.width);
+  }, [loopClock]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    // Hold playback while dragging so the scene shows exactly the scrubbed frame
+    resumeAfterDragRef.current = !loopClock.isPaused;
+    loopClock.pause();
+    seekToPointer(e.clientX);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    seekToPointer(e.clientX);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    if (resumeAfterDragRef.current) loopClock.play();
+    resumeAfterDragRef.current = false;
+  };
+
+  // Arrow keys step a single frame (ignored while a form control has focus, e.g. settings sliders)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName))) return;
+
+      e.preventDefault();
+      loopClock.pause();
+      loopClock.step(e.key === 'ArrowRight' ? 1 : -1, exportFps);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [loopClock, exportFps]);
+
+  return (
+    <div className="absolute top-4 left-4 right-4 lg:left-auto lg:right-4 pointer-events-none">
+      <div className="flex items-center gap-2">
+        <div
+          ref={trackRef}
+          className="relative flex-1 py-2 cursor-pointer pointer-events-auto touch-none group"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          title="Drag to scrub · ←/→ to step frames"
+        >
+          <div className="h-1 bg-white/10 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-violet-500 to-fuchsia-500"
+              style={{
+                width: `${progress * 100}%`,
+                opacity: 0.8,
+              }}
+            />
+          </div>
+          <div
+            className="absolute top-1/2 w-2.5 h-2.5 -mt-[5px] -ml-[5px] rounded-full bg-fuchsia-400 shadow shadow-fuchsia-500/40 opacity-0 group-hover:opacity-100 transition-opacity"
+            style={{ left: `${progress * 100}%` }}
+          />
+        </div>
+        <span className="text-[10px] text-white/40 font-mono min-w-[72px] text-right">
+          {currentFrame}/{frameCount} · {Math.round(progress * 100)}%
+        </span>
+      </div>
+    </div>
+  );
+}
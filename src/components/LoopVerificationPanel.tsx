@@ -0,0 +1,71 @@
+import { useRef, useEffect } from 'react';
+import { CheckCircle2, AlertTriangle, X } from 'lucide-react';
+import { LoopVerificationReport } from '../utils/loopVerification';
+
+interface LoopVerificationPanelProps {
+  report: LoopVerificationReport;
+  onDismiss: () => void;
+}
+
+/**
+ * Seam check result
+ * Shows how much the loop end differs from its start, which settings are to blame,
+ * and a heatmap of where the mismatched pixels are.
+ */
+export function LoopVerificationPanel({ report, onDismiss }: LoopVerificationPanelProps) {
+  const heatmapRef = useRef<HTMLCanvasElement>(null);
+  const { difference, issues } = report;
+  const clean = report.seamless && issues.length === 0;
+
+  useEffect(() => {
+    const canvas = heatmapRef.current;
+    if (!canvas) return;
+    canvas.width = difference.heatmap.width;
+    canvas.height = difference.heatmap.height;
+    canvas.getContext('2d')?.putImageData(difference.heatmap, 0, 0);
+  }, [difference.heatmap]);
+
+  return (
+    <div className="absolute top-12 left-4 w-64 p-3 rounded-xl bg-black/70 backdrop-blur-md border border-white/10 text-white/80 z-10">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-1.5">
+          {clean ? (
+            <CheckCircle2 size={14} className="text-emerald-400" />
+          ) : (
+            <AlertTriangle size={14} className="text-amber-400" />
+          )}
+          <span className="text-xs font-semibold">
+            {report.seamless ? 'Loop is seamless' : 'Loop seam detected'}
+          </span>
+        </div>
+        <button onClick={onDismiss} className="p-0.5 text-white/40 hover:text-white transition-colors" title="Dismiss">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="text-[10px] text-white/50 font-mono mb-2">
+        {(difference.mismatchRatio * 100).toFixed(2)}% pixels differ · max Δ{difference.maxDifference} · mean Δ{difference.meanDifference.toFixed(1)}
+      </div>
+
+      {!report.seamless && (
+        <canvas
+          ref={heatmapRef}
+          className="w-full rounded-md border border-white/10 bg-black mb-2"
+          style={{ imageRendering: 'pixelated' }}
+        />
+      )}
+
+      {issues.length > 0 && (
+        <ul className="space-y-1.5">
+          {issues.map(issue => (
+            <li key={issue.parameter} className="text-[10px] leading-snug">
+              <span className="font-mono text-amber-300">{issue.parameter}</span>
+              <span className="text-white/50"> = {issue.value}</span>
+              <div className="text-white/60">{issue.message}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { Plus, X, ArrowLeftRight } from 'lucide-react';
+import type { PaletteCycleRange } from '../utils/paletteCycling';
+
+interface PaletteCycleEditorProps {
+  ranges: PaletteCycleRange[];
+  palette: [number, number, number][];
+  onChange: (ranges: PaletteCycleRange[]) => void;
+}
+
+/**
+ * Palette cycling ranges
+ * Each range is an inclusive span of palette indices, shown with the colors it rotates.
+ */
+export function PaletteCycleEditor({ ranges, palette, onChange }: PaletteCycleEditorProps) {
+  const maxIndex = Math.max(0, palette.length - 1);
+
+  const updateRange = (index: number, changes: Partial<PaletteCycleRange>) => {
+    onChange(ranges.map((range, i) => (i === index ? { ...range, ...changes } : range)));
+  };
+
+  const clampIndex = (value: string) => Math.max(0, Math.min(maxIndex, parseInt(value, 10) || 0));
+
+  const inputClass = 'w-12 bg-white/5 border border-white/10 rounded px-1.5 py-1 text-[11px] text-white/90 font-mono focus:outline-none focus:border-violet-500/50';
+
+  return (
+    <div className="space-y-2 p-2.5 rounded-lg bg-white/[0.02] border border-white/5">
+      {ranges.map((range, i) => {
+        const start = Math.min(range.start, range.end, maxIndex);
+        const end = Math.min(Math.max(range.start, range.end), maxIndex);
+        return (
+          <div key={i} className="space-y-1">
+            <div className="flex items-center gap-1.5">
+              <input
+                type="number"
+                min={0}
+                max={maxIndex}
+                value={range.start}
+                onChange={(e) => updateRange(i, { start: clampIndex(e.target.value) })}
+                className={inputClass}
+                title="First palette index"
+              />
+              <span className="text-[11px] text-white/30">to</span>
+              <input
+                type="number"
+                min={0}
+                max={maxIndex}
+                value={range.end}
+                onChange={(e) => updateRange(i, { end: clampIndex(e.target.value) })}
+                className={inputClass}
+                title="Last palette index"
+              />
+              <button
+                onClick={() => updateRange(i, { reverse: !range.reverse })}
+                className={`p-1 rounded border transition-colors ${range.reverse
+                  ? 'bg-violet-500/20 border-violet-500/50 text-violet-300'
+                  : 'bg-white/5 border-white/10 text-white/50 hover:text-white'}`}
+                title="Reverse direction"
+              >
+                <ArrowLeftRight size={12} />
+              </button>
+              <button
+                onClick={() => onChange(ranges.filter((_, j) => j !== i))}
+                className="ml-auto p-1 text-white/40 hover:text-white"
+                title="Remove range"
+              >
+                <X size={12} />
+              </button>
+            </div>
+            <div className="flex h-2 rounded-sm overflow-hidden border border-white/10">
+              {palette.slice(start, end + 1).map(([r, g, b], j) => (
+                <div key={j} className="flex-1" style={{ backgroundColor: `rgb(${r}, ${g}, ${b})` }} />
+              ))}
+            </div>
+          </div>
+        );
+      })}
+      <button
+        onClick={() => onChange([...ranges, { start: 0, end: maxIndex, reverse: false }])}
+        className="w-full flex items-center justify-center gap-1 py-1.5 rounded-lg text-[11px] bg-white/5 text-white/70 hover:bg-white/10 hover:text-white border border-white/10 transition-colors"
+      >
+        <Plus size={12} /> Add Range
+      </button>
+    </div>
+  );
+}
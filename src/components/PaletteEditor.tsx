@@ -0,0 +1,210 @@
+import { useRef, useState } from 'react';
+import { Plus, Upload, Download, Trash2, Copy, X, ImageIcon } from 'lucide-react';
+import { getPalette, PaletteId } from '../utils/palettes';
+import { customPaletteStore, isCustomPaletteId, MAX_PALETTE_COLORS } from '../utils/customPalettes';
+import { PaletteFormat, paletteFormats, parsePaletteFile, serializePalette } from '../utils/paletteFormats';
+import { useCustomPalettes } from '../hooks/useCustomPalettes';
+import { PaletteExtractor } from './PaletteExtractor';
+
+interface PaletteEditorProps {
+  paletteId: PaletteId;
+  onSelectPalette: (id: PaletteId) => void;
+}
+
+const toHexColor = ([r, g, b]: [number, number, number]) =>
+  `#${[r, g, b].map(c => c.toString(16).padStart(2, '0')).join('')}`;
+
+const fromHexColor = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+];
+
+/**
+ * Custom palette editor
+ * Create palettes from scratch, from the current one or from an image, import/export palette files,
+ * and edit the name and colors of the selected custom palette.
+ */
+export function PaletteEditor({ paletteId, onSelectPalette }: PaletteEditorProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [exportFormat, setExportFormat] = useState<PaletteFormat>('gpl');
+  const [showExtractor, setShowExtractor] = useState(false);
+  const customPalettes = useCustomPalettes();
+
+  const custom = isCustomPaletteId(paletteId) ? customPalettes.find(p => p.id === paletteId) : undefined;
+  const current = getPalette(paletteId);
+
+  const handleDuplicate = () => {
+    const created = customPaletteStore.create({
+      name: custom ? `${current.name} Copy` : `Custom ${current.name}`,
+      colors: current.colors,
+    });
+    onSelectPalette(created.id);
+  };
+
+  const handleNew = () => {
+    const created = customPaletteStore.create({
+      name: 'Custom Palette',
+      colors: [[0, 0, 0], [255, 255, 255]],
+    });
+    onSelectPalette(created.id);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const palette = parsePaletteFile(file.name, await file.arrayBuffer());
+      if (palette.colors.length > MAX_PALETTE_COLORS) {
+        alert(`${file.name} has ${palette.colors.length} colors - only the first ${MAX_PALETTE_COLORS} were imported.`);
+      }
+      onSelectPalette(customPaletteStore.create(palette).id);
+    } catch (error) {
+      console.error('Palette import failed:', error);
+      alert(`Palette import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = serializePalette(current, exportFormat);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${current.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'palette'}.${exportFormat}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDelete = () => {
+    if (!custom) return;
+    customPaletteStore.remove(custom.id);
+    onSelectPalette('full');
+  };
+
+  const setColor = (index: number, hex: string) => {
+    if (!custom) return;
+    const colors = custom.colors.slice();
+    colors[index] = fromHexColor(hex);
+    customPaletteStore.update(custom.id, { colors });
+  };
+
+  const removeColor = (index: number) => {
+    if (!custom || custom.colors.length <= 1) return;
+    customPaletteStore.update(custom.id, { colors: custom.colors.filter((_, i) => i !== index) });
+  };
+
+  const addColor = () => {
+    if (!custom || custom.colors.length >= MAX_PALETTE_COLORS) return;
+    const last = custom.colors[custom.colors.length - 1] ?? [128, 128, 128];
+    customPaletteStore.update(custom.id, { colors: [...custom.colors, [last[0], last[1], last[2]]] });
+  };
+
+  const buttonClass = 'flex-1 flex items-center justify-center gap-1 py-1.5 rounded-lg text-[11px] bg-white/5 text-white/70 hover:bg-white/10 hover:text-white border border-white/10 transition-colors';
+
+  return (
+    <div className="space-y-2 p-2.5 rounded-lg bg-white/[0.02] border border-white/5">
+      <div className="flex gap-1.5">
+        <button onClick={handleNew} className={buttonClass} title="New palette">
+          <Plus size={12} /> New
+        </button>
+        <button onClick={handleDuplicate} className={buttonClass} title="Copy the current palette into an editable one">
+          <Copy size={12} /> Duplicate
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass} title="Import .gpl, .txt, .pal, .hex or .ase">
+          <Upload size={12} /> Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".gpl,.txt,.pal,.hex,.ase"
+          onChange={handleImport}
+          className="hidden"
+        />
+        <button onClick={() => setShowExtractor(v => !v)} className={buttonClass} title="Extract a palette from an image">
+          <ImageIcon size={12} /> Image
+        </button>
+      </div>
+
+      {showExtractor && (
+        <PaletteExtractor onSelectPalette={onSelectPalette} onClose={() => setShowExtractor(false)} />
+      )}
+
+      {custom && (
+        <>
+          <input
+            type="text"
+            value={custom.name}
+            maxLength={40}
+            onChange={(e) => customPaletteStore.update(custom.id, { name: e.target.value })}
+            className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white/90
+              focus:outline-none focus:border-violet-500/50"
+          />
+
+          <div className="grid grid-cols-8 gap-1">
+            {custom.colors.map((color, i) => (
+              <div key={i} className="relative group">
+                <input
+                  type="color"
+                  value={toHexColor(color)}
+                  onChange={(e) => setColor(i, e.target.value)}
+                  className="w-full aspect-square rounded cursor-pointer border border-white/10 bg-transparent [&::-webkit-color-swatch-wrapper]:p-0 [&::-webkit-color-swatch]:rounded [&::-webkit-color-swatch]:border-none"
+                  title={toHexColor(color)}
+                />
+                {custom.colors.length > 1 && (
+                  <button
+                    onClick={() => removeColor(i)}
+                    className="absolute -top-1 -right-1 w-3.5 h-3.5 rounded-full bg-black/80 text-white/70 hover:text-white items-center justify-center hidden group-hover:flex"
+                    title="Remove color"
+                  >
+                    <X size={8} />
+                  </button>
+                )}
+              </div>
+            ))}
+            {custom.colors.length < MAX_PALETTE_COLORS && (
+              <button
+                onClick={addColor}
+                className="aspect-square rounded border border-dashed border-white/20 text-white/40 hover:text-white hover:border-white/40 flex items-center justify-center"
+                title="Add color"
+              >
+                <Plus size={12} />
+              </button>
+            )}
+          </div>
+          <p className="text-[10px] text-white/30">{custom.colors.length} / {MAX_PALETTE_COLORS} colors</p>
+        </>
+      )}
+
+      <div className="flex gap-1.5">
+        <select
+          value={exportFormat}
+          onChange={(e) => setExportFormat(e.target.value as PaletteFormat)}
+          className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-[11px] text-white/90
+            focus:outline-none focus:border-violet-500/50 appearance-none cursor-pointer"
+        >
+          {paletteFormats.map((format) => (
+            <option key={format.value} value={format.value} className="bg-gray-900">
+              {format.label}
+            </option>
+          ))}
+        </select>
+        <button onClick={handleExport} className={`${buttonClass} flex-none px-2.5`} title="Export the current palette">
+          <Download size={12} /> Export
+        </button>
+        {custom && (
+          <button
+            onClick={handleDelete}
+            className="flex-none px-2.5 py-1.5 rounded-lg text-[11px] bg-red-500/10 text-red-300 hover:bg-red-500/20 border border-red-500/20 transition-colors"
+            title="Delete this palette"
+          >
+            <Trash2 size={12} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useEffect, useRef, useState } from 'react';
+import { ImageIcon, Check, X } from 'lucide-react';
+import { PaletteId } from '../utils/palettes';
+import { customPaletteStore, MAX_PALETTE_COLORS } from '../utils/customPalettes';
+import { extractPalette, PaletteExtractionMethod, paletteExtractionMethods, samplePixels } from '../utils/paletteExtraction';
+
+interface PaletteExtractorProps {
+  onSelectPalette: (id: PaletteId) => void;
+  onClose: () => void;
+}
+
+// Source images are scaled down before sampling - extraction only needs the color distribution
+const MAX_SOURCE_SIZE = 256;
+// Extraction waits for the count slider and method to settle instead of running on every step
+const EXTRACT_DELAY_MS = 150;
+
+interface SourceImage {
+  name: string;
+  url: string;
+  pixels: [number, number, number][];
+}
+
+/**
+ * Palette extraction from a reference image
+ * Previews the extracted colors live as method and count change, then saves them as a custom palette.
+ */
+export function PaletteExtractor({ onSelectPalette, onClose }: PaletteExtractorProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [source, setSource] = useState<SourceImage | null>(null);
+  const [method, setMethod] = useState<PaletteExtractionMethod>('kmeans');
+  const [colorCount, setColorCount] = useState(16);
+  const [colors, setColors] = useState<[number, number, number][]>([]);
+
+  useEffect(() => {
+    return () => {
+      if (source) URL.revokeObjectURL(source.url);
+    };
+  }, [source]);
+
+  useEffect(() => {
+    if (!source) {
+      setColors([]);
+      return;
+    }
+    const timer = setTimeout(() => setColors(extractPalette(source.pixels, colorCount, method)), EXTRACT_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [source, colorCount, method]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const bitmap = await createImageBitmap(file);
+      const scale = Math.min(1, MAX_SOURCE_SIZE / Math.max(bitmap.width, bitmap.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+      canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Canvas 2D context unavailable');
+      ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      bitmap.close();
+
+      const pixels = samplePixels(ctx.getImageData(0, 0, canvas.width, canvas.height));
+      if (pixels.length === 0) throw new Error('The image has no opaque pixels');
+
+      setSource({ name: file.name.replace(/\.[^.]+$/, '') || 'Image', url: URL.createObjectURL(file), pixels });
+    } catch (error) {
+      console.error('Palette extraction failed:', error);
+      alert(`Could not read image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleSave = () => {
+    if (colors.length === 0 || !source) return;
+    const created = customPaletteStore.create({ name: `${source.name} (${colors.length})`, colors });
+    onSelectPalette(created.id);
+    onClose();
+  };
+
+  const toHexColor = ([r, g, b]: [number, number, number]) =>
+    `#${[r, g, b].map(c => c.toString(16).padStart(2, '0')).join('')}`;
+
+  const buttonClass = 'flex-1 flex items-center justify-center gap-1 py-1.5 rounded-lg text-[11px] bg-white/5 text-white/70 hover:bg-white/10 hover:text-white border border-white/10 transition-colors';
+
+  return (
+    <div className="space-y-2 p-2.5 rounded-lg bg-white/[0.03] border border-violet-500/20">
+      <div className="flex items-center justify-between">
+        <span className="text-[11px] font-medium text-white/70">Extract from Image</span>
+        <button onClick={onClose} className="text-white/40 hover:text-white" title="Close">
+          <X size={12} />
+        </button>
+      </div>
+
+      <button onClick={() => fileInputRef.current?.click()} className={`${buttonClass} w-full`}>
+        <ImageIcon size={12} /> {source ? 'Choose Another Image' : 'Choose Image'}
+      </button>
+      <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFile} className="hidden" />
+
+      {source && (
+        <>
+          <img src={source.url} alt={source.name} className="w-full max-h-28 object-contain rounded border border-white/10" />
+
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as PaletteExtractionMethod)}
+            className="w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-[11px] text-white/90
+              focus:outline-none focus:border-violet-500/50 appearance-none cursor-pointer"
+          >
+            {paletteExtractionMethods.map((m) => (
+              <option key={m.value} value={m.value} className="bg-gray-900">
+                {m.label}
+              </option>
+            ))}
+          </select>
+
+          <div className="space-y-1">
+            <div className="flex justify-between text-[11px]">
+              <span className="text-white/60">Colors</span>
+              <span className="text-white/40 font-mono">{colorCount}</span>
+            </div>
+            <input
+              type="range"
+              min={2}
+              max={MAX_PALETTE_COLORS}
+              value={colorCount}
+              onChange={(e) => setColorCount(parseInt(e.target.value, 10))}
+              className="w-full h-1.5 bg-white/10 rounded-full appearance-none cursor-pointer accent-violet-500
+                [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:h-3.5 [&::-webkit-slider-thumb]:w-3.5
+                [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-violet-500"
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-0.5">
+            {colors.map((color, i) => (
+              <div
+                key={i}
+                className="w-4 h-4 rounded-sm border border-white/10"
+                style={{ backgroundColor: toHexColor(color) }}
+                title={toHexColor(color)}
+              />
+            ))}
+          </div>
+          <p className="text-[10px] text-white/30">{colors.length} colors</p>
+
+          <button onClick={handleSave} className={`${buttonClass} w-full`} disabled={colors.length === 0}>
+            <Check size={12} /> Save as Palette
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,22 @@
-import { useRef, forwardRef, useImperativeHandle, useEffect, useCallback, useState, useMemo, memo } from 'react';
+import { useRef, forwardRef, useImperativeHandle, useEffect, useLayoutEffect, useCallback, useState, useMemo, memo } from 'react';
 import { Canvas, useThree, useFrame } from '@react-three/fiber';
 import { OrbitControls, Environment } from '@react-three/drei';
 import * as THREE from 'three';
 import { AnimatedShapes } from './AnimatedShapes';
-import { AnimationSettings } from '../types';
-import { imageDataToASCIICells, renderASCIIToCanvas } from '../utils/asciiRenderer';
-import { applyBayerDithering, applyFloydSteinbergDithering, applyJJNDithering, applyStuckiDithering, applySierraDithering, reduceColorsTopalette } from '../utils/dithering';
-import { palettes } from '../utils/palettes';
-import { applyPixelation } from '../utils/pixelation';
+import { ScenePostProcessing } from './ScenePostProcessing';
+import { AnimationSettings, EffectConfig } from '../types';
+import { useLoopClock } from '../hooks/useLoopClock';
+import { FrameProcessor, getGPUTailOptions, planGPUTail } from '../utils/frameProcessor';
+import { getEffectWorkerPool } from '../utils/effectWorkerPool';
+import {
+  BackgroundSettings,
+  backgroundFragmentShader,
+  backgroundVertexShader,
+  getBackgroundUniforms,
+  isFlatBackground,
+  pickBackgroundSettings,
+} from '../utils/background';
+import { GPUEffectsEngine } from '../utils/gpuShaders';
 
 interface SceneLightsProps {
   shapeColor: string;
@@ -30,15 +39,61 @@ const SceneLights = memo(function SceneLights({ shapeColor, shapeColor2 }: Scene
   );
 });
 
-function BackgroundPlane({ backgroundColor }: { backgroundColor: string }) {
+interface BackgroundPlaneProps {
+  background: BackgroundSettings;
+  exportWidth: number;
+  exportHeight: number;
+}
+
+/**
+ * Flat backgrounds are the scene's clear color; gradients and patterns are a fullscreen quad drawn
+ * before everything else, keyed to the loop position
+ */
+function BackgroundPlane({ background, exportWidth, exportHeight }: BackgroundPlaneProps) {
   const { scene } = useThree();
-  const bgColor = useMemo(() => new THREE.Color(backgroundColor), [backgroundColor]);
+  const loopClock = useLoopClock();
+  const flat = isFlatBackground(background);
+  const bgColor = useMemo(() => new THREE.Color(background.backgroundColor), [background.backgroundColor]);
+
+  const material = useMemo(() => new THREE.ShaderMaterial({
+    uniforms: {
+      uResolution: { value: new THREE.Vector2() },
+      uExportAspect: { value: 1 },
+      uLoopT: { value: 0 },
+    },
+    vertexShader: backgroundVertexShader,
+    fragmentShader: backgroundFragmentShader,
+    depthTest: false,
+    depthWrite: false,
+  }), []);
+
+  useEffect(() => () => material.dispose(), [material]);
+
+  // Layout effect: the uniforms must exist before the first frame renders the quad
+  useLayoutEffect(() => {
+    Object.entries(getBackgroundUniforms(background)).forEach(([name, value]) => {
+      material.uniforms[name] = { value };
+    });
+    material.uniforms.uExportAspect.value = exportWidth / exportHeight;
+  }, [material, background, exportWidth, exportHeight]);
 
   useEffect(() => {
-    scene.background = bgColor;
-  }, [scene, bgColor]);
+    scene.background = flat ? bgColor : null;
+  }, [scene, bgColor, flat]);
 
-  return null;
+  useFrame((state) => {
+    if (flat) return;
+    state.gl.getDrawingBufferSize(material.uniforms.uResolution.value);
+    material.uniforms.uLoopT.value = loopClock.loopT;
+  });
+
+  if (flat) return null;
+
+  return (
+    <mesh material={material} frustumCulled={false} renderOrder={-1}>
+      <planeGeometry args={[2, 2]} />
+    </mesh>
+  );
 }
 
 interface CameraControllerProps {
@@ -46,8 +101,6 @@ interface CameraControllerProps {
   cameraDistance: number;
   cameraAutoRotate: boolean;
   cameraAutoRotateSpeed: number;
-  loopDuration: number;
-  isPaused?: boolean;
 }
 
 function CameraController({ 
@@ -55,10 +108,9 @@ function CameraController({
   cameraDistance, 
   cameraAutoRotate, 
   cameraAutoRotateSpeed,
-  loopDuration,
-  isPaused = false,
 }: CameraControllerProps) {
   const { camera } = useThree();
+  const loopClock = useLoopClock();
   const prevPresetRef = useRef<string>(cameraPreset);
   const prevDistanceRef = useRef<number>(cameraDistance);
 
@@ -94,10 +146,9 @@ function CameraController({
   }, [cameraPreset, cameraDistance, cameraAutoRotate, camera]);
 
   // Use faster math for auto-rotation
-  useFrame(({ clock }) => {
-    if (cameraAutoRotate && !isPaused) {
-      const elapsed = clock.getElapsedTime();
-      const loopT = (elapsed % loopDuration) / loopDuration;
+  useFrame(() => {
+    if (cameraAutoRotate) {
+      const loopT = loopClock.loopT;
       const angle = loopT * Math.PI * 2 * cameraAutoRotateSpeed * 0.5;
       
       // Direct position update is faster than setLength + rotation
@@ -116,62 +167,132 @@ function CameraController({
   return null;
 }
 
+/**
+ * Advances the shared loop clock by real frame time while the preview is playing.
+ * Runs before every other useFrame subscriber (negative priority) so they all read the same loopT.
+ */
+function LoopClockDriver() {
+  const loopClock = useLoopClock();
+
+  useFrame(({ frameloop }, delta) => {
+    // While frame stepping (export) the clock is set explicitly per frame
+    if (frameloop !== 'never') loopClock.tick(delta);
+  }, -1);
+
+  return null;
+}
+
 export interface SceneHandle {
   getCanvas: () => HTMLCanvasElement | null;
+  /** Stop the real-time render loop so frames are only produced by renderFrameAt */
+  beginFrameStepping: () => void;
+  /** Synchronously render the scene with the loop clock set to an exact time (seconds) */
+  renderFrameAt: (time: number) => void;
+  /** Synchronously render at a loop position (0-1); 1 renders the exact loop end instead of wrapping */
+  renderFrameAtLoopT: (loopT: number) => void;
+  /** Resume real-time rendering where the preview left off */
+  endFrameStepping: () => void;
+}
+
+interface FrameStepperHandle {
+  begin: () => void;
+  renderAt: (time: number) => void;
+  renderAtLoopT: (loopT: number) => void;
+  end: () => void;
 }
 
+/**
+ * Frame Stepper
+ * Lets the exporter drive the scene explicitly: the real-time loop is stopped (frameloop="never"),
+ * the loop clock is set to the requested time and advance() runs every useFrame subscriber and renders once.
+ */
+const FrameStepper = forwardRef<FrameStepperHandle>(function FrameStepper(_, ref) {
+  const get = useThree((state) => state.get);
+  const loopClock = useLoopClock();
+  const savedTimeRef = useRef(0);
+
+  useImperativeHandle(ref, () => ({
+    begin: () => {
+      savedTimeRef.current = loopClock.elapsed;
+      get().setFrameloop('never');
+    },
+    renderAt: (time: number) => {
+      loopClock.setTime(time);
+      get().advance(time);
+    },
+    renderAtLoopT: (loopT: number) => {
+      loopClock.seek(loopT);
+      get().advance(loopClock.elapsed);
+    },
+    end: () => {
+      get().setFrameloop('always');
+      // Continue the preview from where it was before stepping
+      loopClock.setTime(savedTimeRef.current);
+    },
+  }), [get, loopClock]);
+
+  return null;
+});
+
 interface SceneProps {
   settings: AnimationSettings;
   showBorders: boolean;
   showOverlays: boolean;
-  isPaused?: boolean;
 }
 
 /**
  * Retro Effects Component (Optimized)
- * applies dithering, palette reduction, and pixelation with reduced re-renders
+ * runs the effect stack over the 3D canvas with reduced re-renders.
+ * The trailing effects the GPU supports run on WebGL2 render targets via GPUEffectsEngine, the rest go
+ * through processFrame in the effect worker pool (or on this thread where workers are unavailable);
+ * everything falls back to processFrame when WebGL2 is unavailable or the GPU context fails.
  */
 const RetroEffects = memo(function RetroEffects({ 
   glCanvas, 
-  ditheringEnabled,
-  pixelationEnabled,
-  ditheringType,
-  ditheringIntensity,
-  ditheringResolution,
-  paletteType,
-  pixelSize,
+  effects,
+  background,
+  loopDuration,
+  exportWidth,
+  exportHeight,
 }: { 
   glCanvas: HTMLCanvasElement | null; 
-  ditheringEnabled: boolean;
-  pixelationEnabled: boolean;
-  ditheringType: string;
-  ditheringIntensity: number;
-  ditheringResolution: number;
-  paletteType: string;
-  pixelSize: number;
+  effects: EffectConfig[];
+  background: BackgroundSettings;
+  loopDuration: number;
+  exportWidth: number;
+  exportHeight: number;
 }) {
   const retroCanvasRef = useRef<HTMLCanvasElement>(null);
   const tempCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const rafRef = useRef<number>(0);
+  const engineRef = useRef<GPUEffectsEngine | null>(null);
+  const loopClock = useLoopClock();
+  const processorRef = useRef(new FrameProcessor());
+  const workerBusyRef = useRef(false);
+  // Once the output canvas has a WebGL2 context it can't get a 2D one - remount it (via key) for the CPU fallback
+  const [gpuAvailable, setGpuAvailable] = useState(true);
+  const active = useMemo(() => effects.some(effect => effect.enabled), [effects]);
+
+  // Set up the GPU engine on the output canvas
+  useEffect(() => {
+    const canvas = retroCanvasRef.current;
+    if (!active || !gpuAvailable || !canvas) return;
 
-  // Memoize palette to avoid lookups every frame
-  const palette = useMemo(() => palettes[paletteType as keyof typeof palettes]?.colors || [], [paletteType]);
-
-  const render = useCallback(() => {
-    if (!glCanvas || !retroCanvasRef.current) return;
-    if (!ditheringEnabled && !pixelationEnabled) return;
-
-    const retroCanvas = retroCanvasRef.current;
-    const w = glCanvas.width;
-    const h = glCanvas.height;
-
-    // Ensure retro canvas matches the GL canvas size
-    if (retroCanvas.width !== w || retroCanvas.height !== h) {
-      retroCanvas.width = w;
-      retroCanvas.height = h;
+    const engine = new GPUEffectsEngine();
+    if (!engine.initializeFromCanvas(canvas)) {
+      setGpuAvailable(false);
+      return;
     }
+    engineRef.current = engine;
+
+    return () => {
+      engine.dispose();
+      engineRef.current = null;
+    };
+  }, [active, gpuAvailable]);
 
-    // Temp 2D canvas to read WebGL pixels
+  // Temp 2D canvas to read WebGL pixels for CPU processing
+  const getTempContext = useCallback((w: number, h: number) => {
     if (!tempCanvasRef.current) {
       tempCanvasRef.current = document.createElement('canvas');
     }
@@ -180,211 +301,107 @@ const RetroEffects = memo(function RetroEffects({
       temp.width = w;
       temp.height = h;
     }
-
-    const tempCtx = temp.getContext('2d', { willReadFrequently: true });
-    const retroCtx = retroCanvas.getContext('2d', { willReadFrequently: true });
-    if (!tempCtx || !retroCtx) return;
-
-    try {
-      // Copy WebGL pixels to temp canvas
-      tempCtx.drawImage(glCanvas, 0, 0);
-      
-      // Draw temp canvas to retro canvas as base
-      retroCtx.drawImage(temp, 0, 0);
-
-      // Get image data to apply dithering/palette
-      if (ditheringEnabled || paletteType !== 'full') {
-        const imageData = retroCtx.getImageData(0, 0, w, h);
-
-        // Apply dithering or palette reduction
-        if (ditheringEnabled) {
-          if (ditheringType === 'bayer') {
-            applyBayerDithering(imageData.data, w, h, palette, ditheringIntensity, ditheringResolution);
-          } else if (ditheringType === 'floydSteinberg') {
-            applyFloydSteinbergDithering(imageData.data, w, h, palette, ditheringIntensity, ditheringResolution);
-          } else if (ditheringType === 'jjn') {
-            applyJJNDithering(imageData.data, w, h, palette, ditheringIntensity, ditheringResolution);
-          } else if (ditheringType === 'stucki') {
-            applyStuckiDithering(imageData.data, w, h, palette, ditheringIntensity, ditheringResolution);
-          } else if (ditheringType === 'sierra') {
-            applySierraDithering(imageData.data, w, h, palette, ditheringIntensity, ditheringResolution);
-          }
-        } else {
-          // Just reduce colors without dithering
-          reduceColorsTopalette(imageData.data, palette);
-        }
-
-        // Put modified image data back
-        retroCtx.putImageData(imageData, 0, 0);
-      }
-
-      // Apply pixelation on top
-      if (pixelationEnabled && pixelSize > 1) {
-        applyPixelation(retroCtx, retroCanvas, pixelSize);
-      }
-    } catch (_) {
-      // silently fail if canvas not ready
-    }
-
-    rafRef.current = requestAnimationFrame(render);
-  }, [glCanvas, ditheringEnabled, pixelationEnabled, ditheringType, ditheringIntensity, ditheringResolution, paletteType, pixelSize, palette]);
-
-  useEffect(() => {
-    if (!ditheringEnabled && !pixelationEnabled) {
-      cancelAnimationFrame(rafRef.current);
-      return;
-    }
-    rafRef.current = requestAnimationFrame(render);
-    return () => cancelAnimationFrame(rafRef.current);
-  }, [ditheringEnabled, pixelationEnabled, render]);
-
-  if (!ditheringEnabled && !pixelationEnabled) return null;
-
-  return (
-    <canvas
-      ref={retroCanvasRef}
-      className="absolute inset-0 w-full h-full"
-      style={{ zIndex: 10 }}
-    />
-  );
-});
-
-/**
- * ASCII Effect Component (Optimized)
- * completely replaces the 3D canvas with ASCII art.
- * Optimized with reduced re-renders via memo
- */
-const ASCIIEffect = memo(function ASCIIEffect({ 
-  glCanvas, 
-  asciiEnabled,
-  asciiCharset,
-  asciiResolution,
-  asciiInvert,
-  asciiContrast,
-  asciiGamma,
-  asciiColorMode,
-  asciiTextColor,
-  backgroundColor,
-  asciiFontSize,
-  asciiFontWeight,
-  asciiOpacity,
-  asciiBackgroundOpacity,
-  asciiBrightnessBoost,
-}: { 
-  glCanvas: HTMLCanvasElement | null; 
-  asciiEnabled: boolean;
-  asciiCharset: string;
-  asciiResolution: number;
-  asciiInvert: boolean;
-  asciiContrast: number;
-  asciiGamma: number;
-  asciiColorMode: boolean;
-  asciiTextColor: string;
-  backgroundColor: string;
-  asciiFontSize: number;
-  asciiFontWeight: 'bold' | 'normal';
-  asciiOpacity: number;
-  asciiBackgroundOpacity: number;
-  asciiBrightnessBoost: number;
-}) {
-  const asciiCanvasRef = useRef<HTMLCanvasElement>(null);
-  const tempCanvasRef = useRef<HTMLCanvasElement | null>(null);
-  const rafRef = useRef<number>(0);
+    return temp.getContext('2d', { willReadFrequently: true });
+  }, []);
+
+  const readFrame = useCallback((w: number, h: number) => {
+    const tempCtx = getTempContext(w, h);
+    if (!glCanvas || !tempCtx) return null;
+    tempCtx.drawImage(glCanvas, 0, 0);
+    return tempCtx.getImageData(0, 0, w, h);
+  }, [glCanvas, getTempContext]);
+
+  const drawToTemp = useCallback((source: CanvasImageSource, w: number, h: number) => {
+    const tempCtx = getTempContext(w, h);
+    if (!tempCtx) return null;
+    tempCtx.drawImage(source, 0, 0);
+    return tempCtx.canvas;
+  }, [getTempContext]);
 
   const render = useCallback(() => {
-    if (!glCanvas || !asciiCanvasRef.current || !asciiEnabled) return;
+    if (!glCanvas || !retroCanvasRef.current) return;
+    if (!active) return;
 
-    const asciiCanvas = asciiCanvasRef.current;
+    const retroCanvas = retroCanvasRef.current;
     const w = glCanvas.width;
     const h = glCanvas.height;
-
-    // Ensure ascii canvas matches the GL canvas size
-    if (asciiCanvas.width !== w || asciiCanvas.height !== h) {
-      asciiCanvas.width = w;
-      asciiCanvas.height = h;
-    }
-
-    // Temp 2D canvas to read WebGL pixels
-    if (!tempCanvasRef.current) {
-      tempCanvasRef.current = document.createElement('canvas');
-    }
-    const temp = tempCanvasRef.current;
-    if (temp.width !== w || temp.height !== h) {
-      temp.width = w;
-      temp.height = h;
-    }
-
-    const tempCtx = temp.getContext('2d', { willReadFrequently: true });
-    const asciiCtx = asciiCanvas.getContext('2d');
-    if (!tempCtx || !asciiCtx) return;
+    const engine = engineRef.current;
+
+    // Temporal dithering re-anchors whenever the loop wraps (or is scrubbed backwards)
+    const loopT = loopClock.loopT;
+    const frameSettings = { effects, loopDuration, exportWidth, exportHeight, ...background };
+    const tail = engine ? planGPUTail(effects, engine) : null;
+
+    // Draw a frame whose CPU effects are done: through the GPU tail, or straight onto the 2D canvas
+    const present = (frame: TexImageSource) => {
+      if (engine && tail) {
+        if (!engine.render(frame, w, h, getGPUTailOptions(tail, frameSettings, loopT, w, h))) setGpuAvailable(false);
+        return;
+      }
+      if (retroCanvas.width !== w || retroCanvas.height !== h) {
+        retroCanvas.width = w;
+        retroCanvas.height = h;
+      }
+      const retroCtx = retroCanvas.getContext('2d', { willReadFrequently: true });
+      if (!retroCtx) return;
+      if (frame instanceof ImageData) retroCtx.putImageData(frame, 0, 0);
+      else retroCtx.drawImage(frame as CanvasImageSource, 0, 0);
+    };
 
     try {
-      // Copy WebGL pixels to temp canvas
-      tempCtx.drawImage(glCanvas, 0, 0);
-      const imageData = tempCtx.getImageData(0, 0, w, h);
-
-      // Convert to ASCII cell grid
-      const frame = imageDataToASCIICells(imageData, w, h, {
-        charset: asciiCharset as any,
-        resolution: asciiResolution,
-        invert: asciiInvert,
-        contrast: asciiContrast,
-        gamma: asciiGamma,
-        colorMode: asciiColorMode,
-        textColor: asciiTextColor,
-        backgroundColor: backgroundColor,
-      });
-
-      // Render ASCII characters to the canvas
-      renderASCIIToCanvas(asciiCtx, frame, w, h, {
-        charset: asciiCharset as any,
-        resolution: asciiResolution,
-        colorMode: asciiColorMode,
-        textColor: asciiTextColor,
-        backgroundColor: backgroundColor,
-        fontSize: asciiFontSize,
-        fontWeight: asciiFontWeight,
-        textOpacity: asciiOpacity,
-        backgroundOpacity: asciiBackgroundOpacity,
-        brightnessBoost: asciiBrightnessBoost,
-      });
+      const pool = getEffectWorkerPool();
+
+      if (tail?.start === 0) {
+        // The GPU runs the whole stack
+        processorRef.current.advance(loopT);
+        present(glCanvas);
+      } else if (pool) {
+        // One frame in flight at a time - the output keeps the last result until the worker is done
+        if (!workerBusyRef.current) {
+          workerBusyRef.current = true;
+          createImageBitmap(glCanvas)
+            .then(bitmap => pool.processBitmap(0, bitmap, frameSettings, loopT, { count: tail?.start, stream: 'preview' }))
+            .then(bitmap => {
+              // Skip results that arrive after the output canvas or GPU engine was replaced
+              if (retroCanvasRef.current === retroCanvas && engineRef.current === engine) {
+                // WebGL ignores UNPACK_FLIP_Y for ImageBitmaps - go through the 2D temp canvas like a read frame
+                present(engine ? drawToTemp(bitmap, w, h) ?? bitmap : bitmap);
+              }
+              bitmap.close();
+            })
+            .catch((e) => console.warn('Effect worker frame failed:', e))
+            .finally(() => {
+              workerBusyRef.current = false;
+            });
+        }
+      } else {
+        const imageData = readFrame(w, h);
+        if (!imageData) return;
+        processorRef.current.process(imageData, frameSettings, loopT, tail?.start);
+        present(imageData);
+      }
     } catch (_) {
       // silently fail if canvas not ready
     }
 
     rafRef.current = requestAnimationFrame(render);
-  }, [
-    glCanvas,
-    asciiEnabled,
-    asciiCharset,
-    asciiResolution,
-    asciiInvert,
-    asciiContrast,
-    asciiGamma,
-    asciiColorMode,
-    asciiTextColor,
-    backgroundColor,
-    asciiFontSize,
-    asciiFontWeight,
-    asciiOpacity,
-    asciiBackgroundOpacity,
-    asciiBrightnessBoost,
-  ]);
+  }, [glCanvas, active, effects, background, loopDuration, exportWidth, exportHeight, readFrame, drawToTemp, loopClock]);
 
   useEffect(() => {
-    if (!asciiEnabled) {
+    if (!active) {
       cancelAnimationFrame(rafRef.current);
       return;
     }
     rafRef.current = requestAnimationFrame(render);
     return () => cancelAnimationFrame(rafRef.current);
-  }, [asciiEnabled, render]);
+  }, [active, render]);
 
-  if (!asciiEnabled) return null;
+  if (!active) return null;
 
   return (
     <canvas
-      ref={asciiCanvasRef}
+      key={gpuAvailable ? 'gpu' : 'cpu'}
+      ref={retroCanvasRef}
       className="absolute inset-0 w-full h-full"
       style={{ zIndex: 10 }}
     />
@@ -462,14 +479,48 @@ const ResolutionBorders = memo(function ResolutionBorders({
   );
 });
 
-export const Scene = forwardRef<SceneHandle, SceneProps>(function Scene({ settings, showBorders, showOverlays, isPaused = false }, ref) {
+export const Scene = forwardRef<SceneHandle, SceneProps>(function Scene({ settings, showBorders, showOverlays }, ref) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const stepperRef = useRef<FrameStepperHandle>(null);
+  // Mirrors the stepper's frameloop so re-renders during export don't restart the loop
+  const [isFrameStepping, setIsFrameStepping] = useState(false);
 
   useImperativeHandle(ref, () => ({
     getCanvas: () => canvasRef.current,
+    beginFrameStepping: () => {
+      stepperRef.current?.begin();
+      setIsFrameStepping(true);
+    },
+    renderFrameAt: (time: number) => {
+      stepperRef.current?.renderAt(time);
+    },
+    renderFrameAtLoopT: (loopT: number) => {
+      stepperRef.current?.renderAtLoopT(loopT);
+    },
+    endFrameStepping: () => {
+      stepperRef.current?.end();
+      setIsFrameStepping(false);
+    },
   }));
 
+  // Background fields only, so the memoized effects layer doesn't re-render on every settings change
+  const background = useMemo(
+    () => pickBackgroundSettings(settings),
+    [
+      settings.backgroundColor,
+      settings.backgroundGradient,
+      settings.backgroundGradientColor,
+      settings.backgroundGradientType,
+      settings.backgroundGradientAngle,
+      settings.backgroundPattern,
+      settings.backgroundPatternColor,
+      settings.backgroundPatternScale,
+      settings.backgroundPatternOpacity,
+      settings.backgroundSpeed,
+    ]
+  );
+
   // Memoize canvas GL options to avoid recreating every render
   const glConfig = useMemo(() => ({
     preserveDrawingBuffer: true,
@@ -491,25 +542,27 @@ export const Scene = forwardRef<SceneHandle, SceneProps>(function Scene({ settin
         camera={cameraConfig}
         gl={glConfig}
         dpr={[1, 2]}
+        frameloop={isFrameStepping ? 'never' : 'always'}
         style={{ background: settings.backgroundColor }}
       >
-        <BackgroundPlane backgroundColor={settings.backgroundColor} />
+        <LoopClockDriver />
+        <FrameStepper ref={stepperRef} />
+        <BackgroundPlane background={background} exportWidth={settings.exportWidth} exportHeight={settings.exportHeight} />
         <CameraController 
           cameraPreset={settings.cameraPreset}
           cameraDistance={settings.cameraDistance}
           cameraAutoRotate={settings.cameraAutoRotate}
           cameraAutoRotateSpeed={settings.cameraAutoRotateSpeed}
-          loopDuration={settings.loopDuration}
-          isPaused={isPaused}
         />
         <SceneLights 
           shapeColor={settings.shapeColor}
           shapeColor2={settings.shapeColor2}
         />
-        <AnimatedShapes settings={settings} isPaused={isPaused} />
+        <AnimatedShapes settings={settings} />
         {settings.reflectionsEnabled && (
           <Environment preset="city" environmentIntensity={0.2} />
         )}
+        {settings.postProcessing && <ScenePostProcessing settings={settings} />}
         {!settings.cameraAutoRotate && (
           <OrbitControls
             enablePan={false}
@@ -521,30 +574,11 @@ export const Scene = forwardRef<SceneHandle, SceneProps>(function Scene({ settin
       </Canvas>
       <RetroEffects 
         glCanvas={canvasRef.current} 
-        ditheringEnabled={settings.ditheringEnabled}
-        pixelationEnabled={settings.pixelationEnabled}
-        ditheringType={settings.ditheringType}
-        ditheringIntensity={settings.ditheringIntensity}
-        ditheringResolution={settings.ditheringResolution}
-        paletteType={settings.paletteType}
-        pixelSize={settings.pixelSize}
-      />
-      <ASCIIEffect 
-        glCanvas={canvasRef.current}
-        asciiEnabled={settings.asciiEnabled}
-        asciiCharset={settings.asciiCharset}
-        asciiResolution={settings.asciiResolution}
-        asciiInvert={settings.asciiInvert}
-        asciiContrast={settings.asciiContrast}
-        asciiGamma={settings.asciiGamma}
-        asciiColorMode={settings.asciiColorMode}
-        asciiTextColor={settings.asciiTextColor}
-        backgroundColor={settings.backgroundColor}
-        asciiFontSize={settings.asciiFontSize}
-        asciiFontWeight={settings.asciiFontWeight}
-        asciiOpacity={settings.asciiOpacity}
-        asciiBackgroundOpacity={settings.asciiBackgroundOpacity}
-        asciiBrightnessBoost={settings.asciiBrightnessBoost}
+        effects={settings.effects}
+        background={background}
+        loopDuration={settings.loopDuration}
+        exportWidth={settings.exportWidth}
+        exportHeight={settings.exportHeight}
       />
       {showBorders && showOverlays && (
         <ResolutionBorders 
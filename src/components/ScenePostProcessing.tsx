@@ -0,0 +1,112 @@
+import { useEffect, useMemo } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { AnimationSettings } from '../types';
+import { useLoopClock } from '../hooks/useLoopClock';
+import { getCyclesPerLoop } from '../utils/paletteCycling';
+
+// Grain changes pattern at roughly this rate, snapped to a whole number of patterns per loop
+const GRAIN_RATE = 24;
+
+// Chromatic aberration, vignette and grain in one pass, on the already tone-mapped sRGB image
+const FinishShader = {
+  uniforms: {
+    tDiffuse: { value: null },
+    uAberration: { value: 0 },
+    uVignette: { value: 0 },
+    uGrain: { value: 0 },
+    uSeed: { value: 0 },
+  },
+  vertexShader: /* glsl */ `
+    varying vec2 vUv;
+    void main() {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }`,
+  fragmentShader: /* glsl */ `
+    uniform sampler2D tDiffuse;
+    uniform float uAberration;
+    uniform float uVignette;
+    uniform float uGrain;
+    uniform float uSeed;
+    varying vec2 vUv;
+
+    float hash(vec2 p) {
+      return fract(sin(dot(p + uSeed * 7.31, vec2(12.9898, 78.233))) * 43758.5453);
+    }
+
+    void main() {
+      // Red and blue split outward from the center, growing towards the edges
+      vec2 offset = (vUv - 0.5) * uAberration;
+      vec4 color = texture2D(tDiffuse, vUv);
+      color.r = texture2D(tDiffuse, vUv + offset).r;
+      color.b = texture2D(tDiffuse, vUv - offset).b;
+
+      float distance = length(vUv - 0.5) * 1.41421356;
+      color.rgb *= 1.0 - uVignette * smoothstep(0.3, 1.0, distance);
+
+      color.rgb += (hash(floor(gl_FragCoord.xy)) - 0.5) * uGrain * 0.25;
+      gl_FragColor = color;
+    }`,
+};
+
+type PostProcessingSettings = Pick<
+  AnimationSettings,
+  'bloomStrength' | 'bloomThreshold' | 'bloomRadius' | 'chromaticAberration' | 'vignette' | 'filmGrain' | 'loopDuration'
+>;
+
+/**
+ * Scene Post-Processing
+ * Renders the scene through an EffectComposer (bloom → tone mapping / sRGB output → lens finish)
+ * instead of R3F's default render. The composer renders from useFrame, so frame-stepped exports
+ * get exactly the same passes as the preview. Grain is keyed to the loop position, so it repeats with the loop.
+ */
+export function ScenePostProcessing({ settings }: { settings: PostProcessingSettings }) {
+  const gl = useThree((state) => state.gl);
+  const scene = useThree((state) => state.scene);
+  const camera = useThree((state) => state.camera);
+  const size = useThree((state) => state.size);
+  const loopClock = useLoopClock();
+
+  const { composer, bloomPass, finishPass } = useMemo(() => {
+    const composer = new EffectComposer(gl);
+    const bloomPass = new UnrealBloomPass(new THREE.Vector2(256, 256), 0, 0, 0);
+    const finishPass = new ShaderPass(FinishShader);
+    composer.addPass(new RenderPass(scene, camera));
+    composer.addPass(bloomPass);
+    composer.addPass(new OutputPass());
+    composer.addPass(finishPass);
+    return { composer, bloomPass, finishPass };
+  }, [gl, scene, camera]);
+
+  useEffect(() => () => composer.dispose(), [composer]);
+
+  useEffect(() => {
+    composer.setPixelRatio(gl.getPixelRatio());
+    composer.setSize(size.width, size.height);
+  }, [composer, gl, size]);
+
+  useEffect(() => {
+    bloomPass.enabled = settings.bloomStrength > 0;
+    bloomPass.strength = settings.bloomStrength;
+    bloomPass.threshold = settings.bloomThreshold;
+    bloomPass.radius = settings.bloomRadius;
+    finishPass.uniforms.uAberration.value = settings.chromaticAberration;
+    finishPass.uniforms.uVignette.value = settings.vignette;
+    finishPass.uniforms.uGrain.value = settings.filmGrain;
+  }, [bloomPass, finishPass, settings.bloomStrength, settings.bloomThreshold, settings.bloomRadius, settings.chromaticAberration, settings.vignette, settings.filmGrain]);
+
+  // Positive priority takes over rendering from R3F - runs after every scene update
+  useFrame(() => {
+    const grainFrames = getCyclesPerLoop(1 / GRAIN_RATE, settings.loopDuration);
+    finishPass.uniforms.uSeed.value = Math.floor(loopClock.loopT * grainFrames) % grainFrames;
+    composer.render();
+  }, 1);
+
+  return null;
+}
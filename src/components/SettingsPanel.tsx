@@ -1,7 +1,18 @@
-import { AnimationSettings, GeometryType, AnimationType, TextFont } from '../types';
+import { AnimationSettings, GeometryType, AnimationType, TextFont, BackgroundGradientType, BackgroundPattern, GradientMode, EffectConfig, DitherEffectParams, HardwareEffectParams, PixelateEffectParams, CrtEffectParams, AsciiEffectParams } from '../types';
 import { Preset } from '../types';
 import { presets } from '../presets';
-import { paletteList } from '../utils/palettes';
+import { paletteList, PaletteId } from '../utils/palettes';
+import { PaletteEditor } from './PaletteEditor';
+import { useCustomPalettes } from '../hooks/useCustomPalettes';
+import { isDiffusionDithering } from '../utils/dithering';
+import { hardwareConstraintList } from '../utils/hardwareConstraints';
+import { snapCyclePeriod } from '../utils/paletteCycling';
+import { pixelSamplingList, samplingBlendsColors } from '../utils/pixelation';
+import { backgroundGradientTypeList, backgroundPatternList } from '../utils/background';
+import { gradientModeList } from '../utils/gradientMaterial';
+import { createEffect, duplicateEffect, effectTypeList, getEffectLabel, getStackOutputPalette } from '../utils/effectStack';
+import { PaletteCycleEditor } from './PaletteCycleEditor';
+import type { GifExportSummary } from '../hooks/useVideoExport';
 import {
   Palette,
   Box,
@@ -12,7 +23,13 @@ import {
   ChevronRight,
   RotateCcw,
   Sparkles,
-  Code2,
+  Sun,
+  Layers,
+  ArrowUp,
+  ArrowDown,
+  Copy,
+  Plus,
+  X,
   Eye,
   EyeOff,
 } from 'lucide-react';
@@ -22,8 +39,10 @@ interface SettingsPanelProps {
   settings: AnimationSettings;
   onSettingsChange: (settings: AnimationSettings) => void;
   onExport: () => void;
+  onVerifyLoop: () => void;
   isExporting: boolean;
   exportProgress: number;
+  gifSummary: GifExportSummary | null;
   onApplyPreset: (preset: Preset) => void;
   onReset: () => void;
   showBorders: boolean;
@@ -243,12 +262,410 @@ function TextInputControl({ label, value, onChange, maxLength = 20 }: {
   );
 }
 
+const ditherTypeOptions: { value: DitherEffectParams['ditheringType']; label: string }[] = [
+  { value: 'none', label: 'None (Palette Only)' },
+  { value: 'bayer2', label: 'Bayer 2×2 (Ordered)' },
+  { value: 'bayer4', label: 'Bayer 4×4 (Ordered)' },
+  { value: 'bayer', label: 'Bayer 8×8 (Ordered)' },
+  { value: 'bayer16', label: 'Bayer 16×16 (Ordered)' },
+  { value: 'blueNoise', label: 'Blue Noise (Ordered)' },
+  { value: 'floydSteinberg', label: 'Floyd-Steinberg (Diffusion)' },
+  { value: 'jjn', label: 'Jarvis-Judson-Ninke (High Quality)' },
+  { value: 'stucki', label: 'Stucki (Smooth)' },
+  { value: 'sierra', label: 'Sierra (Balanced)' },
+  { value: 'twoRowSierra', label: 'Two-Row Sierra' },
+  { value: 'sierraLite', label: 'Sierra Lite (Fast)' },
+  { value: 'atkinson', label: 'Atkinson (Classic Mac)' },
+  { value: 'burkes', label: 'Burkes' },
+];
+
+const colorDistanceOptions: { value: DitherEffectParams['colorDistance']; label: string }[] = [
+  { value: 'rgb', label: 'RGB (Fastest)' },
+  { value: 'redmean', label: 'Weighted RGB (Redmean)' },
+  { value: 'oklab', label: 'OKLab (Perceptual)' },
+  { value: 'ciede2000', label: 'CIELAB ΔE2000 (Most Accurate)' },
+];
+
+const pixelAspectOptions: { value: string; label: string }[] = [
+  { value: '1', label: '1:1 (Square)' },
+  { value: '2', label: '2:1 (C64 Multicolor)' },
+  { value: '1.5', label: '3:2 (Wide)' },
+  { value: '0.5', label: '1:2 (Tall)' },
+];
+
+const crtMaskOptions: { value: CrtEffectParams['mask']; label: string }[] = [
+  { value: 'apertureGrille', label: 'Aperture Grille (Trinitron)' },
+  { value: 'shadowMask', label: 'Shadow Mask' },
+  { value: 'none', label: 'None' },
+];
+
+const asciiCharsetOptions: { value: AsciiEffectParams['charset']; label: string }[] = [
+  { value: 'standard', label: 'Standard (.:-=+*#%@)' },
+  { value: 'dense', label: 'Dense (░▒▓█)' },
+  { value: 'blocks', label: 'Blocks (▁▂▃▄▅▆▇█)' },
+  { value: 'braille', label: 'Braille (⠁⠃⠇⠏⠟⠿⡿⣿)' },
+  { value: 'minimal', label: 'Minimal (.*#)' },
+];
+
+function EffectParamsEditor({ effect, inputPalette, loopDuration, onChange }: {
+  effect: EffectConfig;
+  inputPalette: [number, number, number][] | null; // palette the frame is restricted to when it reaches this effect
+  loopDuration: number;
+  onChange: (params: Partial<EffectConfig['params']>) => void;
+}) {
+  const customPalettes = useCustomPalettes();
+
+  switch (effect.type) {
+    case 'dither': {
+      const params = effect.params;
+      return (
+        <>
+          <SelectControl
+            label="Dither Type"
+            value={params.ditheringType}
+            options={ditherTypeOptions}
+            onChange={(v) => onChange({ ditheringType: v as DitherEffectParams['ditheringType'] })}
+          />
+          {isDiffusionDithering(params.ditheringType) && (
+            <ToggleControl label="Serpentine Scan" value={params.serpentine} onChange={(v) => onChange({ serpentine: v })} />
+          )}
+          {params.ditheringType !== 'none' && (
+            <>
+              <ToggleControl label="Temporal Stability" value={params.temporalStability} onChange={(v) => onChange({ temporalStability: v })} />
+              <SliderControl label="Dither Intensity" value={params.intensity} min={0} max={1} step={0.1} onChange={(v) => onChange({ intensity: v })} />
+              <SliderControl
+                label="Dither Resolution"
+                value={params.resolution}
+                min={0.05}
+                max={1}
+                step={0.05}
+                onChange={(v) => onChange({ resolution: v })}
+                suffix=" (lower = faster)"
+              />
+            </>
+          )}
+          <SelectControl
+            label="Palette"
+            value={params.paletteType}
+            options={[...paletteList, ...customPalettes.map(p => ({ value: p.id, label: `★ ${p.name}` }))]}
+            onChange={(v) => onChange({ paletteType: v as PaletteId })}
+          />
+          <PaletteEditor paletteId={params.paletteType} onSelectPalette={(id) => onChange({ paletteType: id })} />
+          <SelectControl
+            label="Color Matching"
+            value={params.colorDistance}
+            options={colorDistanceOptions}
+            onChange={(v) => onChange({ colorDistance: v as DitherEffectParams['colorDistance'] })}
+          />
+        </>
+      );
+    }
+    case 'hardware':
+      return (
+        <>
+          <SelectControl
+            label="Hardware"
+            value={effect.params.mode}
+            options={hardwareConstraintList}
+            onChange={(v) => onChange({ mode: v as HardwareEffectParams['mode'] })}
+          />
+          <p className="text-[10px] text-white/30 -mt-2">
+            Uses the hardware's own palette. Attribute cells are counted in the nearest Pixelate effect's blocks.
+          </p>
+          <SelectControl
+            label="Color Matching"
+            value={effect.params.colorDistance}
+            options={colorDistanceOptions}
+            onChange={(v) => onChange({ colorDistance: v as HardwareEffectParams['colorDistance'] })}
+          />
+        </>
+      );
+    case 'paletteCycle':
+      if (!inputPalette) {
+        return (
+          <p className="text-[10px] text-white/30">
+            Needs a Dither / Palette or Hardware Constraint effect above it to cycle.
+          </p>
+        );
+      }
+      return (
+        <>
+          <SliderControl
+            label="Cycle Period"
+            value={effect.params.period}
+            min={0.1}
+            max={loopDuration}
+            step={0.1}
+            onChange={(v) => onChange({ period: v })}
+            suffix={`s → ${snapCyclePeriod(effect.params.period, loopDuration).toFixed(2)}s`}
+          />
+          <PaletteCycleEditor
+            ranges={effect.params.ranges}
+            palette={inputPalette}
+            onChange={(ranges) => onChange({ ranges })}
+          />
+        </>
+      );
+    case 'pixelate':
+      return (
+        <>
+          <SliderControl
+            label={effect.params.snapToExport ? 'Pixel Size (export)' : 'Pixel Size'}
+            value={effect.params.pixelSize}
+            min={1}
+            max={32}
+            step={1}
+            onChange={(v) => onChange({ pixelSize: v })}
+            suffix="px"
+          />
+          <SelectControl
+            label="Pixel Aspect"
+            value={String(effect.params.aspect)}
+            options={pixelAspectOptions}
+            onChange={(v) => onChange({ aspect: Number(v) })}
+          />
+          <SelectControl
+            label="Sampling"
+            value={effect.params.sampling}
+            options={pixelSamplingList}
+            onChange={(v) => onChange({ sampling: v as PixelateEffectParams['sampling'] })}
+          />
+          {samplingBlendsColors(effect.params.sampling) && inputPalette && (
+            <p className="text-[10px] text-white/30 -mt-2">
+              Blends colors, so the frame leaves the palette above. Use Corner, Median or Dominant to keep it.
+            </p>
+          )}
+          <ToggleControl
+            label="Snap Grid to Export Resolution"
+            value={effect.params.snapToExport}
+            onChange={(v) => onChange({ snapToExport: v })}
+          />
+        </>
+      );
+    case 'cleanup': {
+      const params = effect.params;
+      return (
+        <>
+          <p className="text-[10px] text-white/30">
+            Works on the blocks of the Pixelate effect above it. Shapes are detected against the background color.
+          </p>
+          <ToggleControl label="Remove Orphan Pixels" value={params.removeOrphans} onChange={(v) => onChange({ removeOrphans: v })} />
+          <ToggleControl label="Outline" value={params.outline} onChange={(v) => onChange({ outline: v })} />
+          {params.outline && (
+            <>
+              <ColorControl label="Outline Color" value={params.outlineColor} onChange={(v) => onChange({ outlineColor: v })} />
+              <SliderControl
+                label="Outline Thickness"
+                value={params.outlineThickness}
+                min={1}
+                max={4}
+                step={1}
+                onChange={(v) => onChange({ outlineThickness: v })}
+                suffix=" px"
+              />
+            </>
+          )}
+          <SliderControl label="Inner Highlight" value={params.innerHighlight} min={0} max={1} step={0.05} onChange={(v) => onChange({ innerHighlight: v })} />
+          <SliderControl
+            label="Background Tolerance"
+            value={params.backgroundTolerance}
+            min={0}
+            max={0.5}
+            step={0.01}
+            onChange={(v) => onChange({ backgroundTolerance: v })}
+          />
+        </>
+      );
+    }
+    case 'crt': {
+      const params = effect.params;
+      return (
+        <>
+          <SliderControl label="Scanlines" value={params.scanlines} min={0} max={1} step={0.05} onChange={(v) => onChange({ scanlines: v })} />
+          <SliderControl
+            label="Scanline Spacing"
+            value={params.scanlineSpacing}
+            min={2}
+            max={8}
+            step={1}
+            onChange={(v) => onChange({ scanlineSpacing: v })}
+            suffix="px"
+          />
+          <SelectControl
+            label="Mask"
+            value={params.mask}
+            options={crtMaskOptions}
+            onChange={(v) => onChange({ mask: v as CrtEffectParams['mask'] })}
+          />
+          {params.mask !== 'none' && (
+            <SliderControl label="Mask Strength" value={params.maskStrength} min={0} max={1} step={0.05} onChange={(v) => onChange({ maskStrength: v })} />
+          )}
+          <SliderControl label="Curvature" value={params.curvature} min={0} max={0.5} step={0.01} onChange={(v) => onChange({ curvature: v })} />
+          <SliderControl label="Vignette" value={params.vignette} min={0} max={1} step={0.05} onChange={(v) => onChange({ vignette: v })} />
+          <SliderControl label="Bloom" value={params.bloom} min={0} max={1} step={0.05} onChange={(v) => onChange({ bloom: v })} />
+          <SliderControl
+            label="Phosphor Persistence"
+            value={params.persistence}
+            min={0}
+            max={500}
+            step={10}
+            onChange={(v) => onChange({ persistence: v })}
+            suffix="ms"
+          />
+          <SliderControl label="Noise" value={params.noise} min={0} max={1} step={0.05} onChange={(v) => onChange({ noise: v })} />
+          <SliderControl label="Flicker" value={params.flicker} min={0} max={1} step={0.05} onChange={(v) => onChange({ flicker: v })} />
+          {params.flicker > 0 && (
+            <SliderControl
+              label="Flicker Rate"
+              value={params.flickerRate}
+              min={1}
+              max={30}
+              step={1}
+              onChange={(v) => onChange({ flickerRate: v })}
+              suffix={`Hz → ${(1 / snapCyclePeriod(1 / params.flickerRate, loopDuration)).toFixed(1)}Hz`}
+            />
+          )}
+        </>
+      );
+    }
+    case 'ascii': {
+      const params = effect.params;
+      return (
+        <>
+          <SelectControl
+            label="Charset"
+            value={params.charset}
+            options={asciiCharsetOptions}
+            onChange={(v) => onChange({ charset: v as AsciiEffectParams['charset'] })}
+          />
+          <SliderControl label="Resolution" value={params.resolution} min={20} max={200} step={5} onChange={(v) => onChange({ resolution: v })} suffix=" chars" />
+          <SliderControl label="Font Size" value={params.fontSize} min={4} max={100} step={1} onChange={(v) => onChange({ fontSize: v })} suffix="px" />
+          <SelectControl
+            label="Font Weight"
+            value={params.fontWeight}
+            options={[
+              { value: 'normal', label: 'Normal' },
+              { value: 'bold', label: 'Bold' },
+            ]}
+            onChange={(v) => onChange({ fontWeight: v as 'normal' | 'bold' })}
+          />
+          <SliderControl label="Text Opacity" value={params.opacity} min={0} max={1} step={0.1} onChange={(v) => onChange({ opacity: v })} />
+          <SliderControl label="Background Opacity" value={params.backgroundOpacity} min={0} max={1} step={0.1} onChange={(v) => onChange({ backgroundOpacity: v })} />
+          <SliderControl label="Brightness Boost" value={params.brightnessBoost} min={0.1} max={3} step={0.1} onChange={(v) => onChange({ brightnessBoost: v })} suffix="x" />
+          <ToggleControl label="Color Mode" value={params.colorMode} onChange={(v) => onChange({ colorMode: v })} />
+          {!params.colorMode && (
+            <ColorControl label="Text Color" value={params.textColor} onChange={(v) => onChange({ textColor: v })} />
+          )}
+          <SliderControl label="Contrast" value={params.contrast} min={0.5} max={3} step={0.1} onChange={(v) => onChange({ contrast: v })} />
+          <SliderControl label="Gamma" value={params.gamma} min={0.5} max={2} step={0.1} onChange={(v) => onChange({ gamma: v })} />
+          <ToggleControl label="Invert" value={params.invert} onChange={(v) => onChange({ invert: v })} />
+        </>
+      );
+    }
+  }
+}
+
+/**
+ * Ordered list of post-processing effects - each card runs on the output of the one above it
+ */
+function EffectStackEditor({ effects, loopDuration, onChange }: {
+  effects: EffectConfig[];
+  loopDuration: number;
+  onChange: (effects: EffectConfig[]) => void;
+}) {
+  const replaceEffect = (index: number, effect: EffectConfig) => {
+    onChange(effects.map((e, i) => (i === index ? effect : e)));
+  };
+
+  const moveEffect = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= effects.length) return;
+    const reordered = effects.slice();
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const iconButtonClass = 'p-1 rounded text-white/40 hover:text-white hover:bg-white/5 disabled:opacity-30 disabled:hover:bg-transparent transition-colors';
+
+  return (
+    <div className="space-y-2">
+      {effects.length === 0 && (
+        <p className="text-[11px] text-white/30">No effects - the scene renders as-is.</p>
+      )}
+      {effects.map((effect, index) => (
+        <div
+          key={effect.id}
+          className={`rounded-lg border border-white/10 bg-white/[0.02] ${effect.enabled ? '' : 'opacity-60'}`}
+        >
+          <div className="flex items-center gap-1 px-2.5 py-2">
+            <button
+              onClick={() => replaceEffect(index, { ...effect, enabled: !effect.enabled })}
+              className={`relative w-7 h-4 rounded-full transition-colors shrink-0 ${effect.enabled ? 'bg-violet-500' : 'bg-white/10'}`}
+              title={effect.enabled ? 'Disable' : 'Enable'}
+            >
+              <div className={`absolute top-0.5 w-3 h-3 rounded-full bg-white shadow transition-transform ${effect.enabled ? 'translate-x-3.5' : 'translate-x-0.5'}`} />
+            </button>
+            <span className="flex-1 ml-1 text-xs font-medium text-white/80 truncate">
+              {index + 1}. {getEffectLabel(effect.type)}
+            </span>
+            <button onClick={() => moveEffect(index, -1)} disabled={index === 0} className={iconButtonClass} title="Move up">
+              <ArrowUp size={12} />
+            </button>
+            <button onClick={() => moveEffect(index, 1)} disabled={index === effects.length - 1} className={iconButtonClass} title="Move down">
+              <ArrowDown size={12} />
+            </button>
+            <button
+              onClick={() => onChange([...effects.slice(0, index + 1), duplicateEffect(effect), ...effects.slice(index + 1)])}
+              className={iconButtonClass}
+              title="Duplicate"
+            >
+              <Copy size={12} />
+            </button>
+            <button onClick={() => onChange(effects.filter((_, i) => i !== index))} className={iconButtonClass} title="Remove">
+              <X size={12} />
+            </button>
+          </div>
+          {effect.enabled && (
+            <div className="px-2.5 pb-2.5 space-y-3">
+              <EffectParamsEditor
+                effect={effect}
+                inputPalette={getStackOutputPalette(effects.slice(0, index))}
+                loopDuration={loopDuration}
+                onChange={(params) => replaceEffect(index, { ...effect, params: { ...effect.params, ...params } } as EffectConfig)}
+              />
+            </div>
+          )}
+        </div>
+      ))}
+      <div className="grid grid-cols-2 gap-1.5 pt-1">
+        {effectTypeList.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => onChange([...effects, createEffect(value)])}
+            className="flex items-center justify-center gap-1 py-1.5 rounded-lg text-[11px] bg-white/5 text-white/70 hover:bg-white/10 hover:text-white border border-white/10 transition-colors"
+          >
+            <Plus size={12} /> {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
+
 export function SettingsPanel({
   settings,
   onSettingsChange,
   onExport,
+  onVerifyLoop,
   isExporting,
   exportProgress,
+  gifSummary,
   onApplyPreset,
   onReset,
   showBorders,
@@ -355,7 +772,52 @@ export function SettingsPanel({
         <Section title="Colors" icon={Palette}>
           <ColorControl label="Primary Color" value={settings.shapeColor} onChange={(v) => update({ shapeColor: v })} />
           <ColorControl label="Secondary Color" value={settings.shapeColor2} onChange={(v) => update({ shapeColor2: v })} />
+          <ToggleControl label="Gradient Across Shapes" value={settings.useGradientMaterial} onChange={(v) => update({ useGradientMaterial: v })} />
+          {settings.useGradientMaterial && (
+            <>
+              <SelectControl
+                label="Gradient Mode"
+                value={settings.gradientMode}
+                options={gradientModeList}
+                onChange={(v) => update({ gradientMode: v as GradientMode })}
+              />
+              {settings.gradientMode === 'sweep' && (
+                <SliderControl label="Sweep Speed" value={settings.gradientSweepSpeed} min={1} max={8} step={1} onChange={(v) => update({ gradientSweepSpeed: v })} suffix="× per loop" />
+              )}
+            </>
+          )}
           <ColorControl label="Background" value={settings.backgroundColor} onChange={(v) => update({ backgroundColor: v })} />
+          <ToggleControl label="Background Gradient" value={settings.backgroundGradient} onChange={(v) => update({ backgroundGradient: v })} />
+          {settings.backgroundGradient && (
+            <>
+              <ColorControl label="Gradient Color" value={settings.backgroundGradientColor} onChange={(v) => update({ backgroundGradientColor: v })} />
+              <SelectControl
+                label="Gradient Type"
+                value={settings.backgroundGradientType}
+                options={backgroundGradientTypeList}
+                onChange={(v) => update({ backgroundGradientType: v as BackgroundGradientType })}
+              />
+              {settings.backgroundGradientType !== 'radial' && (
+                <SliderControl label="Gradient Angle" value={settings.backgroundGradientAngle} min={0} max={360} step={5} onChange={(v) => update({ backgroundGradientAngle: v })} suffix="°" />
+              )}
+            </>
+          )}
+          <SelectControl
+            label="Background Pattern"
+            value={settings.backgroundPattern}
+            options={backgroundPatternList}
+            onChange={(v) => update({ backgroundPattern: v as BackgroundPattern })}
+          />
+          {settings.backgroundPattern !== 'none' && (
+            <>
+              <ColorControl label="Pattern Color" value={settings.backgroundPatternColor} onChange={(v) => update({ backgroundPatternColor: v })} />
+              <SliderControl label="Pattern Scale" value={settings.backgroundPatternScale} min={2} max={64} step={1} onChange={(v) => update({ backgroundPatternScale: v })} suffix=" cells" />
+              <SliderControl label="Pattern Opacity" value={settings.backgroundPatternOpacity} min={0} max={1} step={0.05} onChange={(v) => update({ backgroundPatternOpacity: v })} />
+            </>
+          )}
+          {(settings.backgroundGradient || settings.backgroundPattern !== 'none') && (
+            <SliderControl label="Background Motion" value={settings.backgroundSpeed} min={0} max={8} step={1} onChange={(v) => update({ backgroundSpeed: v })} suffix={settings.backgroundSpeed === 0 ? ' (still)' : '× per loop'} />
+          )}
         </Section>
 
         {/* Animation */}
@@ -386,6 +848,21 @@ export function SettingsPanel({
             ]}
             onChange={(v) => update({ rotationAxis: v as 'x' | 'y' | 'z' | 'all' })}
           />
+          <SliderControl label="Trail Length" value={settings.trailLength} min={0} max={16} step={1} onChange={(v) => update({ trailLength: v })} suffix={settings.trailLength === 0 ? ' (off)' : ' ghosts'} />
+          {settings.trailLength > 0 && (
+            <>
+              <SliderControl label="Trail Spacing" value={settings.trailSpacing} min={0.01} max={0.5} step={0.01} onChange={(v) => update({ trailSpacing: v })} suffix="s" />
+              <SelectControl
+                label="Trail Fade"
+                value={settings.trailFade}
+                options={[
+                  { value: 'opacity', label: 'Fade Out (Onion Skin)' },
+                  { value: 'color', label: 'Fade to Background (Bob Trail)' },
+                ]}
+                onChange={(v) => update({ trailFade: v as 'opacity' | 'color' })}
+              />
+            </>
+          )}
         </Section>
 
         {/* Camera */}
@@ -409,115 +886,39 @@ export function SettingsPanel({
           )}
         </Section>
 
-        {/* Render Modes */}
-        <Section title="Render Modes" icon={Code2} defaultOpen={false}>
-          <ToggleControl label="ASCII Effect" value={settings.asciiEnabled} onChange={(v) => update({ asciiEnabled: v })} />
-          {settings.asciiEnabled && (
+        {/* Scene Post-Processing */}
+        <Section title="Scene Post-Processing" icon={Sun} defaultOpen={false}>
+          <ToggleControl label="Enable" value={settings.postProcessing} onChange={(v) => update({ postProcessing: v })} />
+          {settings.postProcessing && (
             <>
-              <SelectControl
-                label="Charset"
-                value={settings.asciiCharset}
-                options={[
-                  { value: 'standard', label: 'Standard (.:-=+*#%@)' },
-                  { value: 'dense', label: 'Dense (░▒▓█)' },
-                  { value: 'blocks', label: 'Blocks (▁▂▃▄▅▆▇█)' },
-                  { value: 'braille', label: 'Braille (⠁⠃⠇⠏⠟⠿⡿⣿)' },
-                  { value: 'minimal', label: 'Minimal (.*#)' },
-                ]}
-                onChange={(v) => update({ asciiCharset: v as 'standard' | 'dense' | 'minimal' | 'blocks' | 'braille' })}
-              />
-              <SliderControl label="Resolution" value={settings.asciiResolution} min={20} max={200} step={5} onChange={(v) => update({ asciiResolution: v })} suffix=" chars" />
-              <SliderControl label="Font Size" value={settings.asciiFontSize} min={4} max={100} step={1} onChange={(v) => update({ asciiFontSize: v })} suffix="px" />
-              <SelectControl
-                label="Font Weight"
-                value={settings.asciiFontWeight}
-                options={[
-                  { value: 'normal', label: 'Normal' },
-                  { value: 'bold', label: 'Bold' },
-                ]}
-                onChange={(v) => update({ asciiFontWeight: v as 'normal' | 'bold' })}
-              />
-              <SliderControl label="Text Opacity" value={settings.asciiOpacity} min={0} max={1} step={0.1} onChange={(v) => update({ asciiOpacity: v })} />
-              <SliderControl label="Background Opacity" value={settings.asciiBackgroundOpacity} min={0} max={1} step={0.1} onChange={(v) => update({ asciiBackgroundOpacity: v })} />
-              <SliderControl label="Brightness Boost" value={settings.asciiBrightnessBoost} min={0.1} max={3} step={0.1} onChange={(v) => update({ asciiBrightnessBoost: v })} suffix="x" />
-              <ToggleControl label="Color Mode" value={settings.asciiColorMode} onChange={(v) => update({ asciiColorMode: v })} />
-              {!settings.asciiColorMode && (
-                <div className="space-y-2">
-                  <label className="text-xs text-white/60">Text Color</label>
-                  <input
-                    type="color"
-                    value={settings.asciiTextColor}
-                    onChange={(e) => update({ asciiTextColor: e.target.value })}
-                    className="w-full h-8 rounded cursor-pointer"
-                  />
-                </div>
+              <SliderControl label="Bloom Strength" value={settings.bloomStrength} min={0} max={3} step={0.1} onChange={(v) => update({ bloomStrength: v })} />
+              {settings.bloomStrength > 0 && (
+                <>
+                  <SliderControl label="Bloom Threshold" value={settings.bloomThreshold} min={0} max={1} step={0.05} onChange={(v) => update({ bloomThreshold: v })} />
+                  <SliderControl label="Bloom Radius" value={settings.bloomRadius} min={0} max={1} step={0.05} onChange={(v) => update({ bloomRadius: v })} />
+                </>
               )}
-              <SliderControl label="Contrast" value={settings.asciiContrast} min={0.5} max={3} step={0.1} onChange={(v) => update({ asciiContrast: v })} />
-              <SliderControl label="Gamma" value={settings.asciiGamma} min={0.5} max={2} step={0.1} onChange={(v) => update({ asciiGamma: v })} />
-              <ToggleControl label="Invert" value={settings.asciiInvert} onChange={(v) => update({ asciiInvert: v })} />
-            </>
-          )}
-        </Section>
-
-        {/* Retro Effects */}
-        <Section title="Retro Effects" icon={Sparkles} defaultOpen={false}>
-          {/* Dithering */}
-          <ToggleControl label="Dithering" value={settings.ditheringEnabled} onChange={(v) => update({ ditheringEnabled: v })} />
-          {settings.ditheringEnabled && (
-            <>
-              <SelectControl
-                label="Dither Type"
-                value={settings.ditheringType}
-                options={[
-                  { value: 'bayer', label: 'Bayer (Ordered)' },
-                  { value: 'floydSteinberg', label: 'Floyd-Steinberg (Diffusion)' },
-                  { value: 'jjn', label: 'Jarvis-Judson-Ninke (High Quality)' },
-                  { value: 'stucki', label: 'Stucki (Smooth)' },
-                  { value: 'sierra', label: 'Sierra (Balanced)' },
-                ]}
-                onChange={(v) => update({ ditheringType: v as 'bayer' | 'floydSteinberg' | 'jjn' | 'stucki' | 'sierra' })}
-              />
               <SliderControl
-                label="Dither Intensity"
-                value={settings.ditheringIntensity}
+                label="Chromatic Aberration"
+                value={settings.chromaticAberration}
                 min={0}
-                max={1}
-                step={0.1}
-                onChange={(v) => update({ ditheringIntensity: v })}
-              />
-              <SliderControl
-                label="Dither Resolution"
-                value={settings.ditheringResolution}
-                min={0.05}
-                max={1}
-                step={0.05}
-                onChange={(v) => update({ ditheringResolution: v })}
-                suffix=" (lower = faster)"
+                max={0.02}
+                step={0.001}
+                onChange={(v) => update({ chromaticAberration: v })}
               />
+              <SliderControl label="Vignette" value={settings.vignette} min={0} max={1} step={0.05} onChange={(v) => update({ vignette: v })} />
+              <SliderControl label="Film Grain" value={settings.filmGrain} min={0} max={1} step={0.02} onChange={(v) => update({ filmGrain: v })} />
             </>
           )}
+        </Section>
 
-          {/* Palette */}
-          <SelectControl
-            label="Palette"
-            value={settings.paletteType}
-            options={paletteList}
-            onChange={(v) => update({ paletteType: v as any })}
+        {/* Effect Stack */}
+        <Section title="Effect Stack" icon={Layers} defaultOpen={false}>
+          <EffectStackEditor
+            effects={settings.effects}
+            loopDuration={settings.loopDuration}
+            onChange={(effects) => update({ effects })}
           />
-
-          {/* Pixelation */}
-          <ToggleControl label="Pixelation" value={settings.pixelationEnabled} onChange={(v) => update({ pixelationEnabled: v })} />
-          {settings.pixelationEnabled && (
-            <SliderControl
-              label="Pixel Size"
-              value={settings.pixelSize}
-              min={1}
-              max={32}
-              step={1}
-              onChange={(v) => update({ pixelSize: v })}
-              suffix="px"
-            />
-          )}
         </Section>
 
         {/* Export */}
@@ -584,6 +985,26 @@ export function SettingsPanel({
           />
           <SliderControl label="FPS" value={settings.exportFps} min={15} max={60} step={5} onChange={(v) => update({ exportFps: v })} />
           <SliderControl label="Loop Count" value={settings.exportLoopCount} min={1} max={5} step={1} onChange={(v) => update({ exportLoopCount: v })} suffix="x" />
+          <SliderControl
+            label="Motion Blur Samples"
+            value={settings.motionBlurSamples}
+            min={1}
+            max={16}
+            step={1}
+            onChange={(v) => update({ motionBlurSamples: v })}
+            suffix={settings.motionBlurSamples === 1 ? ' (off)' : ' per frame'}
+          />
+          {settings.motionBlurSamples > 1 && (
+            <SliderControl
+              label="Shutter Angle"
+              value={settings.motionBlurShutter}
+              min={0}
+              max={360}
+              step={15}
+              onChange={(v) => update({ motionBlurShutter: v })}
+              suffix="°"
+            />
+          )}
           <SelectControl
             label="Quality"
             value={settings.exportQuality}
@@ -604,7 +1025,22 @@ export function SettingsPanel({
             ]}
             onChange={(v) => update({ exportFormat: v as 'webm' | 'mp4' | 'gif' })}
           />
+          {settings.exportFormat === 'gif' && (
+            <>
+              <ToggleControl label="Global Palette" value={settings.gifGlobalPalette} onChange={(v) => update({ gifGlobalPalette: v })} />
+              {settings.gifGlobalPalette && !getStackOutputPalette(settings.effects) && (
+                <SliderControl label="Palette Colors" value={settings.gifPaletteSize} min={2} max={256} step={1} onChange={(v) => update({ gifPaletteSize: v })} />
+              )}
+            </>
+          )}
           <ToggleControl label="Seamless Loop Verification" value={settings.seamlessLoopVerification} onChange={(v) => update({ seamlessLoopVerification: v })} />
+          <button
+            onClick={onVerifyLoop}
+            disabled={isExporting}
+            className="w-full py-2 rounded-lg text-xs font-medium bg-white/5 text-white/70 hover:bg-white/10 hover:text-white border border-white/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Check Loop Seam
+          </button>
           <ToggleControl label="Show Resolution Borders" value={showBorders} onChange={onToggleBorders} />
         </Section>
       </div>
@@ -632,6 +1068,12 @@ export function SettingsPanel({
             </>
           )}
         </button>
+        {!isExporting && gifSummary && (
+          <p className="mt-2 text-[11px] text-white/40 text-center">
+            Last GIF: {gifSummary.colorCount !== null ? `${gifSummary.colorCount} colors` : 'per-frame palettes'}
+            {' · '}{formatFileSize(gifSummary.fileSize)}
+          </p>
+        )}
         {isExporting && (
           <div className="mt-2 h-1.5 bg-white/5 rounded-full overflow-hidden">
             <div
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { CustomPalette, customPaletteStore } from '../utils/customPalettes';
+
+/**
+ * Re-render whenever custom palettes are created, edited or removed
+ */
+export function useCustomPalettes(): CustomPalette[] {
+  return useSyncExternalStore(customPaletteStore.subscribe, customPaletteStore.getAll);
+}
@@ -0,0 +1,21 @@
+import { createContext, useContext, useSyncExternalStore } from 'react';
+import { LoopClock } from '../utils/loopClock';
+
+export const LoopClockContext = createContext<LoopClock | null>(null);
+
+/**
+ * Access the shared loop clock (R3F bridges this context into the Canvas)
+ */
+export function useLoopClock(): LoopClock {
+  const clock = useContext(LoopClockContext);
+  if (!clock) throw new Error('useLoopClock must be used inside a LoopClockContext provider');
+  return clock;
+}
+
+/**
+ * Re-render whenever the loop position changes (for UI - 3D components read clock.loopT in useFrame)
+ */
+export function useLoopT(): number {
+  const clock = useLoopClock();
+  return useSyncExternalStore(clock.subscribe, () => clock.loopT);
+}
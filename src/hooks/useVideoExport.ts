@@ -1,9 +1,12 @@
 import { useRef, useState, useCallback } from 'react';
 import { AnimationSettings } from '../types';
-import { imageDataToASCIICells, renderASCIIToCanvas } from '../utils/asciiRenderer';
-import { applyBayerDithering, applyFloydSteinbergDithering, reduceColorsTopalette } from '../utils/dithering';
-import { palettes } from '../utils/palettes';
-import { applyPixelation } from '../utils/pixelation';
+import type { SceneHandle } from '../components/Scene';
+import { applyDithering, TemporalDitherState } from '../utils/dithering';
+import { getEffectPalette, getStackOutputPalette, getStackWarmupSeconds, hasTemporalEffects } from '../utils/effectStack';
+import { FrameProcessor, getExportFrameLoopT } from '../utils/frameProcessor';
+import { getEffectWorkerPool } from '../utils/effectWorkerPool';
+import { buildLoopVerificationReport, LoopVerificationReport } from '../utils/loopVerification';
+import { extractPalette, sampleFramePixels } from '../utils/paletteExtraction';
 
 // @ts-ignore - gif.js doesn't have TypeScript definitions
 import GIF from 'gif.js';
@@ -25,49 +28,306 @@ function calculateBitrate(width: number, height: number, quality: 'good' | 'exce
   return Math.max(500000, Math.min(bitrate, 80000000)); // 0.5Mbps to 80Mbps
 }
 
-// Generate frames for GIF encoding
-async function generateGifFrames(
-  canvas: HTMLCanvasElement,
+interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Calculate the region of the screen canvas that matches the export aspect ratio
+function getCropRect(canvas: HTMLCanvasElement, settings: AnimationSettings): CropRect {
+  const exportAspectRatio = settings.exportWidth / settings.exportHeight;
+  const screenWidth = canvas.width;
+  const screenHeight = canvas.height;
+  const screenAspectRatio = screenWidth / screenHeight;
+
+  if (exportAspectRatio > screenAspectRatio) {
+    // Export is wider, crop height
+    const height = screenWidth / exportAspectRatio;
+    return { x: 0, y: (screenHeight - height) / 2, width: screenWidth, height };
+  }
+
+  // Export is taller, crop width
+  const width = screenHeight * exportAspectRatio;
+  return { x: (screenWidth - width) / 2, y: 0, width, height: screenHeight };
+}
+
+/**
+ * Sub-frame times for motion blur, in seconds relative to the frame's time: `samples` evenly spaced
+ * instants across the open shutter, centered on the frame. Frame 0's earlier sub-frames land before
+ * the loop start and wrap to the loop end, so the blur is continuous across the seam.
+ */
+function getMotionBlurOffsets(settings: AnimationSettings): number[] {
+  const samples = Math.max(1, Math.round(settings.motionBlurSamples));
+  const shutter = (settings.motionBlurShutter / 360) / settings.exportFps;
+  return Array.from({ length: samples }, (_, s) => ((s + 0.5) / samples - 0.5) * shutter);
+}
+
+/**
+ * Render every export frame at its exact clock time and read it back before moving on.
+ * Frame i is rendered at t = i / exportFps, so the result never depends on how fast
+ * this machine renders - a slow frame simply takes longer, it is never dropped.
+ * The last frame is one frame interval before the loop boundary, so frame 0 follows it seamlessly.
+ * With motion blur each frame is the average of its sub-frames, handed over at export resolution.
+ */
+async function captureSteppedFrames(
+  scene: SceneHandle,
   settings: AnimationSettings,
-  cropX: number,
-  cropY: number,
-  cropWidth: number,
-  cropHeight: number,
-): Promise<ImageData[]> {
-  const frames: ImageData[] = [];
+  onFrame: (canvas: HTMLCanvasElement, crop: CropRect, index: number) => void,
+  onProgress: (progress: number) => void,
+  isAborted: () => boolean,
+): Promise<void> {
+  const canvas = scene.getCanvas();
+  if (!canvas) throw new Error('Canvas not ready');
+
   const targetDuration = settings.loopDuration * settings.exportLoopCount;
   const targetFrameCount = Math.round(targetDuration * settings.exportFps);
-  const frameIntervalMs = 1000 / settings.exportFps;
-
-  const tempCanvas = document.createElement('canvas');
-  tempCanvas.width = settings.exportWidth;
-  tempCanvas.height = settings.exportHeight;
-  const tempCtx = tempCanvas.getContext('2d');
-  if (!tempCtx) throw new Error('Failed to create canvas context');
-
-  for (let i = 0; i < targetFrameCount; i++) {
-    // Draw the current frame
-    tempCtx.drawImage(
-      canvas,
-      cropX,
-      cropY,
-      cropWidth,
-      cropHeight,
-      0,
-      0,
-      settings.exportWidth,
-      settings.exportHeight
-    );
-    
-    // Capture frame as ImageData
-    const frameData = tempCtx.getImageData(0, 0, settings.exportWidth, settings.exportHeight);
-    frames.push(frameData);
-
-    // Wait for next frame interval
-    await new Promise(resolve => setTimeout(resolve, frameIntervalMs));
+  const offsets = getMotionBlurOffsets(settings);
+
+  // Sub-frames are summed here and averaged into the blur canvas
+  let blurCtx: CanvasRenderingContext2D | null = null;
+  let sampleCtx: CanvasRenderingContext2D | null = null;
+  let sum: Float32Array | null = null;
+  if (offsets.length > 1) {
+    const blurCanvas = document.createElement('canvas');
+    const sampleCanvas = document.createElement('canvas');
+    blurCanvas.width = sampleCanvas.width = settings.exportWidth;
+    blurCanvas.height = sampleCanvas.height = settings.exportHeight;
+    blurCtx = blurCanvas.getContext('2d');
+    sampleCtx = sampleCanvas.getContext('2d', { willReadFrequently: true });
+    if (!blurCtx || !sampleCtx) throw new Error('Failed to create motion blur context');
+    sum = new Float32Array(settings.exportWidth * settings.exportHeight * 4);
   }
 
-  return frames;
+  scene.beginFrameStepping();
+  try {
+    for (let i = 0; i < targetFrameCount; i++) {
+      if (isAborted()) break;
+
+      if (blurCtx && sampleCtx && sum) {
+        sum.fill(0);
+        for (const offset of offsets) {
+          scene.renderFrameAt(i / settings.exportFps + offset);
+          const crop = getCropRect(canvas, settings);
+          sampleCtx.drawImage(canvas, crop.x, crop.y, crop.width, crop.height, 0, 0, settings.exportWidth, settings.exportHeight);
+          const { data } = sampleCtx.getImageData(0, 0, settings.exportWidth, settings.exportHeight);
+          for (let p = 0; p < data.length; p++) sum[p] += data[p];
+        }
+
+        const average = blurCtx.createImageData(settings.exportWidth, settings.exportHeight);
+        for (let p = 0; p < sum.length; p++) average.data[p] = sum[p] / offsets.length;
+        blurCtx.putImageData(average, 0, 0);
+        onFrame(blurCtx.canvas, { x: 0, y: 0, width: settings.exportWidth, height: settings.exportHeight }, i);
+      } else {
+        scene.renderFrameAt(i / settings.exportFps);
+        // Read back immediately: the drawing buffer holds exactly this frame until the next step
+        onFrame(canvas, getCropRect(canvas, settings), i);
+      }
+      onProgress((i + 1) / targetFrameCount);
+
+      // Yield to UI thread periodically
+      if (i % 5 === 0) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+  } finally {
+    scene.endFrameStepping();
+  }
+}
+
+function getFramesPerLoop(settings: AnimationSettings): number {
+  return Math.max(1, Math.round(settings.loopDuration * settings.exportFps));
+}
+
+interface FrameJob {
+  frame: ImageData;
+  index: number; // export frame index, for the loop position
+  output: number | null; // where the result goes in the frame array, null for warm-up frames
+}
+
+/**
+ * Frames to process, in order, for one loop: a warm-up run through the copies of the loop's last frames
+ * (so persistence starts the loop with the glow its end leaves behind), then the loop's own frames.
+ * The warm-up copies are the frames just before warmupEnd.
+ */
+function getLoopJobs(frames: ImageData[], start: number, end: number, warmup: ImageData[], warmupEnd: number): FrameJob[] {
+  const jobs: FrameJob[] = warmup.map((frame, i) => ({
+    frame: new ImageData(new Uint8ClampedArray(frame.data), frame.width, frame.height),
+    index: warmupEnd - warmup.length + i,
+    output: null,
+  }));
+  for (let i = start; i < end; i++) jobs.push({ frame: frames[i], index: i, output: i });
+  return jobs;
+}
+
+/**
+ * Run captured frames through the same frame processor as the preview, replacing them in the array.
+ * Frame i gets the loop position it was rendered at, so per-effect state repeats with every loop.
+ * Frames are processed in parallel on the effect worker pool when it's available.
+ */
+async function processCapturedFrames(
+  frames: ImageData[],
+  settings: AnimationSettings,
+  onProgress: (progress: number) => void,
+  isAborted: () => boolean,
+): Promise<void> {
+  if (!settings.effects.some(effect => effect.enabled)) return;
+
+  const framesPerLoop = getFramesPerLoop(settings);
+  // Raw copies of the loop's last frames, taken before anything is processed in place
+  // (the first loop may be short when a frame capture failed)
+  const warmupEnd = Math.min(frames.length, framesPerLoop);
+  const warmupCount = Math.min(
+    warmupEnd,
+    Math.ceil(getStackWarmupSeconds(settings.effects) * settings.exportFps)
+  );
+  const warmup = frames
+    .slice(warmupEnd - warmupCount, warmupEnd)
+    .map(frame => new ImageData(new Uint8ClampedArray(frame.data), frame.width, frame.height));
+
+  const pool = getEffectWorkerPool();
+  if (!pool) {
+    // One processor for the whole export: state carries from each loop into the next, like the warm-up
+    const processor = new FrameProcessor();
+    const jobs = getLoopJobs(frames, 0, frames.length, warmup, warmupEnd);
+    for (let j = 0; j < jobs.length; j++) {
+      if (isAborted()) break;
+      onProgress(j / jobs.length);
+
+      const { frame, index } = jobs[j];
+      processor.process(frame, settings, getExportFrameLoopT(settings, index));
+
+      // Yield to UI thread periodically
+      if (j % 5 === 0) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+    return;
+  }
+
+  // Temporal effects carry state from frame to frame, so each loop's frames go to one worker in order;
+  // otherwise every frame is independent and they're spread across the pool
+  const sequential = hasTemporalEffects(settings.effects);
+  const loops = Math.ceil(frames.length / framesPerLoop);
+  const jobs = sequential
+    ? Array.from({ length: loops }, (_, loop) =>
+      getLoopJobs(frames, loop * framesPerLoop, Math.min(frames.length, (loop + 1) * framesPerLoop), warmup, warmupEnd)
+        .map(job => ({ ...job, loop })))
+      .flat()
+    : getLoopJobs(frames, 0, frames.length, [], warmupEnd).map(job => ({ ...job, loop: 0 }));
+
+  const streamPrefix = `export-${Date.now()}`;
+  const streams = new Set<string>();
+  // Enough frames in flight to keep every worker busy without queueing the whole export
+  const maxInFlight = pool.size * 2;
+  const inFlight = new Set<Promise<void>>();
+  let processed = 0;
+
+  try {
+    for (const { frame, index, output, loop } of jobs) {
+      if (isAborted()) break;
+
+      const stream = sequential ? `${streamPrefix}-${loop}` : undefined;
+      if (stream) streams.add(stream);
+
+      const job: Promise<void> = pool
+        .processImageData(sequential ? loop : index, frame, settings, getExportFrameLoopT(settings, index), { stream })
+        .then((result) => {
+          if (output !== null) frames[output] = result;
+          onProgress(++processed / jobs.length);
+        })
+        .finally(() => inFlight.delete(job));
+      inFlight.add(job);
+
+      if (inFlight.size >= maxInFlight) await Promise.race(inFlight);
+    }
+    await Promise.all(inFlight);
+  } finally {
+    streams.forEach(stream => pool.endStream(stream));
+  }
+}
+
+/**
+ * Render the first frame (t = 0) and the frame at the very end of the loop (t = 1)
+ * at export resolution. In a seamless loop the two are identical.
+ */
+function captureLoopSeamFrames(scene: SceneHandle, settings: AnimationSettings): [ImageData, ImageData] {
+  const canvas = scene.getCanvas();
+  if (!canvas) throw new Error('Canvas not ready');
+
+  const seamCanvas = document.createElement('canvas');
+  seamCanvas.width = settings.exportWidth;
+  seamCanvas.height = settings.exportHeight;
+  const seamCtx = seamCanvas.getContext('2d', { willReadFrequently: true });
+  if (!seamCtx) throw new Error('Failed to create seam check context');
+
+  const captureAt = (loopT: number) => {
+    scene.renderFrameAtLoopT(loopT);
+    const crop = getCropRect(canvas, settings);
+    seamCtx.drawImage(canvas, crop.x, crop.y, crop.width, crop.height, 0, 0, settings.exportWidth, settings.exportHeight);
+    return seamCtx.getImageData(0, 0, settings.exportWidth, settings.exportHeight);
+  };
+
+  scene.beginFrameStepping();
+  try {
+    return [captureAt(0), captureAt(1)];
+  } finally {
+    scene.endFrameStepping();
+  }
+}
+
+export interface GifExportSummary {
+  colorCount: number | null; // null when gif.js quantized each frame on its own
+  fileSize: number; // bytes
+}
+
+/**
+ * One palette for every frame of a GIF export, built from the processed frames.
+ * When the effect stack ends on a fixed palette the frames already use it as-is; otherwise an
+ * adaptive palette is built from the whole loop, so colors don't flicker between frames.
+ */
+function buildGifGlobalPalette(frames: ImageData[], settings: AnimationSettings): [number, number, number][] {
+  return getStackOutputPalette(settings.effects) ??
+    extractPalette(sampleFramePixels(frames), settings.gifPaletteSize, 'kmeans');
+}
+
+/**
+ * Map processed frames onto an adaptive global palette, in place. Frames the stack already dithered
+ * only get the nearest palette color, so they aren't dithered a second time; otherwise they're dithered
+ * the way the stack's dither effect would (at its resolution).
+ */
+async function mapFramesToGlobalPalette(
+  frames: ImageData[],
+  palette: [number, number, number][],
+  settings: AnimationSettings,
+  onProgress: (progress: number) => void,
+  isAborted: () => boolean,
+): Promise<void> {
+  const dither = settings.effects.find(effect => effect.enabled && effect.type === 'dither');
+  const params = dither?.type === 'dither' ? dither.params : null;
+  const alreadyDithered = dither !== undefined && getEffectPalette(dither) !== undefined;
+  const type = params && !alreadyDithered ? params.ditheringType : 'none';
+  const temporal = type !== 'none' && params?.temporalStability ? new TemporalDitherState() : undefined;
+
+  for (let i = 0; i < frames.length; i++) {
+    if (isAborted()) break;
+    onProgress(i / frames.length);
+
+    const frame = frames[i];
+    applyDithering(frame.data, frame.width, frame.height, palette, type, {
+      intensity: params?.intensity,
+      resolution: params?.resolution,
+      metric: params?.colorDistance,
+      serpentine: params?.serpentine,
+      temporal,
+    });
+
+    // Yield to UI thread periodically
+    if (i % 5 === 0) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
 }
 
 // Gif.js-style encoder (simple implementation)
@@ -98,181 +358,92 @@ async function encodeGifFromFrames(frames: ImageData[], width: number, height: n
 export function useVideoExport() {
   const [isExporting, setIsExporting] = useState(false);
   const [exportProgress, setExportProgress] = useState(0);
+  const [loopReport, setLoopReport] = useState<LoopVerificationReport | null>(null);
+  const [gifSummary, setGifSummary] = useState<GifExportSummary | null>(null);
   const abortRef = useRef(false);
 
+  // Compare the loop's first and last frame and check settings that can't loop cleanly
+  const verifyLoop = useCallback((scene: SceneHandle, settings: AnimationSettings) => {
+    const [first, last] = captureLoopSeamFrames(scene, settings);
+    const report = buildLoopVerificationReport(settings, first, last);
+    setLoopReport(report);
+
+    if (!report.seamless || report.issues.length > 0) {
+      console.warn(
+        `Loop seam mismatch: ${(report.difference.mismatchRatio * 100).toFixed(2)}% of pixels differ`,
+        report.issues.map(issue => issue.parameter)
+      );
+    }
+
+    return report;
+  }, []);
+
+  const dismissLoopReport = useCallback(() => setLoopReport(null), []);
+
   const exportVideo = useCallback(async (
-    canvas: HTMLCanvasElement,
+    scene: SceneHandle,
     settings: AnimationSettings,
   ) => {
     if (isExporting) return;
 
     setIsExporting(true);
     setExportProgress(0);
+    setGifSummary(null);
     abortRef.current = false;
 
     try {
-      // Calculate duration ensuring we capture complete loops
-      const targetDuration = settings.loopDuration * settings.exportLoopCount;
-      
-      // Calculate exact frame count needed
-      const targetFrameCount = Math.round(targetDuration * settings.exportFps);
-      // The exact duration this frame count represents
-      const exactDurationMs = (targetFrameCount / settings.exportFps) * 1000;
       const frameIntervalMs = 1000 / settings.exportFps;
-      
-      // Stop slightly before the end to avoid capturing the boundary frame
-      // which could cause a discontinuity when the video loops
-      const stopDurationMs = exactDurationMs - (frameIntervalMs * 0.1);
-
-      // Calculate crop dimensions to match export aspect ratio
-      const exportAspectRatio = settings.exportWidth / settings.exportHeight;
-      const screenWidth = canvas.width;
-      const screenHeight = canvas.height;
-      const screenAspectRatio = screenWidth / screenHeight;
-
-      let cropWidth, cropHeight, cropX, cropY;
-
-      if (exportAspectRatio > screenAspectRatio) {
-        // Export is wider, crop height
-        cropWidth = screenWidth;
-        cropHeight = screenWidth / exportAspectRatio;
-        cropX = 0;
-        cropY = (screenHeight - cropHeight) / 2;
-      } else {
-        // Export is taller, crop width
-        cropHeight = screenHeight;
-        cropWidth = screenHeight * exportAspectRatio;
-        cropX = (screenWidth - cropWidth) / 2;
-        cropY = 0;
+      const isAborted = () => abortRef.current;
+
+      // Warn (without blocking the export) when the loop end doesn't match its start
+      if (settings.seamlessLoopVerification) {
+        verifyLoop(scene, settings);
       }
 
       // Handle GIF export separately
       if (settings.exportFormat === 'gif') {
-        // Generate frames with effects applied
+        // Capture raw frames - the effect stack runs in a post-processing pass below
         const frames: ImageData[] = [];
-        const targetDuration = settings.loopDuration * settings.exportLoopCount;
-        const targetFrameCount = Math.round(targetDuration * settings.exportFps);
-        const frameIntervalMs = 1000 / settings.exportFps;
 
-        // Create temp canvas for processing
         const tempCanvas = document.createElement('canvas');
         tempCanvas.width = settings.exportWidth;
         tempCanvas.height = settings.exportHeight;
-        const tempCtx = tempCanvas.getContext('2d');
+        const tempCtx = tempCanvas.getContext('2d', { willReadFrequently: true });
         if (!tempCtx) throw new Error('Failed to create canvas context');
 
-        // Processing canvas for effects
-        const processScale = 1.0;
-        const processWidth = Math.round(settings.exportWidth * processScale);
-        const processHeight = Math.round(settings.exportHeight * processScale);
-        const processCanvas = document.createElement('canvas');
-        processCanvas.width = processWidth;
-        processCanvas.height = processHeight;
-        const processCtx = processCanvas.getContext('2d', { willReadFrequently: true });
-        if (!processCtx) throw new Error('Failed to create process context');
-
-        for (let i = 0; i < targetFrameCount; i++) {
-          setExportProgress((i / targetFrameCount) * 0.5);
-
-          if (abortRef.current) break;
-
-          // Wait for frame interval (simulate animation timing)
-          await new Promise(resolve => setTimeout(resolve, frameIntervalMs));
-
+        await captureSteppedFrames(scene, settings, (canvas, crop) => {
           try {
-            if (settings.asciiEnabled) {
-              // ASCII processing
-              processCtx.drawImage(canvas, cropX, cropY, cropWidth, cropHeight, 0, 0, processWidth, processHeight);
-              const imageData = processCtx.getImageData(0, 0, processWidth, processHeight);
-
-              const frame = imageDataToASCIICells(imageData, processWidth, processHeight, {
-                charset: settings.asciiCharset,
-                resolution: settings.asciiResolution,
-                invert: settings.asciiInvert,
-                contrast: settings.asciiContrast,
-                gamma: settings.asciiGamma,
-                colorMode: settings.asciiColorMode,
-                textColor: settings.asciiTextColor,
-                backgroundColor: settings.backgroundColor,
-              });
-
-              renderASCIIToCanvas(tempCtx, frame, settings.exportWidth, settings.exportHeight, {
-                charset: settings.asciiCharset,
-                resolution: settings.asciiResolution,
-                colorMode: settings.asciiColorMode,
-                textColor: settings.asciiTextColor,
-                backgroundColor: settings.backgroundColor,
-                fontSize: settings.asciiFontSize,
-                fontWeight: settings.asciiFontWeight,
-                textOpacity: settings.asciiOpacity,
-                backgroundOpacity: settings.asciiBackgroundOpacity,
-                brightnessBoost: settings.asciiBrightnessBoost,
-              });
-            } else {
-              // Capture raw frame - effects applied in post-processing pass below
-              tempCtx.drawImage(canvas, cropX, cropY, cropWidth, cropHeight, 0, 0, settings.exportWidth, settings.exportHeight);
-            }
-
-            // Capture frame
-            const frameData = tempCtx.getImageData(0, 0, settings.exportWidth, settings.exportHeight);
-            frames.push(frameData);
+            tempCtx.drawImage(canvas, crop.x, crop.y, crop.width, crop.height, 0, 0, settings.exportWidth, settings.exportHeight);
+            frames.push(tempCtx.getImageData(0, 0, settings.exportWidth, settings.exportHeight));
           } catch (e) {
             console.warn('Frame capture error:', e);
           }
-        }
-
-        // Post-processing pass: apply dithering/palette/pixelation to captured frames offline
-        // This avoids temporal drift caused by slow per-frame processing during capture
-        if (!settings.asciiEnabled && !abortRef.current && frames.length > 0 &&
-            (settings.ditheringEnabled || settings.paletteType !== 'full' || (settings.pixelationEnabled && settings.pixelSize > 1))) {
-          for (let i = 0; i < frames.length; i++) {
-            if (abortRef.current) break;
-            setExportProgress(0.5 + (i / frames.length) * 0.3);
-
-            // Put raw frame on temp canvas, downscale to process canvas
-            tempCtx.putImageData(frames[i], 0, 0);
-            processCtx.drawImage(tempCanvas, 0, 0, settings.exportWidth, settings.exportHeight, 0, 0, processWidth, processHeight);
-
-            if (settings.ditheringEnabled || settings.paletteType !== 'full') {
-              const imageData = processCtx.getImageData(0, 0, processWidth, processHeight);
-              const palette = palettes[settings.paletteType].colors;
-
-              if (settings.ditheringEnabled) {
-                if (settings.ditheringType === 'bayer') {
-                  applyBayerDithering(imageData.data, processWidth, processHeight, palette, settings.ditheringIntensity, settings.ditheringResolution);
-                } else {
-                  applyFloydSteinbergDithering(imageData.data, processWidth, processHeight, palette, settings.ditheringIntensity, settings.ditheringResolution);
-                }
-              } else {
-                reduceColorsTopalette(imageData.data, palette);
-              }
-
-              processCtx.putImageData(imageData, 0, 0);
-            }
-
-            if (settings.pixelationEnabled && settings.pixelSize > 1) {
-              applyPixelation(processCtx, processCanvas, settings.pixelSize);
-            }
-
-            // Upscale processed frame to export size and replace in array
-            tempCtx.drawImage(processCanvas, 0, 0, processWidth, processHeight, 0, 0, settings.exportWidth, settings.exportHeight);
-            frames[i] = tempCtx.getImageData(0, 0, settings.exportWidth, settings.exportHeight);
-
-            // Yield to UI thread periodically
-            if (i % 5 === 0) {
-              await new Promise(resolve => setTimeout(resolve, 0));
-            }
-          }
+        }, (p) => setExportProgress(p * 0.5), isAborted);
+
+        // Post-processing pass: run the effect stack over the captured frames offline
+        // so slow per-frame processing never holds up frame capture
+        await processCapturedFrames(frames, settings, (p) => setExportProgress(0.5 + p * 0.2), isAborted);
+
+        // Let the progress bar paint before the palette is built
+        await new Promise(resolve => setTimeout(resolve, 0));
+        const globalPalette = settings.gifGlobalPalette && !abortRef.current && frames.length > 0
+          ? buildGifGlobalPalette(frames, settings)
+          : null;
+        // An adaptive palette isn't in the frames yet
+        if (globalPalette && !getStackOutputPalette(settings.effects)) {
+          await mapFramesToGlobalPalette(frames, globalPalette, settings, (p) => setExportProgress(0.7 + p * 0.1), isAborted);
         }
 
         if (!abortRef.current && frames.length > 0) {
           // Create GIF using gif.js
+          // Frames were already mapped onto the global palette, so gif.js only has to index them
           const gif = new GIF({
             workers: 2,
             quality: 10,
             width: settings.exportWidth,
             height: settings.exportHeight,
-            workerScript: '/gif.worker.js'
+            workerScript: '/gif.worker.js',
+            ...(globalPalette && { globalPalette: globalPalette.flat() }),
           });
 
           frames.forEach(frame => {
@@ -282,11 +453,12 @@ export function useVideoExport() {
             const ctx = canvas.getContext('2d');
             if (ctx) {
               ctx.putImageData(frame, 0, 0);
-              gif.addFrame(canvas, { delay: 1000 / settings.exportFps });
+              gif.addFrame(canvas, { delay: frameIntervalMs });
             }
           });
 
           gif.on('finished', (blob: Blob) => {
+            setGifSummary({ colorCount: globalPalette?.length ?? null, fileSize: blob.size });
             const url = URL.createObjectURL(blob);
             const a = document.createElement('a');
             a.href = url;
@@ -312,337 +484,51 @@ export function useVideoExport() {
         return;
       }
 
-      // Handle video export with post-processing effects (dithering, palette, pixelation)
-      // Uses 3-phase approach: capture raw → post-process offline → playback+record
-      // This prevents frame drops caused by expensive per-frame dithering during real-time recording
-      const needsVideoPostProcessing = !settings.asciiEnabled &&
-        (settings.ditheringEnabled || settings.paletteType !== 'full' || (settings.pixelationEnabled && settings.pixelSize > 1));
-
-      if (needsVideoPostProcessing) {
-        // Phase 1: Capture raw frames from the live animation canvas (fast, no effects)
-        const rawFrames: ImageData[] = [];
-        const capCanvas = document.createElement('canvas');
-        capCanvas.width = settings.exportWidth;
-        capCanvas.height = settings.exportHeight;
-        const capCtx = capCanvas.getContext('2d', { willReadFrequently: true });
-        if (!capCtx) throw new Error('Failed to create capture context');
-
-        await new Promise<void>((resolve) => {
-          let capturedCount = 0;
-          const captureStart = Date.now();
-          const captureLoop = setInterval(() => {
-            const elapsed = Date.now() - captureStart;
-            const expectedFrame = Math.floor((elapsed / 1000) * settings.exportFps);
-
-            if (expectedFrame <= capturedCount && rawFrames.length > 0) return;
-            capturedCount = expectedFrame;
-
-            if (abortRef.current || elapsed >= stopDurationMs) {
-              clearInterval(captureLoop);
-              resolve();
-              return;
-            }
-
-            try {
-              capCtx.drawImage(canvas, cropX, cropY, cropWidth, cropHeight, 0, 0, settings.exportWidth, settings.exportHeight);
-              rawFrames.push(capCtx.getImageData(0, 0, settings.exportWidth, settings.exportHeight));
-            } catch (e) {
-              console.warn('Raw frame capture error:', e);
-            }
-
-            setExportProgress((elapsed / stopDurationMs) * 0.3);
-          }, Math.max(1, frameIntervalMs / 2));
-        });
-
-        if (abortRef.current || rawFrames.length === 0) return;
-
-        // Phase 2: Apply dithering/palette/pixelation to each frame at full resolution (offline, no time pressure)
-        const ppProcessCanvas = document.createElement('canvas');
-        ppProcessCanvas.width = settings.exportWidth;
-        ppProcessCanvas.height = settings.exportHeight;
-        const ppProcessCtx = ppProcessCanvas.getContext('2d', { willReadFrequently: true });
-
-        if (!ppProcessCtx) throw new Error('Failed to create processing context');
-
-        for (let i = 0; i < rawFrames.length; i++) {
-          if (abortRef.current) break;
-          setExportProgress(0.3 + (i / rawFrames.length) * 0.3);
-
-          // Apply dithering/palette effects directly at full resolution
-          if (settings.ditheringEnabled || settings.paletteType !== 'full') {
-            const imageData = rawFrames[i];
-            const palette = palettes[settings.paletteType].colors;
-
-            if (settings.ditheringEnabled) {
-              if (settings.ditheringType === 'bayer') {
-                applyBayerDithering(imageData.data, settings.exportWidth, settings.exportHeight, palette, settings.ditheringIntensity, settings.ditheringResolution);
-              } else {
-                applyFloydSteinbergDithering(imageData.data, settings.exportWidth, settings.exportHeight, palette, settings.ditheringIntensity, settings.ditheringResolution);
-              }
-            } else {
-              reduceColorsTopalette(imageData.data, palette);
-            }
-
-            rawFrames[i] = imageData;
-          }
-
-          // Apply pixelation if enabled
-          if (settings.pixelationEnabled && settings.pixelSize > 1) {
-            ppProcessCtx.putImageData(rawFrames[i], 0, 0);
-            applyPixelation(ppProcessCtx, ppProcessCanvas, settings.pixelSize);
-            rawFrames[i] = ppProcessCtx.getImageData(0, 0, settings.exportWidth, settings.exportHeight);
-          }
-
-          // Yield to UI thread periodically
-          if (i % 5 === 0) {
-            await new Promise(resolve => setTimeout(resolve, 0));
-          }
-        }
-
-        if (abortRef.current) return;
-
-        // Phase 3: Play back processed frames and record with MediaRecorder
-        const ppCompositeCanvas = document.createElement('canvas');
-        ppCompositeCanvas.width = settings.exportWidth;
-        ppCompositeCanvas.height = settings.exportHeight;
-        const ppCompCtx = ppCompositeCanvas.getContext('2d');
-        if (!ppCompCtx) throw new Error('Failed to create composite context');
-
-        // Draw first frame immediately
-        if (rawFrames.length > 0) {
-          ppCompCtx.putImageData(rawFrames[0], 0, 0);
-        }
-
-        const ppRecordingStream = ppCompositeCanvas.captureStream(settings.exportFps);
-
-        // Select MIME type and codec
-        let ppMimeType: string;
-        let ppVideoBitsPerSecond: number;
-
-        if (settings.exportFormat === 'mp4') {
-          const mp4Types = [
-            'video/mp4;codecs=avc1',
-            'video/mp4;codecs=avc1.42E01E',
-            'video/mp4;codecs=h264',
-            'video/mp4',
-          ];
-          ppMimeType = mp4Types.find(type => MediaRecorder.isTypeSupported(type)) || 'video/webm';
-          ppVideoBitsPerSecond = calculateBitrate(settings.exportWidth, settings.exportHeight, settings.exportQuality, settings.exportFps);
-        } else {
-          const webmTypes = [
-            'video/webm;codecs=vp9',
-            'video/webm;codecs=vp9,opus',
-            'video/webm;codecs=vp8',
-            'video/webm',
-          ];
-          ppMimeType = webmTypes.find(type => MediaRecorder.isTypeSupported(type)) || 'video/webm';
-          ppVideoBitsPerSecond = calculateBitrate(settings.exportWidth, settings.exportHeight, settings.exportQuality, settings.exportFps);
+      // Video export uses a 3-phase approach: step-render raw frames → post-process offline → playback+record
+      // Rendering is driven frame by frame, so slow effects or a slow machine never drop frames
+
+      // Phase 1: Render each frame at its exact loop time and capture it (no effects)
+      const rawFrames: ImageData[] = [];
+      const capCanvas = document.createElement('canvas');
+      capCanvas.width = settings.exportWidth;
+      capCanvas.height = settings.exportHeight;
+      const capCtx = capCanvas.getContext('2d', { willReadFrequently: true });
+      if (!capCtx) throw new Error('Failed to create capture context');
+
+      await captureSteppedFrames(scene, settings, (canvas, crop) => {
+        try {
+          capCtx.drawImage(canvas, crop.x, crop.y, crop.width, crop.height, 0, 0, settings.exportWidth, settings.exportHeight);
+          rawFrames.push(capCtx.getImageData(0, 0, settings.exportWidth, settings.exportHeight));
+        } catch (e) {
+          console.warn('Raw frame capture error:', e);
         }
+      }, (p) => setExportProgress(p * 0.3), isAborted);
 
-        const ppMediaRecorder = new MediaRecorder(ppRecordingStream, {
-          mimeType: ppMimeType,
-          videoBitsPerSecond: ppVideoBitsPerSecond,
-        });
-
-        const ppChunks: Blob[] = [];
-        ppMediaRecorder.ondataavailable = (e) => {
-          if (e.data.size > 0) ppChunks.push(e.data);
-        };
-
-        ppMediaRecorder.start(100);
-
-        // Play back pre-processed frames at correct FPS with precise timing
-        const startPlaybackTime = Date.now();
-        let playbackIndex = 1; // Frame 0 already drawn
-        
-        const scheduleFrame = (index: number) => {
-          if (index >= rawFrames.length || abortRef.current) {
-            // Small delay to ensure last frame is captured by MediaRecorder
-            setTimeout(() => ppMediaRecorder.stop(), 100);
-            return;
-          }
-          
-          ppCompCtx.putImageData(rawFrames[index], 0, 0);
-          setExportProgress(0.6 + (index / rawFrames.length) * 0.4);
-          
-          // Schedule next frame
-          const nextTime = startPlaybackTime + (index + 1) * frameIntervalMs;
-          const delay = Math.max(0, nextTime - Date.now());
-          setTimeout(() => scheduleFrame(index + 1), delay);
-        };
-        
-        // Start playback
-        await new Promise<void>((resolve) => {
-          scheduleFrame(playbackIndex);
-
-          ppMediaRecorder.onstop = () => {
-            if (!abortRef.current && ppChunks.length > 0) {
-              const blob = new Blob(ppChunks, { type: ppMimeType });
-              const url = URL.createObjectURL(blob);
-              const a = document.createElement('a');
-              a.href = url;
-              const formatExt = settings.exportFormat === 'mp4' ? 'mp4' : 'webm';
-              a.download = `loopforge-${settings.animationType}-${Date.now()}.${formatExt}`;
-              document.body.appendChild(a);
-              a.click();
-              document.body.removeChild(a);
-              URL.revokeObjectURL(url);
-            }
-            resolve();
-          };
-        });
-
-        return;
-      }
-
-      let recordingCanvas = canvas;
-      let recordingStream: MediaStream;
-
-      // If ASCII is enabled, capture and process frames manually
-      if (settings.asciiEnabled) {
-        const compositeCanvas = document.createElement('canvas');
-        compositeCanvas.width = settings.exportWidth;
-        compositeCanvas.height = settings.exportHeight;
-        
-        recordingCanvas = compositeCanvas;
-        recordingStream = compositeCanvas.captureStream(settings.exportFps);
-
-        // Temp canvas to read WebGL pixels
-        const tempCanvas = document.createElement('canvas');
-        tempCanvas.width = cropWidth;
-        tempCanvas.height = cropHeight;
-
-        let capturedFrames = 0;
-        const recordingStartTime = Date.now();
-        
-        const compositeCaptureLoop = setInterval(() => {
-          // Calculate which frame we should be on based on elapsed time
-          const elapsed = Date.now() - recordingStartTime;
-          const currentFrameNumber = Math.floor((elapsed / 1000) * settings.exportFps);
-
-          // Only capture if we haven't already captured this frame
-          if (currentFrameNumber <= capturedFrames) return;
-          capturedFrames = currentFrameNumber;
+      if (abortRef.current || rawFrames.length === 0) return;
 
-          const ctx = compositeCanvas.getContext('2d');
-          const tempCtx = tempCanvas.getContext('2d', { willReadFrequently: true });
-          if (!ctx || !tempCtx) return;
+      // Phase 2: Run the effect stack on each frame at full resolution (offline, no time pressure)
+      await processCapturedFrames(rawFrames, settings, (p) => setExportProgress(0.3 + p * 0.3), isAborted);
 
-          try {
-            // Copy cropped WebGL pixels to temp canvas
-            tempCtx.drawImage(canvas, cropX, cropY, cropWidth, cropHeight, 0, 0, cropWidth, cropHeight);
-            const imageData = tempCtx.getImageData(0, 0, cropWidth, cropHeight);
-
-            // Convert to ASCII cell grid
-            const frame = imageDataToASCIICells(imageData, cropWidth, cropHeight, {
-              charset: settings.asciiCharset,
-              resolution: settings.asciiResolution,
-              invert: settings.asciiInvert,
-              contrast: settings.asciiContrast,
-              gamma: settings.asciiGamma,
-              colorMode: settings.asciiColorMode,
-              textColor: settings.asciiTextColor,
-              backgroundColor: settings.backgroundColor,
-            });
-
-            // Render ASCII to the composite canvas
-            renderASCIIToCanvas(ctx, frame, compositeCanvas.width, compositeCanvas.height, {
-              charset: settings.asciiCharset,
-              resolution: settings.asciiResolution,
-              colorMode: settings.asciiColorMode,
-              textColor: settings.asciiTextColor,
-              backgroundColor: settings.backgroundColor,
-              fontSize: settings.asciiFontSize,
-              fontWeight: settings.asciiFontWeight,
-              textOpacity: settings.asciiOpacity,
-              backgroundOpacity: settings.asciiBackgroundOpacity,
-              brightnessBoost: settings.asciiBrightnessBoost,
-            });
-          } catch (e) {
-            // Silently handle errors
-          }
-        }, Math.max(1, frameIntervalMs / 2)); // Check frequently for frames
-
-        // Store it for cleanup
-        (recordingCanvas as any).__asciiCaptureInterval = compositeCaptureLoop;
-      } else {
-        // For non-ASCII, create composite canvas with export dimensions and crop
-        const compositeCanvas = document.createElement('canvas');
-        compositeCanvas.width = settings.exportWidth;
-        compositeCanvas.height = settings.exportHeight;
-        
-        recordingCanvas = compositeCanvas;
-        recordingStream = compositeCanvas.captureStream(settings.exportFps);
-
-        // Process at full resolution for better quality
-        const processScale = 1.0;
-        const processWidth = Math.round(settings.exportWidth * processScale);
-        const processHeight = Math.round(settings.exportHeight * processScale);
-        
-        const processCanvas = document.createElement('canvas');
-        processCanvas.width = processWidth;
-        processCanvas.height = processHeight;
-
-        let capturedFrames = 0;
-        const recordingStartTime = Date.now();
-        
-        const compositeCaptureLoop = setInterval(() => {
-          // Calculate which frame we should be on based on elapsed time
-          const elapsed = Date.now() - recordingStartTime;
-          const currentFrameNumber = Math.floor((elapsed / 1000) * settings.exportFps);
-
-          // Only capture if we haven't already captured this frame
-          if (currentFrameNumber <= capturedFrames) return;
-          capturedFrames = currentFrameNumber;
-
-          const ctx = compositeCanvas.getContext('2d');
-          const processCtx = processCanvas.getContext('2d', { willReadFrequently: true });
-          if (!ctx || !processCtx) return;
-
-          try {
-            // Draw cropped WebGL directly to processing canvas (auto-scales)
-            processCtx.drawImage(canvas, cropX, cropY, cropWidth, cropHeight, 0, 0, processWidth, processHeight);
-            
-            // Apply dithering/palette effects on downscaled image
-            if (settings.ditheringEnabled || (settings.paletteType !== 'full')) {
-              const imageData = processCtx.getImageData(0, 0, processWidth, processHeight);
-              const palette = palettes[settings.paletteType].colors;
-
-              // Use preview resolution directly for dithering (no further reduction needed)
-              if (settings.ditheringEnabled) {
-                if (settings.ditheringType === 'bayer') {
-                  applyBayerDithering(imageData.data, processWidth, processHeight, palette, settings.ditheringIntensity, settings.ditheringResolution);
-                } else {
-                  applyFloydSteinbergDithering(imageData.data, processWidth, processHeight, palette, settings.ditheringIntensity, settings.ditheringResolution);
-                }
-              } else {
-                // Just reduce colors without dithering
-                reduceColorsTopalette(imageData.data, palette);
-              }
-
-              // Put modified image data back
-              processCtx.putImageData(imageData, 0, 0);
-            }
+      if (abortRef.current) return;
 
-            // Apply pixelation on top if enabled
-            if (settings.pixelationEnabled && settings.pixelSize > 1) {
-              applyPixelation(processCtx, processCanvas, settings.pixelSize);
-            }
+      // Phase 3: Play back processed frames and record with MediaRecorder
+      const ppCompositeCanvas = document.createElement('canvas');
+      ppCompositeCanvas.width = settings.exportWidth;
+      ppCompositeCanvas.height = settings.exportHeight;
+      const ppCompCtx = ppCompositeCanvas.getContext('2d');
+      if (!ppCompCtx) throw new Error('Failed to create composite context');
 
-            // Draw upscaled processed image to composite canvas
-            ctx.drawImage(processCanvas, 0, 0, processWidth, processHeight, 0, 0, settings.exportWidth, settings.exportHeight);
-          } catch (e) {
-            // Silently handle errors
-          }
-        }, Math.max(1, frameIntervalMs / 2)); // Check frequently for frames
+      // Draw first frame immediately
+      ppCompCtx.putImageData(rawFrames[0], 0, 0);
 
-        // Store it for cleanup
-        (recordingCanvas as any).__compositeCaptureInterval = compositeCaptureLoop;
-      }
+      // Frame rate 0: the stream only emits a frame when requestFrame() is called,
+      // so every processed frame becomes exactly one video frame
+      const ppRecordingStream = ppCompositeCanvas.captureStream(0);
+      const ppVideoTrack = ppRecordingStream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
 
-      // Select MIME type and codec based on format and quality
-      let mimeType: string;
-      let videoBitsPerSecond: number;
+      // Select MIME type and codec
+      let ppMimeType: string;
+      let ppVideoBitsPerSecond: number;
 
       if (settings.exportFormat === 'mp4') {
         // Try H.264 codec in MP4 container (best compatibility and compression)
@@ -652,9 +538,8 @@ export function useVideoExport() {
           'video/mp4;codecs=h264',
           'video/mp4',
         ];
-        
-        mimeType = mp4Types.find(type => MediaRecorder.isTypeSupported(type)) || 'video/webm';
-        videoBitsPerSecond = calculateBitrate(settings.exportWidth, settings.exportHeight, settings.exportQuality, settings.exportFps);
+        ppMimeType = mp4Types.find(type => MediaRecorder.isTypeSupported(type)) || 'video/webm';
+        ppVideoBitsPerSecond = calculateBitrate(settings.exportWidth, settings.exportHeight, settings.exportQuality, settings.exportFps);
       } else {
         // WebM with VP9 or VP8
         const webmTypes = [
@@ -663,61 +548,52 @@ export function useVideoExport() {
           'video/webm;codecs=vp8',
           'video/webm',
         ];
-        
-        mimeType = webmTypes.find(type => MediaRecorder.isTypeSupported(type)) || 'video/webm';
-        videoBitsPerSecond = calculateBitrate(settings.exportWidth, settings.exportHeight, settings.exportQuality, settings.exportFps);
+        ppMimeType = webmTypes.find(type => MediaRecorder.isTypeSupported(type)) || 'video/webm';
+        ppVideoBitsPerSecond = calculateBitrate(settings.exportWidth, settings.exportHeight, settings.exportQuality, settings.exportFps);
       }
-      
-      const mediaRecorder = new MediaRecorder(recordingStream, {
-        mimeType,
-        videoBitsPerSecond,
-        audioBitsPerSecond: 128000,
+
+      const ppMediaRecorder = new MediaRecorder(ppRecordingStream, {
+        mimeType: ppMimeType,
+        videoBitsPerSecond: ppVideoBitsPerSecond,
       });
 
-      const chunks: Blob[] = [];
-      
-      mediaRecorder.ondataavailable = (e) => {
-        if (e.data.size > 0) {
-          chunks.push(e.data);
-        }
+      const ppChunks: Blob[] = [];
+      ppMediaRecorder.ondataavailable = (e) => {
+        if (e.data.size > 0) ppChunks.push(e.data);
       };
 
-      const startTime = Date.now();
-
-      mediaRecorder.start(100); // Collect data every 100ms
+      ppMediaRecorder.start(100);
+      ppVideoTrack.requestFrame();
 
-      // More precise frame-based stopping
-      const progressInterval = setInterval(() => {
-        const elapsed = Date.now() - startTime;
-        const progress = Math.min(elapsed / exactDurationMs, 1);
-        setExportProgress(progress);
+      // Play back pre-processed frames at correct FPS with precise timing
+      const startPlaybackTime = Date.now();
+      const playbackIndex = 1; // Frame 0 already drawn
 
-        // Stop when we've elapsed our stop duration (slightly before the loop boundary)
-        if (elapsed >= stopDurationMs || abortRef.current) {
-          clearInterval(progressInterval);
-          mediaRecorder.stop();
+      const scheduleFrame = (index: number) => {
+        if (index >= rawFrames.length || abortRef.current) {
+          // Hold the last frame for a full interval so it gets its proper duration
+          setTimeout(() => ppMediaRecorder.stop(), frameIntervalMs);
+          return;
         }
-      }, Math.max(5, frameIntervalMs / 2)); // Check at least every half-frame interval
 
-      // Wait for recording to complete
-      await new Promise<void>((resolve) => {
-        mediaRecorder.onstop = () => {
-          clearInterval(progressInterval);
+        ppCompCtx.putImageData(rawFrames[index], 0, 0);
+        ppVideoTrack.requestFrame();
+        setExportProgress(0.6 + (index / rawFrames.length) * 0.4);
 
-          // Clean up capture intervals if they exist
-          if ((recordingCanvas as any).__asciiCaptureInterval) {
-            clearInterval((recordingCanvas as any).__asciiCaptureInterval);
-          }
-          if ((recordingCanvas as any).__compositeCaptureInterval) {
-            clearInterval((recordingCanvas as any).__compositeCaptureInterval);
-          }
+        // Schedule next frame
+        const nextTime = startPlaybackTime + (index + 1) * frameIntervalMs;
+        const delay = Math.max(0, nextTime - Date.now());
+        setTimeout(() => scheduleFrame(index + 1), delay);
+      };
 
-          if (!abortRef.current && chunks.length > 0) {
-            const blob = new Blob(chunks, { type: mimeType });
+      // Start playback
+      await new Promise<void>((resolve) => {
+        ppMediaRecorder.onstop = () => {
+          if (!abortRef.current && ppChunks.length > 0) {
+            const blob = new Blob(ppChunks, { type: ppMimeType });
             const url = URL.createObjectURL(blob);
             const a = document.createElement('a');
             a.href = url;
-            
             const formatExt = settings.exportFormat === 'mp4' ? 'mp4' : 'webm';
             a.download = `loopforge-${settings.animationType}-${Date.now()}.${formatExt}`;
             document.body.appendChild(a);
@@ -725,9 +601,11 @@ export function useVideoExport() {
             document.body.removeChild(a);
             URL.revokeObjectURL(url);
           }
-
           resolve();
         };
+
+        const firstDelay = Math.max(0, startPlaybackTime + frameIntervalMs - Date.now());
+        setTimeout(() => scheduleFrame(playbackIndex), firstDelay);
       });
 
     } catch (error) {
@@ -737,12 +615,12 @@ export function useVideoExport() {
       setIsExporting(false);
       setExportProgress(0);
     }
-  }, [isExporting]);
+  }, [isExporting, verifyLoop]);
 
   const cancelExport = useCallback(() => {
     abortRef.current = true;
   }, []);
 
-  return { isExporting, exportProgress, exportVideo, cancelExport };
+  return { isExporting, exportProgress, exportVideo, cancelExport, loopReport, verifyLoop, dismissLoopReport, gifSummary };
 }
 
@@ -2,9 +2,17 @@ import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
 import "./index.css";
 import { App } from "./App";
+import { LoopClockContext } from "./hooks/useLoopClock";
+import { LoopClock } from "./utils/loopClock";
+import { defaultSettings } from "./presets";
+
+// One loop clock for the whole app - the scene, progress bar and exporter all read it
+const loopClock = new LoopClock(defaultSettings.loopDuration);
 
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
-    <App />
+    <LoopClockContext.Provider value={loopClock}>
+      <App />
+    </LoopClockContext.Provider>
   </StrictMode>
 );
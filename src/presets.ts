@@ -1,15 +1,25 @@
 import { Preset, AnimationSettings } from './types';
+import { createEffect } from './utils/effectStack';
 
 export const defaultSettings: AnimationSettings = {
   backgroundColor: '#0a0a0f',
   backgroundGradient: true,
   backgroundGradientColor: '#1a0a2e',
+  backgroundGradientType: 'linear',
+  backgroundGradientAngle: 0,
+  backgroundPattern: 'none',
+  backgroundPatternColor: '#ffffff',
+  backgroundPatternScale: 12,
+  backgroundPatternOpacity: 0.5,
+  backgroundSpeed: 0,
   geometryType: 'torusKnot',
   shapeCount: 1,
   shapeScale: 1,
   shapeColor: '#8b5cf6',
   shapeColor2: '#06b6d4',
   useGradientMaterial: true,
+  gradientMode: 'height',
+  gradientSweepSpeed: 1,
   wireframe: false,
   metalness: 0.8,
   roughness: 0.2,
@@ -33,38 +43,33 @@ export const defaultSettings: AnimationSettings = {
   horizontalAmplitude: 1,
   rotationMultiplier: 1,
   rotationAxis: 'y',
+  trailLength: 0,
+  trailSpacing: 0.05,
+  trailFade: 'opacity',
   cameraDistance: 6,
   cameraAutoRotate: false,
   cameraAutoRotateSpeed: 1,
   cameraPreset: 'custom',
-  // Render modes - ASCII
-  asciiEnabled: false,
-  asciiCharset: 'standard',
-  asciiResolution: 60,
-  asciiOpacity: 1,
-  asciiBackgroundOpacity: 1,
-  asciiTextColor: '#00ff00',
-  asciiFontSize: 12,
-  asciiFontWeight: 'bold',
-  asciiInvert: false,
-  asciiContrast: 1.2,
-  asciiGamma: 1.0,
-  asciiColorMode: true,
-  asciiBrightnessBoost: 1.0,
-  // Dithering & Palette Effects
-  ditheringEnabled: false,
-  ditheringType: 'bayer',
-  ditheringIntensity: 0.3,
-  ditheringResolution: 0.2,
-  paletteType: 'full',
-  pixelationEnabled: false,
-  pixelSize: 4,
+  // Scene post-processing
+  postProcessing: false,
+  bloomStrength: 1,
+  bloomThreshold: 0.2,
+  bloomRadius: 0.4,
+  chromaticAberration: 0,
+  vignette: 0,
+  filmGrain: 0,
+  // Post-processing
+  effects: [],
   exportWidth: 1080,
   exportHeight: 1080,
   exportFps: 60,
   exportFormat: 'webm',
   exportQuality: 'excellent',
   exportLoopCount: 1,
+  motionBlurSamples: 1,
+  motionBlurShutter: 180,
+  gifGlobalPalette: false,
+  gifPaletteSize: 256,
   seamlessLoopVerification: true,
 };
 
@@ -109,6 +114,11 @@ export const presets: Preset[] = [
       roughness: 0.1,
       backgroundColor: '#05050f',
       backgroundGradientColor: '#0f0520',
+      backgroundGradientType: 'radial',
+      backgroundPattern: 'starfield',
+      backgroundPatternScale: 24,
+      backgroundPatternOpacity: 0.8,
+      backgroundSpeed: 2,
       seamlessLoopVerification: true,
     },
   },
@@ -151,6 +161,13 @@ export const presets: Preset[] = [
       spread: 4,
       backgroundColor: '#020a08',
       backgroundGradientColor: '#051a15',
+      postProcessing: true,
+      bloomStrength: 1.4,
+      bloomThreshold: 0.1,
+      bloomRadius: 0.5,
+      chromaticAberration: 0.004,
+      vignette: 0.4,
+      filmGrain: 0.08,
       seamlessLoopVerification: false,
     },
   },
@@ -191,6 +208,8 @@ export const presets: Preset[] = [
       spread: 1,
       backgroundColor: '#0a0500',
       backgroundGradientColor: '#1a0f00',
+      backgroundGradientType: 'conic',
+      backgroundSpeed: 1,
       seamlessLoopVerification: false,
     },
   },
@@ -233,6 +252,10 @@ export const presets: Preset[] = [
       wireframe: true,
       backgroundColor: '#000a00',
       backgroundGradientColor: '#001a00',
+      backgroundPattern: 'grid',
+      backgroundPatternColor: '#14532d',
+      backgroundPatternScale: 16,
+      backgroundSpeed: 4,
       seamlessLoopVerification: false,
     },
   },
@@ -482,18 +505,21 @@ export const presets: Preset[] = [
       spread: 4,
       backgroundColor: '#000000',
       backgroundGradient: false,
-      asciiEnabled: true,
-      asciiCharset: 'blocks',
-      asciiResolution: 80,
-      asciiFontSize: 24,
-      asciiFontWeight: 'bold',
-      asciiOpacity: 1,
-      asciiBackgroundOpacity: 1,
-      asciiColorMode: true,
-      asciiContrast: 1.5,
-      asciiGamma: 0.8,
-      asciiBrightnessBoost: 1.5,
-      asciiInvert: false,
+      effects: [
+        createEffect('ascii', {
+          charset: 'blocks',
+          resolution: 80,
+          fontSize: 24,
+          fontWeight: 'bold',
+          opacity: 1,
+          backgroundOpacity: 1,
+          colorMode: true,
+          contrast: 1.5,
+          gamma: 0.8,
+          brightnessBoost: 1.5,
+          invert: false,
+        }),
+      ],
       seamlessLoopVerification: false,
     },
   },
@@ -566,6 +592,13 @@ export const presets: Preset[] = [
       frequency: 2.5,
       backgroundColor: '#020a08',
       backgroundGradientColor: '#051a15',
+      postProcessing: true,
+      bloomStrength: 1.4,
+      bloomThreshold: 0.1,
+      bloomRadius: 0.5,
+      chromaticAberration: 0.004,
+      vignette: 0.4,
+      filmGrain: 0.08,
       seamlessLoopVerification: false,
     },
   },
@@ -1048,13 +1081,11 @@ export const presets: Preset[] = [
       cameraDistance: 8,
       backgroundColor: '#40318d',
       backgroundGradient: false,
-      pixelationEnabled: true,
-      pixelSize: 6,
-      ditheringEnabled: true,
-      ditheringType: 'bayer',
-      ditheringIntensity: 0.4,
-      ditheringResolution: 0.3,
-      paletteType: 'commodore64',
+      effects: [
+        createEffect('dither', { ditheringType: 'bayer', intensity: 0.4, resolution: 0.3, paletteType: 'commodore64' }),
+        createEffect('hardware', { mode: 'c64multicolor' }),
+        createEffect('pixelate', { pixelSize: 6, aspect: 2 }),
+      ],
       seamlessLoopVerification: false,
     },
   },
@@ -1149,19 +1180,22 @@ export const presets: Preset[] = [
       cameraDistance: 6,
       backgroundColor: '#000000',
       backgroundGradient: false,
-      asciiEnabled: true,
-      asciiCharset: 'standard',
-      asciiResolution: 70,
-      asciiFontSize: 14,
-      asciiFontWeight: 'bold',
-      asciiOpacity: 1,
-      asciiBackgroundOpacity: 1,
-      asciiColorMode: false,
-      asciiTextColor: '#00ff00',
-      asciiContrast: 1.8,
-      asciiGamma: 0.7,
-      asciiBrightnessBoost: 1.5,
-      asciiInvert: false,
+      effects: [
+        createEffect('ascii', {
+          charset: 'standard',
+          resolution: 70,
+          fontSize: 14,
+          fontWeight: 'bold',
+          opacity: 1,
+          backgroundOpacity: 1,
+          colorMode: false,
+          textColor: '#00ff00',
+          contrast: 1.8,
+          gamma: 0.7,
+          brightnessBoost: 1.5,
+          invert: false,
+        }),
+      ],
       seamlessLoopVerification: false,
     },
   },
@@ -1194,9 +1228,10 @@ export const presets: Preset[] = [
       cameraDistance: 10,
       backgroundColor: '#000000',
       backgroundGradient: false,
-      pixelationEnabled: true,
-      pixelSize: 4,
-      paletteType: 'commodore64',
+      effects: [
+        createEffect('dither', { ditheringType: 'none', paletteType: 'commodore64' }),
+        createEffect('pixelate', { pixelSize: 4 }),
+      ],
       seamlessLoopVerification: false,
     },
   },
@@ -1228,9 +1263,11 @@ export const presets: Preset[] = [
       cameraDistance: 7,
       backgroundColor: '#000000',
       backgroundGradient: false,
-      pixelationEnabled: true,
-      pixelSize: 3,
-      paletteType: 'zxspectrum',
+      effects: [
+        createEffect('dither', { ditheringType: 'none', paletteType: 'zxspectrum' }),
+        createEffect('hardware', { mode: 'zxspectrum' }),
+        createEffect('pixelate', { pixelSize: 3 }),
+      ],
       seamlessLoopVerification: false,
     },
   },
@@ -1262,9 +1299,10 @@ export const presets: Preset[] = [
       cameraDistance: 5,
       backgroundColor: '#0f380f',
       backgroundGradient: false,
-      pixelationEnabled: true,
-      pixelSize: 4,
-      paletteType: 'gameboy',
+      effects: [
+        createEffect('dither', { ditheringType: 'none', paletteType: 'gameboy' }),
+        createEffect('pixelate', { pixelSize: 4 }),
+      ],
       seamlessLoopVerification: false,
     },
   },
@@ -1477,16 +1515,19 @@ export const presets: Preset[] = [
       cameraDistance: 5,
       backgroundColor: '#000000',
       backgroundGradient: false,
-      asciiEnabled: true,
-      asciiCharset: 'standard',
-      asciiResolution: 80,
-      asciiFontSize: 14,
-      asciiFontWeight: 'bold',
-      asciiColorMode: false,
-      asciiTextColor: '#00ff00',
-      asciiContrast: 1.8,
-      asciiGamma: 0.8,
-      asciiBrightnessBoost: 1.5,
+      effects: [
+        createEffect('ascii', {
+          charset: 'standard',
+          resolution: 80,
+          fontSize: 14,
+          fontWeight: 'bold',
+          colorMode: false,
+          textColor: '#00ff00',
+          contrast: 1.8,
+          gamma: 0.8,
+          brightnessBoost: 1.5,
+        }),
+      ],
       seamlessLoopVerification: false,
     },
   },
@@ -1,8 +1,19 @@
+import type { ColorDistanceMetric } from './utils/colorDistance';
+import type { DitheringType } from './utils/dithering';
+import type { PaletteId } from './utils/palettes';
+
 export interface AnimationSettings {
   // Scene
   backgroundColor: string;
   backgroundGradient: boolean;
   backgroundGradientColor: string;
+  backgroundGradientType: BackgroundGradientType;
+  backgroundGradientAngle: number; // degrees, 0 = top to bottom, 90 = left to right
+  backgroundPattern: BackgroundPattern;
+  backgroundPatternColor: string;
+  backgroundPatternScale: number; // pattern cells across the frame height
+  backgroundPatternOpacity: number; // 0-1
+  backgroundSpeed: number; // whole cycles per loop (gradient spin/ripple, pattern motion), 0 = still
 
   // Geometry
   geometryType: GeometryType;
@@ -10,7 +21,9 @@ export interface AnimationSettings {
   shapeScale: number;
   shapeColor: string;
   shapeColor2: string;
-  useGradientMaterial: boolean;
+  useGradientMaterial: boolean; // blend shapeColor → shapeColor2 across each shape
+  gradientMode: GradientMode;
+  gradientSweepSpeed: number; // whole sweeps per loop (sweep mode)
   wireframe: boolean;
   metalness: number;
   roughness: number;
@@ -38,35 +51,28 @@ export interface AnimationSettings {
   rotationMultiplier: number; // multiplier for rotation amount
   rotationAxis: 'x' | 'y' | 'z' | 'all'; // axis for rotation
 
+  // Trails
+  trailLength: number; // ghost copies per shape, 0 = no trail
+  trailSpacing: number; // seconds between ghosts
+  trailFade: 'opacity' | 'color'; // ghosts fade out, or blend towards the background color
+
   // Camera
   cameraDistance: number;
   cameraAutoRotate: boolean;
   cameraAutoRotateSpeed: number;
   cameraPreset: 'front' | 'top' | 'side' | 'isometric' | 'custom'; // camera preset positions
 
-  // Render modes - ASCII
-  asciiEnabled: boolean;
-  asciiCharset: 'standard' | 'dense' | 'minimal' | 'blocks' | 'braille';
-  asciiResolution: number;
-  asciiOpacity: number; // 0-1, opacity of ASCII text
-  asciiBackgroundOpacity: number; // 0-1, opacity of background
-  asciiTextColor: string; // hex color for monochrome mode
-  asciiFontSize: number; // pixels (now actually used!)
-  asciiFontWeight: 'normal' | 'bold'; // font weight
-  asciiInvert: boolean; // invert brightness
-  asciiContrast: number; // 0-3, adjust contrast
-  asciiGamma: number; // 0.5-2.0, gamma correction
-  asciiColorMode: boolean; // true = colored ASCII from scene, false = monochrome
-  asciiBrightnessBoost: number; // 0-2, additional brightness boost
-
-  // Dithering & Palette Effects
-  ditheringEnabled: boolean;
-  ditheringType: 'bayer' | 'floydSteinberg' | 'jjn' | 'stucki' | 'sierra';
-  ditheringIntensity: number; // 0-1
-  ditheringResolution: number; // 0.05-1.0, lower = faster, in proportion to canvas
-  paletteType: 'full' | 'nes' | 'gameboy' | 'commodore64' | 'atari2600' | 'zxspectrum' | 'amstradcpc' | 'apple2' | 'grayscale';
-  pixelationEnabled: boolean;
-  pixelSize: number; // pixels per block (1-32)
+  // Scene post-processing - rendered with the 3D scene, before the effect stack
+  postProcessing: boolean;
+  bloomStrength: number; // 0-3, 0 = no bloom
+  bloomThreshold: number; // 0-1, luminance above which pixels glow
+  bloomRadius: number; // 0-1
+  chromaticAberration: number; // 0-0.02, red/blue split at the edges (in UV)
+  vignette: number; // 0-1
+  filmGrain: number; // 0-1
+
+  // Post-processing - applied in order to every preview and export frame
+  effects: EffectConfig[];
 
   // Export
   exportWidth: number;
@@ -75,9 +81,104 @@ export interface AnimationSettings {
   exportFormat: 'webm' | 'mp4' | 'gif';
   exportQuality: 'good' | 'excellent' | 'maximum';
   exportLoopCount: number;
+  motionBlurSamples: number; // sub-frames rendered and averaged per export frame, 1 = no motion blur
+  motionBlurShutter: number; // shutter angle in degrees (0-360) - the part of each frame interval the sub-frames span
+  gifGlobalPalette: boolean; // one palette for the whole loop instead of per-frame quantization
+  gifPaletteSize: number; // 2-256, colors in the adaptive global palette
   seamlessLoopVerification: boolean;
 }
 
+export type EffectType = 'dither' | 'hardware' | 'paletteCycle' | 'pixelate' | 'cleanup' | 'crt' | 'ascii';
+
+export interface DitherEffectParams {
+  ditheringType: DitheringType; // 'none' = palette reduction only
+  intensity: number; // 0-1
+  resolution: number; // 0.05-1.0, lower = faster, in proportion to canvas
+  serpentine: boolean; // alternate scan direction per row for error-diffusion types
+  temporalStability: boolean; // keep the dither pattern anchored where the image is static
+  paletteType: PaletteId;
+  colorDistance: ColorDistanceMetric; // metric used to match colors to the palette
+}
+
+export interface HardwareEffectParams {
+  mode: 'zxspectrum' | 'c64multicolor' | 'cga' | 'ega' | 'nes'; // per-cell color limits, with the hardware's own palette
+  colorDistance: ColorDistanceMetric;
+}
+
+export interface PaletteCycleEffectParams {
+  ranges: Array<{ start: number; end: number; reverse: boolean }>; // inclusive indices into the reduced palette
+  period: number; // seconds per full rotation, snapped to divide loopDuration
+}
+
+export interface PixelateEffectParams {
+  pixelSize: number; // block height in pixels (1-32)
+  aspect: number; // block width / height - 2 = double-wide pixels like C64 multicolor
+  sampling: 'corner' | 'average' | 'median' | 'dominant' | 'edge'; // how a block's color is picked from its pixels
+  snapToExport: boolean; // pixelSize counts export pixels, so the preview shows the export's block grid
+}
+
+export interface CleanupEffectParams {
+  removeOrphans: boolean; // merge blocks that match none of their neighbours into their surroundings
+  outline: boolean;
+  outlineColor: string; // hex color
+  outlineThickness: number; // blocks (1-4)
+  innerHighlight: number; // 0-1, lightens the top/left inner edge of shapes, 0 = off
+  backgroundTolerance: number; // 0-1, how far from backgroundColor still counts as background
+}
+
+export interface CrtEffectParams {
+  scanlines: number; // 0-1, darkness between scanlines
+  scanlineSpacing: number; // pixels per scanline (2-8)
+  mask: 'none' | 'apertureGrille' | 'shadowMask';
+  maskStrength: number; // 0-1
+  curvature: number; // 0-0.5, barrel distortion
+  vignette: number; // 0-1
+  bloom: number; // 0-1
+  persistence: number; // ms for the phosphor glow to fade to ~37%, 0 = off
+  noise: number; // 0-1, static
+  flicker: number; // 0-1, brightness flicker
+  flickerRate: number; // Hz, snapped so whole flickers fit the loop
+}
+
+export interface AsciiEffectParams {
+  charset: 'standard' | 'dense' | 'minimal' | 'blocks' | 'braille';
+  resolution: number;
+  opacity: number; // 0-1, opacity of ASCII text
+  backgroundOpacity: number; // 0-1, opacity of background
+  textColor: string; // hex color for monochrome mode
+  fontSize: number; // pixels
+  fontWeight: 'normal' | 'bold';
+  invert: boolean; // invert brightness
+  contrast: number; // 0-3, adjust contrast
+  gamma: number; // 0.5-2.0, gamma correction
+  colorMode: boolean; // true = colored ASCII from scene, false = monochrome
+  brightnessBoost: number; // 0-2, additional brightness boost
+}
+
+interface EffectEntry<T extends EffectType, P> {
+  id: string; // stable per entry, so duplicates keep their own state (e.g. temporal dithering)
+  type: T;
+  enabled: boolean;
+  params: P;
+}
+
+export type EffectConfig =
+  | EffectEntry<'dither', DitherEffectParams>
+  | EffectEntry<'hardware', HardwareEffectParams>
+  | EffectEntry<'paletteCycle', PaletteCycleEffectParams>
+  | EffectEntry<'pixelate', PixelateEffectParams>
+  | EffectEntry<'cleanup', CleanupEffectParams>
+  | EffectEntry<'crt', CrtEffectParams>
+  | EffectEntry<'ascii', AsciiEffectParams>;
+
+export type EffectParams<T extends EffectType> = Extract<EffectConfig, { type: T }>['params'];
+
+export type BackgroundGradientType = 'linear' | 'radial' | 'conic';
+
+export type BackgroundPattern = 'none' | 'noise' | 'starfield' | 'grid' | 'checkerboard';
+
+export type GradientMode = 'height' | 'radial' | 'normal' | 'sweep';
+
 export type GeometryType =
   | 'torus'
   | 'torusKnot'
@@ -36,6 +36,7 @@ export interface ASCIIRenderOptions {
   colorMode?: boolean;      // true = use original colors, false = monochrome
   textColor?: string;       // hex color for monochrome mode
   backgroundColor?: string; // hex background
+  backgroundAt?: (x: number, y: number) => [number, number, number]; // background behind a pixel, when it isn't flat
   gamma?: number;           // gamma correction (0.5-2.0)
 }
 
@@ -69,6 +70,7 @@ export function imageDataToASCIICells(
     contrast = 1.2,
     gamma = 1.0,
     backgroundColor = '#000000',
+    backgroundAt,
   } = options;
 
   const chars = charsets[charset] || charsets.standard;
@@ -101,6 +103,7 @@ export function imageDataToASCIICells(
       const x1 = Math.min(x0 + cellW, width);
 
       let totalR = 0, totalG = 0, totalB = 0;
+      let bgTotalR = 0, bgTotalG = 0, bgTotalB = 0;
       let sampleCount = 0;
 
       // Reduced sampling: sample every 2nd pixel instead of every Nth
@@ -114,6 +117,12 @@ export function imageDataToASCIICells(
           totalR += data[idx];
           totalG += data[idx + 1];
           totalB += data[idx + 2];
+          if (backgroundAt) {
+            const [r, g, b] = backgroundAt(px + 0.5, py + 0.5);
+            bgTotalR += r;
+            bgTotalG += g;
+            bgTotalB += b;
+          }
           sampleCount++;
         }
       }
@@ -129,8 +138,12 @@ export function imageDataToASCIICells(
       const avgB = totalB * sampleCountRecip;
 
       // Check if pixel is background color (with tolerance for anti-aliasing)
-      // If so, render as space to avoid ASCII artifacts on empty background
-      const colorDiff = Math.abs(avgR - bgR) + Math.abs(avgG - bgG) + Math.abs(avgB - bgB);
+      // If so, render as space to avoid ASCII artifacts on empty background.
+      // Gradient/pattern backgrounds are averaged over the same samples as the cell.
+      const cellBgR = backgroundAt ? bgTotalR * sampleCountRecip : bgR;
+      const cellBgG = backgroundAt ? bgTotalG * sampleCountRecip : bgG;
+      const cellBgB = backgroundAt ? bgTotalB * sampleCountRecip : bgB;
+      const colorDiff = Math.abs(avgR - cellBgR) + Math.abs(avgG - cellBgG) + Math.abs(avgB - cellBgB);
       if (colorDiff < 15) {
         // Pixel is background color, render as space
         rowCells.push({ char: ' ', r: avgR | 0, g: avgG | 0, b: avgB | 0, brightness: 0 });
@@ -208,15 +221,12 @@ function boostColor(r: number, g: number, b: number, brightness: number, brightn
   ];
 }
 
-// Font cache to avoid repeated allocation
-let cachedFont = '';
-
 /**
  * Renders ASCII frame data onto a 2D canvas (Optimized).
  * This completely replaces the 3D view — no overlay or blending.
  */
 export function renderASCIIToCanvas(
-  ctx: CanvasRenderingContext2D,
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
   frame: ASCIIFrameData,
   canvasWidth: number,
   canvasHeight: number,
@@ -261,12 +271,8 @@ export function renderASCIIToCanvas(
     actualFontSize = Math.max(4, fitFontSize) | 0;
   }
 
-  // Only set font if it changed (avoid unnecessary style changes)
-  const fontStr = `${fontWeight} ${actualFontSize}px "Courier New", Consolas, monospace`;
-  if (cachedFont !== fontStr) {
-    cachedFont = fontStr;
-    ctx.font = fontStr;
-  }
+  // Set every frame: the context may be shared, and resizing its canvas resets the font
+  ctx.font = `${fontWeight} ${actualFontSize}px "Courier New", Consolas, monospace`;
 
   ctx.textBaseline = 'middle';
   ctx.textAlign = 'center';
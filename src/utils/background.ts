@@ -0,0 +1,342 @@
+/**
+ * Scene background
+ * Gradients (linear, radial, conic) and procedural patterns (noise, starfield, grid, checkerboard),
+ * drawn behind the scene by a fullscreen shader. The same math runs on the CPU so effects that look
+ * for the background (ASCII) can tell it apart from the shapes. Everything moves a whole number of
+ * cycles per loop, so the background repeats exactly with loopDuration.
+ *
+ * Positions are measured in the export crop (the largest centered region with the export's aspect
+ * ratio), so the preview at any size and the exported frames show the same background.
+ */
+
+import type { AnimationSettings, BackgroundGradientType, BackgroundPattern } from '../types';
+
+type RGB = [number, number, number];
+
+export const backgroundGradientTypeList: { value: BackgroundGradientType; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'radial', label: 'Radial' },
+  { value: 'conic', label: 'Conic' },
+];
+
+export const backgroundPatternList: { value: BackgroundPattern; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'noise', label: 'Noise' },
+  { value: 'starfield', label: 'Starfield' },
+  { value: 'grid', label: 'Grid' },
+  { value: 'checkerboard', label: 'Checkerboard' },
+];
+
+export type BackgroundSettings = Pick<
+  AnimationSettings,
+  | 'backgroundColor'
+  | 'backgroundGradient'
+  | 'backgroundGradientColor'
+  | 'backgroundGradientType'
+  | 'backgroundGradientAngle'
+  | 'backgroundPattern'
+  | 'backgroundPatternColor'
+  | 'backgroundPatternScale'
+  | 'backgroundPatternOpacity'
+  | 'backgroundSpeed'
+>;
+
+/**
+ * Only the background fields of a settings object (e.g. to send to a worker)
+ */
+export function pickBackgroundSettings(settings: BackgroundSettings): BackgroundSettings {
+  return {
+    backgroundColor: settings.backgroundColor,
+    backgroundGradient: settings.backgroundGradient,
+    backgroundGradientColor: settings.backgroundGradientColor,
+    backgroundGradientType: settings.backgroundGradientType,
+    backgroundGradientAngle: settings.backgroundGradientAngle,
+    backgroundPattern: settings.backgroundPattern,
+    backgroundPatternColor: settings.backgroundPatternColor,
+    backgroundPatternScale: settings.backgroundPatternScale,
+    backgroundPatternOpacity: settings.backgroundPatternOpacity,
+    backgroundSpeed: settings.backgroundSpeed,
+  };
+}
+
+/**
+ * Whether the background is just backgroundColor (no gradient, no visible pattern)
+ */
+export function isFlatBackground(settings: BackgroundSettings): boolean {
+  return !settings.backgroundGradient && (settings.backgroundPattern === 'none' || settings.backgroundPatternOpacity <= 0);
+}
+
+// Pattern coordinates are offset so lattice cells stay positive (the GPU hash works on unsigned ints)
+const LATTICE_OFFSET = 1024;
+// Noise drifts around a circle of this radius (in cells) once per cycle
+const NOISE_DRIFT = 2;
+const STAR_RADIUS = 0.08; // in cells
+const GRID_LINE_WIDTH = 0.04; // in cells
+
+function hexToRGB(hex: string): RGB {
+  const h = hex.replace('#', '');
+  return [
+    parseInt(h.substring(0, 2), 16) || 0,
+    parseInt(h.substring(2, 4), 16) || 0,
+    parseInt(h.substring(4, 6), 16) || 0,
+  ];
+}
+
+// Keep in sync with hash() in the fragment shader
+function hash(x: number, y: number, seed: number): number {
+  let h = Math.imul(x, 374761393) + Math.imul(y, 668265263) + Math.imul(seed, 2246822519);
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+}
+
+function valueNoise(x: number, y: number, seed: number): number {
+  const ix = Math.floor(x);
+  const iy = Math.floor(y);
+  const fx = x - ix;
+  const fy = y - iy;
+  const u = fx * fx * (3 - 2 * fx);
+  const v = fy * fy * (3 - 2 * fy);
+  const top = hash(ix, iy, seed) + (hash(ix + 1, iy, seed) - hash(ix, iy, seed)) * u;
+  const bottom = hash(ix, iy + 1, seed) + (hash(ix + 1, iy + 1, seed) - hash(ix, iy + 1, seed)) * u;
+  return top + (bottom - top) * v;
+}
+
+/**
+ * Position along the gradient (0 = backgroundColor, 1 = backgroundGradientColor) at p, in crop heights
+ * from the crop center (y down)
+ */
+function gradientAt(settings: BackgroundSettings, px: number, py: number, aspect: number, loopT: number): number {
+  const cycle = settings.backgroundSpeed * loopT;
+  const angle = (settings.backgroundGradientAngle * Math.PI) / 180 + 2 * Math.PI * cycle;
+
+  switch (settings.backgroundGradientType) {
+    case 'radial': {
+      // Rings ripple outward by one full ring (out and back) per cycle, mirrored so there's no hard edge
+      const f = Math.hypot(px, py) / Math.hypot(aspect / 2, 0.5) - 2 * cycle;
+      return 1 - Math.abs(2 * (f / 2 - Math.floor(f / 2)) - 1);
+    }
+    case 'conic': {
+      // Mirrored around the circle so there's no seam
+      const turn = (Math.atan2(py, px) - angle) / (2 * Math.PI);
+      return 1 - Math.abs(2 * (turn - Math.floor(turn)) - 1);
+    }
+    default: {
+      const dx = Math.sin(angle);
+      const dy = Math.cos(angle);
+      const extent = Math.abs(dx) * aspect + Math.abs(dy);
+      return Math.max(0, Math.min(1, (px * dx + py * dy) / extent + 0.5));
+    }
+  }
+}
+
+/**
+ * Pattern coverage (0-1) at p, in crop heights from the crop center; pixel = one pixel in crop heights
+ */
+function patternAt(settings: BackgroundSettings, px: number, py: number, pixel: number, loopT: number): number {
+  const scale = settings.backgroundPatternScale;
+  const cycle = settings.backgroundSpeed * loopT;
+  const qx = px * scale + LATTICE_OFFSET;
+  const qy = py * scale + LATTICE_OFFSET;
+
+  switch (settings.backgroundPattern) {
+    case 'noise': {
+      const nx = qx + NOISE_DRIFT * Math.cos(2 * Math.PI * cycle);
+      const ny = qy + NOISE_DRIFT * Math.sin(2 * Math.PI * cycle);
+      return (valueNoise(nx, ny, 0) * 0.5 + valueNoise(nx * 2, ny * 2, 1) * 0.25 + valueNoise(nx * 4, ny * 4, 2) * 0.125) / 0.875;
+    }
+    case 'starfield': {
+      // At most one star per cell, away from the cell edges; each twinkles `cycle` times per loop
+      const cx = Math.floor(qx);
+      const cy = Math.floor(qy);
+      if (hash(cx, cy, 0) > 0.4) return 0;
+      const sx = cx + 0.2 + 0.6 * hash(cx, cy, 1);
+      const sy = cy + 0.2 + 0.6 * hash(cx, cy, 2);
+      const glow = 1 - smoothstep(0, STAR_RADIUS, Math.hypot(qx - sx, qy - sy));
+      return glow * (0.6 + 0.4 * Math.sin(2 * Math.PI * (cycle + hash(cx, cy, 3))));
+    }
+    case 'grid': {
+      // Scrolls down one cell per cycle
+      const gx = qx - Math.floor(qx);
+      const gy = qy - cycle - Math.floor(qy - cycle);
+      const toLine = Math.min(gx, 1 - gx, gy, 1 - gy);
+      return 1 - smoothstep(GRID_LINE_WIDTH, GRID_LINE_WIDTH + pixel * scale, toLine);
+    }
+    case 'checkerboard': {
+      // Moves diagonally by one full checker period (two cells) per cycle
+      const sum = Math.floor(qx - 2 * cycle) + Math.floor(qy - 2 * cycle);
+      return sum - 2 * Math.floor(sum / 2);
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Background color (0-255 RGB) at frame pixel (x, y) of a width × height frame, at loop position loopT
+ */
+export function createBackgroundSampler(
+  settings: BackgroundSettings,
+  width: number,
+  height: number,
+  exportWidth: number,
+  exportHeight: number,
+  loopT: number
+): (x: number, y: number) => RGB {
+  const cropWidth = Math.min(width, height * exportWidth / exportHeight);
+  const cropHeight = cropWidth * exportHeight / exportWidth;
+  const aspect = cropWidth / cropHeight;
+  const pixel = 1 / cropHeight;
+
+  const base = hexToRGB(settings.backgroundColor);
+  const second = hexToRGB(settings.backgroundGradientColor);
+  const pattern = hexToRGB(settings.backgroundPatternColor);
+  const opacity = settings.backgroundPattern === 'none' ? 0 : settings.backgroundPatternOpacity;
+
+  return (x, y) => {
+    const px = (x - width / 2) * pixel;
+    const py = (y - height / 2) * pixel;
+    const f = settings.backgroundGradient ? gradientAt(settings, px, py, aspect, loopT) : 0;
+    const amount = opacity > 0 ? patternAt(settings, px, py, pixel, loopT) * opacity : 0;
+    return [0, 1, 2].map(c => {
+      const color = base[c] + (second[c] - base[c]) * f;
+      return color + (pattern[c] - color) * amount;
+    }) as RGB;
+  };
+}
+
+const backgroundPatternIndex: Record<BackgroundPattern, number> = {
+  none: 0,
+  noise: 1,
+  starfield: 2,
+  grid: 3,
+  checkerboard: 4,
+};
+
+const backgroundGradientIndex: Record<BackgroundGradientType, number> = {
+  linear: 0,
+  radial: 1,
+  conic: 2,
+};
+
+/**
+ * Uniform values for backgroundFragmentShader. Colors are raw sRGB - the shader mixes in sRGB like
+ * the CPU sampler and converts at the end.
+ */
+export function getBackgroundUniforms(settings: BackgroundSettings): Record<string, number | number[]> {
+  const toVector = (hex: string) => hexToRGB(hex).map(c => c / 255);
+  return {
+    uColor: toVector(settings.backgroundColor),
+    uGradientColor: toVector(settings.backgroundGradientColor),
+    uPatternColor: toVector(settings.backgroundPatternColor),
+    uGradient: settings.backgroundGradient ? backgroundGradientIndex[settings.backgroundGradientType] + 1 : 0,
+    uAngle: (settings.backgroundGradientAngle * Math.PI) / 180,
+    uPattern: backgroundPatternIndex[settings.backgroundPattern],
+    uPatternScale: settings.backgroundPatternScale,
+    uPatternOpacity: settings.backgroundPatternOpacity,
+    uSpeed: settings.backgroundSpeed,
+  };
+}
+
+export const backgroundVertexShader = /* glsl */ `
+  void main() {
+    // A fullscreen quad at the far plane, whatever the camera
+    gl_Position = vec4(position.xy, 1.0, 1.0);
+  }`;
+
+// GLSL port of createBackgroundSampler - keep the two in sync
+export const backgroundFragmentShader = /* glsl */ `
+  uniform vec2 uResolution;
+  uniform float uExportAspect;
+  uniform float uLoopT;
+  uniform vec3 uColor;
+  uniform vec3 uGradientColor;
+  uniform vec3 uPatternColor;
+  uniform int uGradient; // 0 = off, 1 = linear, 2 = radial, 3 = conic
+  uniform float uAngle;
+  uniform int uPattern; // 0 = none, 1 = noise, 2 = starfield, 3 = grid, 4 = checkerboard
+  uniform float uPatternScale;
+  uniform float uPatternOpacity;
+  uniform float uSpeed;
+
+  const float PI = 3.14159265359;
+  const float LATTICE_OFFSET = ${LATTICE_OFFSET.toFixed(1)};
+  const float NOISE_DRIFT = ${NOISE_DRIFT.toFixed(1)};
+  const float STAR_RADIUS = ${STAR_RADIUS};
+  const float GRID_LINE_WIDTH = ${GRID_LINE_WIDTH};
+
+  float hash(vec2 cell, uint seed) {
+    uint h = uint(int(cell.x)) * 374761393u + uint(int(cell.y)) * 668265263u + seed * 2246822519u;
+    h = (h ^ (h >> 13u)) * 1274126177u;
+    return float(h ^ (h >> 16u)) / 4294967296.0;
+  }
+
+  float valueNoise(vec2 q, uint seed) {
+    vec2 i = floor(q);
+    vec2 f = q - i;
+    vec2 u = f * f * (3.0 - 2.0 * f);
+    float top = mix(hash(i, seed), hash(i + vec2(1.0, 0.0), seed), u.x);
+    float bottom = mix(hash(i + vec2(0.0, 1.0), seed), hash(i + vec2(1.0, 1.0), seed), u.x);
+    return mix(top, bottom, u.y);
+  }
+
+  float gradientAt(vec2 p, float aspect, float cycle) {
+    float angle = uAngle + 2.0 * PI * cycle;
+    if (uGradient == 2) {
+      float f = length(p) / length(vec2(aspect * 0.5, 0.5)) - 2.0 * cycle;
+      return 1.0 - abs(2.0 * fract(f * 0.5) - 1.0);
+    }
+    if (uGradient == 3) {
+      float turn = (atan(p.y, p.x) - angle) / (2.0 * PI);
+      return 1.0 - abs(2.0 * fract(turn) - 1.0);
+    }
+    vec2 direction = vec2(sin(angle), cos(angle));
+    float extent = abs(direction.x) * aspect + abs(direction.y);
+    return clamp(dot(p, direction) / extent + 0.5, 0.0, 1.0);
+  }
+
+  float patternAt(vec2 p, float pixel, float cycle) {
+    vec2 q = p * uPatternScale + LATTICE_OFFSET;
+    if (uPattern == 1) {
+      vec2 n = q + NOISE_DRIFT * vec2(cos(2.0 * PI * cycle), sin(2.0 * PI * cycle));
+      return (valueNoise(n, 0u) * 0.5 + valueNoise(n * 2.0, 1u) * 0.25 + valueNoise(n * 4.0, 2u) * 0.125) / 0.875;
+    }
+    if (uPattern == 2) {
+      vec2 cell = floor(q);
+      if (hash(cell, 0u) > 0.4) return 0.0;
+      vec2 star = cell + 0.2 + 0.6 * vec2(hash(cell, 1u), hash(cell, 2u));
+      float glow = 1.0 - smoothstep(0.0, STAR_RADIUS, length(q - star));
+      return glow * (0.6 + 0.4 * sin(2.0 * PI * (cycle + hash(cell, 3u))));
+    }
+    if (uPattern == 3) {
+      vec2 g = fract(q - vec2(0.0, cycle));
+      float toLine = min(min(g.x, 1.0 - g.x), min(g.y, 1.0 - g.y));
+      return 1.0 - smoothstep(GRID_LINE_WIDTH, GRID_LINE_WIDTH + pixel * uPatternScale, toLine);
+    }
+    if (uPattern == 4) {
+      vec2 cell = floor(q - 2.0 * cycle);
+      return mod(cell.x + cell.y, 2.0);
+    }
+    return 0.0;
+  }
+
+  void main() {
+    float cropWidth = min(uResolution.x, uResolution.y * uExportAspect);
+    float cropHeight = cropWidth / uExportAspect;
+    float pixel = 1.0 / cropHeight;
+    // Frame pixel position with a top-left origin, like the CPU sampler's image rows
+    vec2 framePixel = vec2(gl_FragCoord.x, uResolution.y - gl_FragCoord.y);
+    vec2 p = (framePixel - uResolution * 0.5) * pixel;
+    float cycle = uSpeed * uLoopT;
+
+    vec3 color = uColor;
+    if (uGradient > 0) color = mix(uColor, uGradientColor, gradientAt(p, cropWidth / cropHeight, cycle));
+    if (uPattern > 0) color = mix(color, uPatternColor, patternAt(p, pixel, cycle) * uPatternOpacity);
+
+    gl_FragColor = sRGBTransferEOTF(vec4(color, 1.0));
+    #include <colorspace_fragment>
+  }`;
@@ -0,0 +1,207 @@
+/**
+ * CRT display simulation
+ * Barrel distortion, bloom, phosphor persistence, scanlines, an aperture-grille or shadow mask,
+ * static, flicker and vignette in one pass over the frame. Static and flicker are functions of the
+ * loop position (whole numbers of them per loop), so they repeat exactly with loopDuration.
+ */
+
+import type { CrtEffectParams } from '../types';
+import { getCyclesPerLoop } from './paletteCycling';
+
+// Static changes pattern at roughly this rate, snapped to a whole number of patterns per loop
+const NOISE_RATE = 24;
+// Bloom is blurred at 1/BLOOM_SCALE resolution
+const BLOOM_SCALE = 4;
+const BLOOM_THRESHOLD = 150;
+
+/**
+ * Phosphor glow of the previous output frame, carried between frames for persistence
+ */
+export class PhosphorState {
+  private glow: Float32Array | null = null;
+  private lastLoopT = 0;
+
+  reset(): void {
+    this.glow = null;
+  }
+
+  /**
+   * Glow buffer for a frame of this size (null on the first frame) and the seconds since the last frame
+   */
+  advance(length: number, loopT: number, loopDuration: number): { glow: Float32Array | null; elapsed: number } {
+    // Wrap-aware, so the glow carries from the loop's last frame into its first
+    const elapsed = (((loopT - this.lastLoopT) % 1 + 1) % 1) * loopDuration;
+    this.lastLoopT = loopT;
+    const glow = this.glow?.length === length ? this.glow : null;
+    return { glow, elapsed };
+  }
+
+  store(glow: Float32Array): void {
+    this.glow = glow;
+  }
+}
+
+/**
+ * How much of the loop's end to run before its first frame, so persistence starts with the glow
+ * the loop's last frames leave behind
+ */
+export function getPersistenceWarmupSeconds(params: CrtEffectParams): number {
+  // Glow below 1/255 is invisible: exp(-t / tau) < 1/255
+  return params.persistence > 0 ? (params.persistence / 1000) * Math.log(255) : 0;
+}
+
+function hash(x: number, y: number, seed: number): number {
+  let h = Math.imul(x, 374761393) + Math.imul(y, 668265263) + Math.imul(seed, 2246822519);
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+}
+
+/**
+ * Bright-pass of the frame, downsampled and box-blurred - added back on top as bloom
+ */
+function computeBloom(source: Uint8ClampedArray, width: number, height: number): { data: Float32Array; width: number; height: number } {
+  const bw = Math.max(1, Math.ceil(width / BLOOM_SCALE));
+  const bh = Math.max(1, Math.ceil(height / BLOOM_SCALE));
+  let bloom = new Float32Array(bw * bh * 3);
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / BLOOM_SCALE) * bw;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const luma = source[i] * 0.299 + source[i + 1] * 0.587 + source[i + 2] * 0.114;
+      if (luma < BLOOM_THRESHOLD) continue;
+      const b = (row + Math.floor(x / BLOOM_SCALE)) * 3;
+      const weight = (luma - BLOOM_THRESHOLD) / (255 - BLOOM_THRESHOLD) / (BLOOM_SCALE * BLOOM_SCALE);
+      bloom[b] += source[i] * weight;
+      bloom[b + 1] += source[i + 1] * weight;
+      bloom[b + 2] += source[i + 2] * weight;
+    }
+  }
+
+  // Two separable box blurs ≈ a soft tent
+  const radius = 2;
+  for (let pass = 0; pass < 2; pass++) {
+    for (const horizontal of [true, false]) {
+      const out = new Float32Array(bloom.length);
+      const length = horizontal ? bw : bh;
+      const lines = horizontal ? bh : bw;
+      for (let line = 0; line < lines; line++) {
+        for (let p = 0; p < length; p++) {
+          let r = 0, g = 0, b = 0, n = 0;
+          for (let k = Math.max(0, p - radius); k <= Math.min(length - 1, p + radius); k++) {
+            const j = (horizontal ? line * bw + k : k * bw + line) * 3;
+            r += bloom[j]; g += bloom[j + 1]; b += bloom[j + 2]; n++;
+          }
+          const o = (horizontal ? line * bw + p : p * bw + line) * 3;
+          out[o] = r / n; out[o + 1] = g / n; out[o + 2] = b / n;
+        }
+      }
+      bloom = out;
+    }
+  }
+
+  return { data: bloom, width: bw, height: bh };
+}
+
+/**
+ * Run the CRT simulation on raw RGBA data in place
+ */
+export function applyCRT(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  params: CrtEffectParams,
+  loopT: number,
+  loopDuration: number,
+  state?: PhosphorState
+): void {
+  const source = data.slice();
+  const bloom = params.bloom > 0 ? computeBloom(source, width, height) : null;
+
+  // Persistence: each pixel keeps the brighter of its new value and the previous glow, faded
+  const phosphor = params.persistence > 0 && state ? state.advance(width * height * 3, loopT, loopDuration) : null;
+  const fade = phosphor ? Math.exp(-phosphor.elapsed / (params.persistence / 1000)) : 0;
+  const glow = phosphor ? new Float32Array(width * height * 3) : null;
+
+  const flickerCycles = getCyclesPerLoop(params.flickerRate > 0 ? 1 / params.flickerRate : 0, loopDuration);
+  const brightness = 1 - params.flicker * 0.15 * (0.5 + 0.5 * Math.sin(2 * Math.PI * flickerCycles * loopT));
+  const noiseFrames = getCyclesPerLoop(1 / NOISE_RATE, loopDuration);
+  const noiseSeed = Math.floor(loopT * noiseFrames) % noiseFrames;
+
+  const spacing = Math.max(1, params.scanlineSpacing);
+  const maskStrength = params.mask === 'none' ? 0 : params.maskStrength;
+  // Keep average brightness: the mask leaves one channel of three at full strength
+  const maskGain = 1 / (1 - (maskStrength * 2) / 3);
+  const halfW = width / 2;
+  const halfH = height / 2;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+
+      // Barrel distortion: sample further out the further from the center
+      const nx = (x + 0.5 - halfW) / halfW;
+      const ny = (y + 0.5 - halfH) / halfH;
+      const bend = 1 + params.curvature * (nx * nx + ny * ny);
+      const u = nx * bend;
+      const v = ny * bend;
+      if (u < -1 || u > 1 || v < -1 || v > 1) {
+        data[o] = data[o + 1] = data[o + 2] = 0;
+        data[o + 3] = 255;
+        if (glow) glow.fill(0, (y * width + x) * 3, (y * width + x) * 3 + 3);
+        continue;
+      }
+      const sx = Math.min(width - 1, Math.floor((u + 1) * halfW));
+      const sy = Math.min(height - 1, Math.floor((v + 1) * halfH));
+      const s = (sy * width + sx) * 4;
+
+      let r = source[s];
+      let g = source[s + 1];
+      let b = source[s + 2];
+
+      if (bloom) {
+        const bi = (Math.floor(sy / BLOOM_SCALE) * bloom.width + Math.floor(sx / BLOOM_SCALE)) * 3;
+        const amount = params.bloom * 2;
+        r += bloom.data[bi] * amount;
+        g += bloom.data[bi + 1] * amount;
+        b += bloom.data[bi + 2] * amount;
+      }
+
+      if (glow) {
+        const p = (y * width + x) * 3;
+        if (phosphor?.glow) {
+          r = Math.max(r, phosphor.glow[p] * fade);
+          g = Math.max(g, phosphor.glow[p + 1] * fade);
+          b = Math.max(b, phosphor.glow[p + 2] * fade);
+        }
+        glow[p] = r;
+        glow[p + 1] = g;
+        glow[p + 2] = b;
+      }
+
+      // Scanlines follow the curved screen: brightest mid-line, darkest between lines
+      const line = Math.sin((Math.PI * (sy % spacing + 0.5)) / spacing);
+      let factor = (1 - params.scanlines * (1 - line)) * brightness;
+
+      // Vignette
+      factor *= 1 - params.vignette * Math.min(1, (u * u + v * v) / 2);
+
+      if (maskStrength > 0) {
+        // Aperture grille: vertical RGB stripes. Shadow mask: triads shifted on alternate row pairs.
+        const phase = params.mask === 'shadowMask' ? (x + ((y >> 1) & 1) * 2) % 3 : x % 3;
+        const dim = 1 - maskStrength;
+        r *= (phase === 0 ? 1 : dim) * maskGain;
+        g *= (phase === 1 ? 1 : dim) * maskGain;
+        b *= (phase === 2 ? 1 : dim) * maskGain;
+      }
+
+      const noise = params.noise > 0 ? (hash(x, y, noiseSeed) - 0.5) * params.noise * 96 : 0;
+      data[o] = r * factor + noise;
+      data[o + 1] = g * factor + noise;
+      data[o + 2] = b * factor + noise;
+      data[o + 3] = 255;
+    }
+  }
+
+  if (glow && state) state.store(glow);
+}
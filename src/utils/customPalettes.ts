@@ -0,0 +1,107 @@
+/**
+ * User-defined palettes
+ * Kept in localStorage and resolved next to the built-in palettes by getPalette().
+ * Every edit replaces the palette's colors array, so per-palette caches keyed by that array
+ * (palette LUTs, GPU palette textures) pick up the change automatically.
+ */
+
+import type { Palette } from './palettes';
+
+export type CustomPaletteId = `custom-${string}`;
+
+export interface CustomPalette extends Palette {
+  id: CustomPaletteId;
+}
+
+type CustomPaletteListener = () => void;
+
+const STORAGE_KEY = 'loopforge-custom-palettes';
+// GIF frames can't hold more colors than this, so neither can a palette
+export const MAX_PALETTE_COLORS = 256;
+
+export function isCustomPaletteId(id: string): id is CustomPaletteId {
+  return id.startsWith('custom-');
+}
+
+function isValidColor(color: unknown): color is [number, number, number] {
+  return Array.isArray(color) && color.length === 3 && color.every(c => typeof c === 'number' && c >= 0 && c <= 255);
+}
+
+function loadPalettes(): CustomPalette[] {
+  // Workers have no localStorage - they get their palettes from the main thread via mirror()
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.filter((p): p is CustomPalette =>
+      typeof p?.id === 'string' && isCustomPaletteId(p.id) &&
+      typeof p.name === 'string' &&
+      Array.isArray(p.colors) && p.colors.length > 0 && p.colors.every(isValidColor)
+    );
+  } catch (e) {
+    console.warn('Failed to load custom palettes:', e);
+    return [];
+  }
+}
+
+class CustomPaletteStore {
+  private palettes: CustomPalette[] = loadPalettes();
+  private listeners: Set<CustomPaletteListener> = new Set();
+
+  /** Current palettes (a new array after every change, so it can be used as a snapshot) */
+  getAll = (): CustomPalette[] => this.palettes;
+
+  get(id: CustomPaletteId): CustomPalette | undefined {
+    return this.palettes.find(p => p.id === id);
+  }
+
+  create(palette: Palette): CustomPalette {
+    const created: CustomPalette = {
+      id: `custom-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      name: palette.name,
+      colors: palette.colors.slice(0, MAX_PALETTE_COLORS).map(([r, g, b]) => [r, g, b]),
+    };
+    this.commit([...this.palettes, created]);
+    return created;
+  }
+
+  update(id: CustomPaletteId, changes: Partial<Palette>): void {
+    this.commit(this.palettes.map(p => {
+      if (p.id !== id) return p;
+      return {
+        ...p,
+        ...changes,
+        colors: changes.colors ? changes.colors.slice(0, MAX_PALETTE_COLORS) : p.colors,
+      };
+    }));
+  }
+
+  remove(id: CustomPaletteId): void {
+    this.commit(this.palettes.filter(p => p.id !== id));
+  }
+
+  /** Replace every palette without saving, to keep a worker's copy in step with the main thread */
+  mirror(palettes: CustomPalette[]): void {
+    this.palettes = palettes;
+    this.listeners.forEach(listener => listener());
+  }
+
+  subscribe = (listener: CustomPaletteListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private commit(palettes: CustomPalette[]): void {
+    this.palettes = palettes;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(palettes));
+    } catch (e) {
+      console.warn('Failed to save custom palettes:', e);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const customPaletteStore = new CustomPaletteStore();
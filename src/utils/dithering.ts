@@ -1,503 +1,401 @@
 /**
  * Dithering algorithms for retro visual effects
+ * Error diffusion runs every kernel through one shared loop; ordered dithering tiles a threshold map.
  */
 
-export type DitheringType = 'none' | 'bayer' | 'floydSteinberg' | 'jjn' | 'stucki' | 'sierra' | 'ordered';
+import { ColorDistanceMetric } from './colorDistance';
+import { getPaletteLookup } from './paletteLookup';
+import { getBayerMatrix, getBlueNoiseMap, ThresholdMap } from './thresholdMaps';
+
+export type OrderedDitheringType = 'bayer2' | 'bayer4' | 'bayer' | 'bayer16' | 'blueNoise';
+
+export type DiffusionDitheringType =
+  | 'floydSteinberg'
+  | 'jjn'
+  | 'stucki'
+  | 'sierra'
+  | 'twoRowSierra'
+  | 'sierraLite'
+  | 'atkinson'
+  | 'burkes';
+
+export type DitheringType = 'none' | OrderedDitheringType | DiffusionDitheringType;
+
+export interface DitheringOptions {
+  intensity?: number; // 0-1
+  resolution?: number; // 0.05-1.0, lower = dither at a fraction of the size and upscale
+  metric?: ColorDistanceMetric;
+  serpentine?: boolean; // alternate scan direction per row (error diffusion only)
+  temporal?: TemporalDitherState; // keep the pattern anchored across animation frames
+}
 
-/**
- * Bayer matrix for ordered dithering
- */
-const bayerMatrix8x8 = [
-  [0, 32, 8, 40, 2, 34, 10, 42],
-  [48, 16, 56, 24, 50, 18, 58, 26],
-  [12, 44, 4, 36, 14, 46, 6, 38],
-  [60, 28, 52, 20, 62, 30, 54, 22],
-  [3, 35, 11, 43, 1, 33, 9, 41],
-  [51, 19, 59, 27, 49, 17, 57, 25],
-  [15, 47, 7, 39, 13, 45, 5, 37],
-  [63, 31, 55, 23, 61, 29, 53, 21],
-];
+// Max per-channel source change for a pixel to count as unchanged between frames
+const TEMPORAL_TOLERANCE = 3;
+const NOT_HELD = -1;
 
-/**
- * Apply Bayer ordered dithering to image data
- */
-export function applyBayerDithering(
-  data: Uint8ClampedArray,
-  width: number,
-  height: number,
-  palette: [number, number, number][],
-  intensity: number = 1.0,
-  resolution: number = 1.0
-): void {
-  // If resolution is < 1, process at lower resolution and upscale
-  if (resolution < 1) {
-    applyDitheringAtLowerResolution(data, width, height, palette, intensity, resolution, 'bayer');
-    return;
-  }
-
-  const matrix = bayerMatrix8x8;
-  const matrixSize = 8;
-  const ditherScale = 255 * intensity / 64;
-
-  // Single pass with optimized math
-  for (let i = 0; i < data.length; i += 4) {
-    const pixelIndex = i / 4;
-    const x = pixelIndex % width;
-    const y = Math.floor(pixelIndex / width);
-
-    const mx = x & 7; // Bitwise AND faster than modulo
-    const my = y & 7;
-    const dither = (matrix[my][mx] - 32) * ditherScale;
-
-    data[i] = Math.max(0, Math.min(255, data[i] + dither)) | 0;
-    data[i + 1] = Math.max(0, Math.min(255, data[i + 1] + dither)) | 0;
-    data[i + 2] = Math.max(0, Math.min(255, data[i + 2] + dither)) | 0;
-
-    // Use cached color lookup
-    const [pr, pg, pb] = findNearestColor(data[i], data[i + 1], data[i + 2], palette);
-    data[i] = pr;
-    data[i + 1] = pg;
-    data[i + 2] = pb;
-  }
+interface TemporalFrame {
+  source: Uint8ClampedArray;
+  output: Uint8ClampedArray;
 }
 
 /**
- * Apply Floyd-Steinberg dithering (diffusion-based)
- * Optimized with reduced allocations and fixed error distribution
+ * Temporal stability for animated dithering
+ * Pixels whose source color hasn't changed keep the color they were dithered to before, so static
+ * areas stop crawling. The first frame after a reset is the loop's reference: any pixel that matches
+ * it again reuses the reference output, which makes the loop end dither exactly like the loop start.
+ * Reset at every loop boundary.
  */
-export function applyFloydSteinbergDithering(
-  data: Uint8ClampedArray,
-  width: number,
-  height: number,
-  palette: [number, number, number][],
-  intensity: number = 1.0,
-  resolution: number = 1.0
-): void {
-  // If resolution is < 1, process at lower resolution and upscale
-  if (resolution < 1) {
-    applyDitheringAtLowerResolution(data, width, height, palette, intensity, resolution, 'floydSteinberg');
-    return;
+export class TemporalDitherState {
+  private reference: TemporalFrame | null = null;
+  private previous: TemporalFrame | null = null;
+  private palette: [number, number, number][] | null = null;
+  private signature = '';
+
+  reset(): void {
+    this.reference = null;
+    this.previous = null;
   }
 
-  // Create error buffers for current and next row (RGB channels)
-  const errorBuffer = new Float32Array((width + 2) * 3 * 2);
-  let currentRow = 0;
-
-  for (let y = 0; y < height; y++) {
-    const nextRow = 1 - currentRow;
-    
-    // Clear next row buffer at start
-    const nextBufStart = nextRow * (width + 2) * 3;
-    for (let i = 0; i < (width + 2) * 3; i++) {
-      errorBuffer[nextBufStart + i] = 0;
+  /**
+   * Packed RGB per pixel to hold (or NOT_HELD). Starts over if the dither setup changed,
+   * since held colors from another palette or size would be wrong.
+   */
+  resolveHeld(
+    source: Uint8ClampedArray,
+    palette: [number, number, number][],
+    signature: string
+  ): Int32Array | null {
+    if (palette !== this.palette || signature !== this.signature) {
+      this.reset();
+      this.palette = palette;
+      this.signature = signature;
     }
+    if (!this.reference) return null;
+
+    const held = new Int32Array(source.length / 4).fill(NOT_HELD);
+    const candidates = this.previous ? [this.reference, this.previous] : [this.reference];
+
+    for (let p = 0, i = 0; i < source.length; p++, i += 4) {
+      for (const frame of candidates) {
+        if (
+          Math.abs(source[i] - frame.source[i]) <= TEMPORAL_TOLERANCE &&
+          Math.abs(source[i + 1] - frame.source[i + 1]) <= TEMPORAL_TOLERANCE &&
+          Math.abs(source[i + 2] - frame.source[i + 2]) <= TEMPORAL_TOLERANCE
+        ) {
+          held[p] = (frame.output[i] << 16) | (frame.output[i + 1] << 8) | frame.output[i + 2];
+          break;
+        }
+      }
+    }
+    return held;
+  }
 
-    const currentBufStart = currentRow * (width + 2) * 3;
-
-    for (let x = 0; x < width; x++) {
-      const idx = (y * width + x) * 4;
-      const errIdx = currentBufStart + (x + 1) * 3; // +1 for border pixel
-
-      // Apply accumulated error
-      let r = Math.max(0, Math.min(255, data[idx] + errorBuffer[errIdx] * intensity));
-      let g = Math.max(0, Math.min(255, data[idx + 1] + errorBuffer[errIdx + 1] * intensity));
-      let b = Math.max(0, Math.min(255, data[idx + 2] + errorBuffer[errIdx + 2] * intensity));
+  commit(source: Uint8ClampedArray, output: Uint8ClampedArray): void {
+    const frame = { source, output: output.slice() };
+    if (!this.reference) this.reference = frame;
+    else this.previous = frame;
+  }
+}
 
-      // Find nearest palette color
-      const [pr, pg, pb] = findNearestColor(r | 0, g | 0, b | 0, palette);
+/**
+ * Error diffusion kernel: where the quantization error goes, relative to the current pixel
+ * (dx is mirrored on right-to-left rows when scanning serpentine)
+ */
+export interface DiffusionKernel {
+  divisor: number;
+  weights: Array<[dx: number, dy: number, weight: number]>;
+}
 
-      // Calculate error (quantization error)
-      const errR = (r - pr) / 16;
-      const errG = (g - pg) / 16;
-      const errB = (b - pb) / 16;
+export const DIFFUSION_KERNELS: Record<DiffusionDitheringType, DiffusionKernel> = {
+  //       X   7
+  //   3   5   1
+  floydSteinberg: {
+    divisor: 16,
+    weights: [[1, 0, 7], [-1, 1, 3], [0, 1, 5], [1, 1, 1]],
+  },
+  //           X   7   5
+  //   3   5   7   5   3
+  //   1   3   5   3   1
+  jjn: {
+    divisor: 48,
+    weights: [
+      [1, 0, 7], [2, 0, 5],
+      [-2, 1, 3], [-1, 1, 5], [0, 1, 7], [1, 1, 5], [2, 1, 3],
+      [-2, 2, 1], [-1, 2, 3], [0, 2, 5], [1, 2, 3], [2, 2, 1],
+    ],
+  },
+  //           X   8   4
+  //   2   4   8   4   2
+  //   1   2   4   2   1
+  stucki: {
+    divisor: 42,
+    weights: [
+      [1, 0, 8], [2, 0, 4],
+      [-2, 1, 2], [-1, 1, 4], [0, 1, 8], [1, 1, 4], [2, 1, 2],
+      [-2, 2, 1], [-1, 2, 2], [0, 2, 4], [1, 2, 2], [2, 2, 1],
+    ],
+  },
+  //           X   5   3
+  //   2   4   5   4   2
+  //       2   3   2
+  sierra: {
+    divisor: 32,
+    weights: [
+      [1, 0, 5], [2, 0, 3],
+      [-2, 1, 2], [-1, 1, 4], [0, 1, 5], [1, 1, 4], [2, 1, 2],
+      [-1, 2, 2], [0, 2, 3], [1, 2, 2],
+    ],
+  },
+  //           X   4   3
+  //   1   2   3   2   1
+  twoRowSierra: {
+    divisor: 16,
+    weights: [
+      [1, 0, 4], [2, 0, 3],
+      [-2, 1, 1], [-1, 1, 2], [0, 1, 3], [1, 1, 2], [2, 1, 1],
+    ],
+  },
+  //       X   2
+  //   1   1
+  sierraLite: {
+    divisor: 4,
+    weights: [[1, 0, 2], [-1, 1, 1], [0, 1, 1]],
+  },
+  // Only 6/8 of the error is diffused, which keeps highlights and shadows crisp
+  //       X   1   1
+  //   1   1   1
+  //       1
+  atkinson: {
+    divisor: 8,
+    weights: [[1, 0, 1], [2, 0, 1], [-1, 1, 1], [0, 1, 1], [1, 1, 1], [0, 2, 1]],
+  },
+  //           X   8   4
+  //   2   4   8   4   2
+  burkes: {
+    divisor: 32,
+    weights: [
+      [1, 0, 8], [2, 0, 4],
+      [-2, 1, 2], [-1, 1, 4], [0, 1, 8], [1, 1, 4], [2, 1, 2],
+    ],
+  },
+};
+
+export function isOrderedDithering(type: DitheringType): type is OrderedDitheringType {
+  return type === 'bayer2' || type === 'bayer4' || type === 'bayer' || type === 'bayer16' || type === 'blueNoise';
+}
 
-      // Set pixel to palette color
-      data[idx] = pr;
-      data[idx + 1] = pg;
-      data[idx + 2] = pb;
+export function isDiffusionDithering(type: DitheringType): type is DiffusionDitheringType {
+  return type in DIFFUSION_KERNELS;
+}
 
-      // Distribute error using Floyd-Steinberg kernel:
-      //       X   7/16
-      // 3/16  5/16  1/16
-      const nextBufStart_row = nextRow * (width + 2) * 3;
-      
-      // Right (7/16) - current row
-      if (x < width - 1) {
-        errorBuffer[errIdx + 3] += errR * 7;
-        errorBuffer[errIdx + 4] += errG * 7;
-        errorBuffer[errIdx + 5] += errB * 7;
-      }
-      
-      // Below-left (3/16) - next row
-      if (y < height - 1) {
-        const belowLeftIdx = nextBufStart_row + x * 3;
-        errorBuffer[belowLeftIdx] += errR * 3;
-        errorBuffer[belowLeftIdx + 1] += errG * 3;
-        errorBuffer[belowLeftIdx + 2] += errB * 3;
-      }
-      
-      // Below (5/16) - next row
-      if (y < height - 1) {
-        const belowIdx = nextBufStart_row + (x + 1) * 3;
-        errorBuffer[belowIdx] += errR * 5;
-        errorBuffer[belowIdx + 1] += errG * 5;
-        errorBuffer[belowIdx + 2] += errB * 5;
-      }
-      
-      // Below-right (1/16) - next row
-      if (y < height - 1 && x < width - 1) {
-        const belowRightIdx = nextBufStart_row + (x + 2) * 3;
-        errorBuffer[belowRightIdx] += errR;
-        errorBuffer[belowRightIdx + 1] += errG;
-        errorBuffer[belowRightIdx + 2] += errB;
-      }
-    }
-    
-    currentRow = nextRow;
+/**
+ * Threshold map for an ordered dithering type ('bayer' is the classic 8×8)
+ */
+export function getThresholdMap(type: OrderedDitheringType): ThresholdMap {
+  switch (type) {
+    case 'bayer2':
+      return getBayerMatrix(2);
+    case 'bayer4':
+      return getBayerMatrix(4);
+    case 'bayer16':
+      return getBayerMatrix(16);
+    case 'blueNoise':
+      return getBlueNoiseMap();
+    default:
+      return getBayerMatrix(8);
   }
 }
 
 /**
- * Apply Jarvis-Judson-Ninke dithering (7x7 kernel, higher quality)
- * More diffusion than Floyd-Steinberg, produces smoother results
+ * Apply any dithering type to image data in place
  */
-export function applyJJNDithering(
+export function applyDithering(
   data: Uint8ClampedArray,
   width: number,
   height: number,
   palette: [number, number, number][],
-  intensity: number = 1.0,
-  resolution: number = 1.0
+  type: DitheringType,
+  options: DitheringOptions = {}
 ): void {
-  if (resolution < 1) {
-    applyDitheringAtLowerResolution(data, width, height, palette, intensity, resolution, 'jjn');
+  const { intensity = 1.0, resolution = 1.0, metric = 'rgb', serpentine = false, temporal } = options;
+
+  if (type === 'none') {
+    reduceColorsTopalette(data, palette, metric);
     return;
   }
 
-  // Allocate error buffer for 3 rows (current + 2 next rows for 7x7 kernel)
-  const errorBuffer = new Float32Array((width + 6) * 3 * 3);
-  let currentRow = 0;
-
-  for (let y = 0; y < height; y++) {
-    const nextRow = (currentRow + 1) % 3;
-    const nextNextRow = (currentRow + 2) % 3;
-
-    // Clear future rows
-    for (let i = nextRow * (width + 6) * 3; i < (nextRow + 1) * (width + 6) * 3; i++) {
-      errorBuffer[i] = 0;
-    }
-    for (let i = nextNextRow * (width + 6) * 3; i < (nextNextRow + 1) * (width + 6) * 3; i++) {
-      errorBuffer[i] = 0;
-    }
-
-    const currentBufStart = currentRow * (width + 6) * 3;
-    const nextBufStart = nextRow * (width + 6) * 3;
-    const nextNextBufStart = nextNextRow * (width + 6) * 3;
-
-    for (let x = 0; x < width; x++) {
-      const idx = (y * width + x) * 4;
-      const errIdx = currentBufStart + (x + 3) * 3; // +3 for 3-pixel border
-
-      // Apply accumulated error
-      let r = Math.max(0, Math.min(255, data[idx] + errorBuffer[errIdx] * intensity));
-      let g = Math.max(0, Math.min(255, data[idx + 1] + errorBuffer[errIdx + 1] * intensity));
-      let b = Math.max(0, Math.min(255, data[idx + 2] + errorBuffer[errIdx + 2] * intensity));
-
-      const [pr, pg, pb] = findNearestColor(r | 0, g | 0, b | 0, palette);
-
-      const errR = (r - pr) / 48;
-      const errG = (g - pg) / 48;
-      const errB = (b - pb) / 48;
-
-      data[idx] = pr;
-      data[idx + 1] = pg;
-      data[idx + 2] = pb;
-
-      // JJN kernel (48-normalized):
-      //          X  7  5
-      //      3  5  7  5  3
-      //      1  3  5  3  1
-      if (x < width - 1) {
-        errorBuffer[errIdx + 3] += errR * 7;
-        errorBuffer[errIdx + 4] += errG * 7;
-        errorBuffer[errIdx + 5] += errB * 7;
-      }
-      if (x < width - 2) {
-        errorBuffer[errIdx + 6] += errR * 5;
-        errorBuffer[errIdx + 7] += errG * 5;
-        errorBuffer[errIdx + 8] += errB * 5;
-      }
-
-      if (y < height - 1) {
-        if (x > 0) {
-          errorBuffer[nextBufStart + (x + 2) * 3] += errR * 3;
-          errorBuffer[nextBufStart + (x + 2) * 3 + 1] += errG * 3;
-          errorBuffer[nextBufStart + (x + 2) * 3 + 2] += errB * 3;
-        }
-        errorBuffer[nextBufStart + (x + 3) * 3] += errR * 5;
-        errorBuffer[nextBufStart + (x + 3) * 3 + 1] += errG * 5;
-        errorBuffer[nextBufStart + (x + 3) * 3 + 2] += errB * 5;
-        if (x < width - 1) {
-          errorBuffer[nextBufStart + (x + 4) * 3] += errR * 7;
-          errorBuffer[nextBufStart + (x + 4) * 3 + 1] += errG * 7;
-          errorBuffer[nextBufStart + (x + 4) * 3 + 2] += errB * 7;
-        }
-        if (x < width - 2) {
-          errorBuffer[nextBufStart + (x + 5) * 3] += errR * 5;
-          errorBuffer[nextBufStart + (x + 5) * 3 + 1] += errG * 5;
-          errorBuffer[nextBufStart + (x + 5) * 3 + 2] += errB * 5;
-        }
-        if (x > 0) {
-          errorBuffer[nextBufStart + (x + 1) * 3] += errR * 3;
-          errorBuffer[nextBufStart + (x + 1) * 3 + 1] += errG * 3;
-          errorBuffer[nextBufStart + (x + 1) * 3 + 2] += errB * 3;
-        }
-      }
+  // If resolution is < 1, process at lower resolution and upscale
+  if (resolution < 1) {
+    applyDitheringAtLowerResolution(data, width, height, palette, type, { intensity, metric, serpentine, temporal }, resolution);
+    return;
+  }
 
-      if (y < height - 2) {
-        if (x > 0) {
-          errorBuffer[nextNextBufStart + (x + 2) * 3] += errR;
-          errorBuffer[nextNextBufStart + (x + 2) * 3 + 1] += errG;
-          errorBuffer[nextNextBufStart + (x + 2) * 3 + 2] += errB;
-        }
-        errorBuffer[nextNextBufStart + (x + 3) * 3] += errR * 3;
-        errorBuffer[nextNextBufStart + (x + 3) * 3 + 1] += errG * 3;
-        errorBuffer[nextNextBufStart + (x + 3) * 3 + 2] += errB * 3;
-        if (x < width - 1) {
-          errorBuffer[nextNextBufStart + (x + 4) * 3] += errR * 5;
-          errorBuffer[nextNextBufStart + (x + 4) * 3 + 1] += errG * 5;
-          errorBuffer[nextNextBufStart + (x + 4) * 3 + 2] += errB * 5;
-        }
-        if (x < width - 2) {
-          errorBuffer[nextNextBufStart + (x + 5) * 3] += errR * 3;
-          errorBuffer[nextNextBufStart + (x + 5) * 3 + 1] += errG * 3;
-          errorBuffer[nextNextBufStart + (x + 5) * 3 + 2] += errB * 3;
-        }
-        if (x > 0) {
-          errorBuffer[nextNextBufStart + (x + 1) * 3] += errR;
-          errorBuffer[nextNextBufStart + (x + 1) * 3 + 1] += errG;
-          errorBuffer[nextNextBufStart + (x + 1) * 3 + 2] += errB;
-        }
-      }
-    }
+  const source = temporal ? data.slice() : null;
+  const held = temporal && source
+    ? temporal.resolveHeld(source, palette, `${type}|${width}x${height}|${intensity}|${metric}|${serpentine}`)
+    : null;
 
-    currentRow = nextRow;
+  if (isOrderedDithering(type)) {
+    applyOrderedDithering(data, width, height, palette, getThresholdMap(type), intensity, metric, held);
+  } else {
+    applyErrorDiffusionDithering(data, width, height, palette, DIFFUSION_KERNELS[type], intensity, metric, serpentine, held);
   }
+
+  if (temporal && source) temporal.commit(source, data);
 }
 
 /**
- * Apply Stucki dithering (5x5 kernel)
- * Similar quality to JJN but with slightly different distribution
+ * Ordered dithering: offset each pixel by its tiled threshold, then snap to the palette
  */
-export function applyStuckiDithering(
+export function applyOrderedDithering(
   data: Uint8ClampedArray,
   width: number,
   height: number,
   palette: [number, number, number][],
+  thresholdMap: ThresholdMap,
   intensity: number = 1.0,
-  resolution: number = 1.0
+  metric: ColorDistanceMetric = 'rgb',
+  held: Int32Array | null = null
 ): void {
-  if (resolution < 1) {
-    applyDitheringAtLowerResolution(data, width, height, palette, intensity, resolution, 'stucki');
-    return;
-  }
-
-  const errorBuffer = new Float32Array((width + 4) * 3 * 2);
-  let currentRow = 0;
+  const lookup = getPaletteLookup(palette, metric);
+  const { size, values } = thresholdMap;
+  const ditherScale = 255 * intensity;
 
   for (let y = 0; y < height; y++) {
-    const nextRow = 1 - currentRow;
-
-    for (let i = nextRow * (width + 4) * 3; i < (nextRow + 1) * (width + 4) * 3; i++) {
-      errorBuffer[i] = 0;
-    }
-
-    const currentBufStart = currentRow * (width + 4) * 3;
-    const nextBufStart = nextRow * (width + 4) * 3;
+    const rowOffset = (y % size) * size;
 
     for (let x = 0; x < width; x++) {
       const idx = (y * width + x) * 4;
-      const errIdx = currentBufStart + (x + 2) * 3;
 
-      let r = Math.max(0, Math.min(255, data[idx] + errorBuffer[errIdx] * intensity));
-      let g = Math.max(0, Math.min(255, data[idx + 1] + errorBuffer[errIdx + 1] * intensity));
-      let b = Math.max(0, Math.min(255, data[idx + 2] + errorBuffer[errIdx + 2] * intensity));
+      const heldColor = held ? held[y * width + x] : NOT_HELD;
+      if (heldColor !== NOT_HELD) {
+        data[idx] = heldColor >> 16;
+        data[idx + 1] = (heldColor >> 8) & 0xff;
+        data[idx + 2] = heldColor & 0xff;
+        continue;
+      }
 
-      const [pr, pg, pb] = findNearestColor(r | 0, g | 0, b | 0, palette);
+      const dither = (values[rowOffset + (x % size)] - 0.5) * ditherScale;
 
-      const errR = (r - pr) / 42;
-      const errG = (g - pg) / 42;
-      const errB = (b - pb) / 42;
+      const r = Math.max(0, Math.min(255, data[idx] + dither)) | 0;
+      const g = Math.max(0, Math.min(255, data[idx + 1] + dither)) | 0;
+      const b = Math.max(0, Math.min(255, data[idx + 2] + dither)) | 0;
 
+      // Nearest color via the palette LUT
+      const [pr, pg, pb] = lookup.nearest(r, g, b);
       data[idx] = pr;
       data[idx + 1] = pg;
       data[idx + 2] = pb;
-
-      // Stucki kernel (42-normalized):
-      //        X  8  4
-      //     2  4  8  4  2
-      if (x < width - 1) {
-        errorBuffer[errIdx + 3] += errR * 8;
-        errorBuffer[errIdx + 4] += errG * 8;
-        errorBuffer[errIdx + 5] += errB * 8;
-      }
-      if (x < width - 2) {
-        errorBuffer[errIdx + 6] += errR * 4;
-        errorBuffer[errIdx + 7] += errG * 4;
-        errorBuffer[errIdx + 8] += errB * 4;
-      }
-
-      if (y < height - 1) {
-        if (x > 0) {
-          errorBuffer[nextBufStart + (x + 1) * 3] += errR * 2;
-          errorBuffer[nextBufStart + (x + 1) * 3 + 1] += errG * 2;
-          errorBuffer[nextBufStart + (x + 1) * 3 + 2] += errB * 2;
-        }
-        errorBuffer[nextBufStart + (x + 2) * 3] += errR * 4;
-        errorBuffer[nextBufStart + (x + 2) * 3 + 1] += errG * 4;
-        errorBuffer[nextBufStart + (x + 2) * 3 + 2] += errB * 4;
-        if (x < width - 1) {
-          errorBuffer[nextBufStart + (x + 3) * 3] += errR * 8;
-          errorBuffer[nextBufStart + (x + 3) * 3 + 1] += errG * 8;
-          errorBuffer[nextBufStart + (x + 3) * 3 + 2] += errB * 8;
-        }
-        if (x < width - 2) {
-          errorBuffer[nextBufStart + (x + 4) * 3] += errR * 4;
-          errorBuffer[nextBufStart + (x + 4) * 3 + 1] += errG * 4;
-          errorBuffer[nextBufStart + (x + 4) * 3 + 2] += errB * 4;
-        }
-        if (x < width - 3) {
-          errorBuffer[nextBufStart + (x + 5) * 3] += errR * 2;
-          errorBuffer[nextBufStart + (x + 5) * 3 + 1] += errG * 2;
-          errorBuffer[nextBufStart + (x + 5) * 3 + 2] += errB * 2;
-        }
-      }
     }
-
-    currentRow = nextRow;
   }
 }
 
 /**
- * Apply Sierra dithering (3-pass variant, 5x5 kernel)
- * Good balance between quality and speed
+ * Error diffusion with any kernel. Errors are kept in a ring of row buffers (one per kernel row),
+ * padded on both sides so edge pixels never need bounds checks.
+ * Held pixels keep their color but still diffuse their error, so neighbours stay consistent.
  */
-export function applySierraDithering(
+export function applyErrorDiffusionDithering(
   data: Uint8ClampedArray,
   width: number,
   height: number,
   palette: [number, number, number][],
+  kernel: DiffusionKernel,
   intensity: number = 1.0,
-  resolution: number = 1.0
+  metric: ColorDistanceMetric = 'rgb',
+  serpentine: boolean = false,
+  held: Int32Array | null = null
 ): void {
-  if (resolution < 1) {
-    applyDitheringAtLowerResolution(data, width, height, palette, intensity, resolution, 'sierra');
-    return;
+  const lookup = getPaletteLookup(palette, metric);
+
+  let pad = 0;
+  let rows = 1;
+  for (const [dx, dy] of kernel.weights) {
+    pad = Math.max(pad, Math.abs(dx));
+    rows = Math.max(rows, dy + 1);
   }
 
-  const errorBuffer = new Float32Array((width + 4) * 3 * 2);
-  let currentRow = 0;
+  const rowLength = (width + pad * 2) * 3;
+  const errorBuffer = new Float32Array(rowLength * rows);
+  // Pre-divided weights, so each pixel does one multiply per neighbour
+  const weights = kernel.weights.map(([dx, dy, weight]) => [dx, dy, weight / kernel.divisor] as const);
 
   for (let y = 0; y < height; y++) {
-    const nextRow = 1 - currentRow;
-
-    for (let i = nextRow * (width + 4) * 3; i < (nextRow + 1) * (width + 4) * 3; i++) {
-      errorBuffer[i] = 0;
-    }
-
-    const currentBufStart = currentRow * (width + 4) * 3;
-    const nextBufStart = nextRow * (width + 4) * 3;
+    const currentRow = (y % rows) * rowLength;
+    const reverse = serpentine && (y & 1) === 1;
 
-    for (let x = 0; x < width; x++) {
+    for (let step = 0; step < width; step++) {
+      const x = reverse ? width - 1 - step : step;
       const idx = (y * width + x) * 4;
-      const errIdx = currentBufStart + (x + 2) * 3;
-
-      let r = Math.max(0, Math.min(255, data[idx] + errorBuffer[errIdx] * intensity));
-      let g = Math.max(0, Math.min(255, data[idx + 1] + errorBuffer[errIdx + 1] * intensity));
-      let b = Math.max(0, Math.min(255, data[idx + 2] + errorBuffer[errIdx + 2] * intensity));
+      const errIdx = currentRow + (x + pad) * 3;
 
-      const [pr, pg, pb] = findNearestColor(r | 0, g | 0, b | 0, palette);
+      // Apply accumulated error
+      const r = Math.max(0, Math.min(255, data[idx] + errorBuffer[errIdx] * intensity));
+      const g = Math.max(0, Math.min(255, data[idx + 1] + errorBuffer[errIdx + 1] * intensity));
+      const b = Math.max(0, Math.min(255, data[idx + 2] + errorBuffer[errIdx + 2] * intensity));
+
+      const heldColor = held ? held[y * width + x] : NOT_HELD;
+      let pr: number, pg: number, pb: number;
+      if (heldColor !== NOT_HELD) {
+        pr = heldColor >> 16;
+        pg = (heldColor >> 8) & 0xff;
+        pb = heldColor & 0xff;
+      } else {
+        [pr, pg, pb] = lookup.nearest(r | 0, g | 0, b | 0);
+      }
 
-      const errR = (r - pr) / 32;
-      const errG = (g - pg) / 32;
-      const errB = (b - pb) / 32;
+      // Quantization error
+      const errR = r - pr;
+      const errG = g - pg;
+      const errB = b - pb;
 
       data[idx] = pr;
       data[idx + 1] = pg;
       data[idx + 2] = pb;
 
-      // Sierra kernel (32-normalized):
-      //       X  5  3
-      //     2  4  5  4  2
-      if (x < width - 1) {
-        errorBuffer[errIdx + 3] += errR * 5;
-        errorBuffer[errIdx + 4] += errG * 5;
-        errorBuffer[errIdx + 5] += errB * 5;
-      }
-      if (x < width - 2) {
-        errorBuffer[errIdx + 6] += errR * 3;
-        errorBuffer[errIdx + 7] += errG * 3;
-        errorBuffer[errIdx + 8] += errB * 3;
-      }
+      for (const [dx, dy, weight] of weights) {
+        const nx = x + (reverse ? -dx : dx);
+        if (nx < 0 || nx >= width || y + dy >= height) continue;
 
-      if (y < height - 1) {
-        if (x > 0) {
-          errorBuffer[nextBufStart + (x + 1) * 3] += errR * 2;
-          errorBuffer[nextBufStart + (x + 1) * 3 + 1] += errG * 2;
-          errorBuffer[nextBufStart + (x + 1) * 3 + 2] += errB * 2;
-        }
-        errorBuffer[nextBufStart + (x + 2) * 3] += errR * 4;
-        errorBuffer[nextBufStart + (x + 2) * 3 + 1] += errG * 4;
-        errorBuffer[nextBufStart + (x + 2) * 3 + 2] += errB * 4;
-        if (x < width - 1) {
-          errorBuffer[nextBufStart + (x + 3) * 3] += errR * 5;
-          errorBuffer[nextBufStart + (x + 3) * 3 + 1] += errG * 5;
-          errorBuffer[nextBufStart + (x + 3) * 3 + 2] += errB * 5;
-        }
-        if (x < width - 2) {
-          errorBuffer[nextBufStart + (x + 4) * 3] += errR * 4;
-          errorBuffer[nextBufStart + (x + 4) * 3 + 1] += errG * 4;
-          errorBuffer[nextBufStart + (x + 4) * 3 + 2] += errB * 4;
-        }
-        if (x < width - 3) {
-          errorBuffer[nextBufStart + (x + 5) * 3] += errR * 2;
-          errorBuffer[nextBufStart + (x + 5) * 3 + 1] += errG * 2;
-          errorBuffer[nextBufStart + (x + 5) * 3 + 2] += errB * 2;
-        }
+        const target = ((y + dy) % rows) * rowLength + (nx + pad) * 3;
+        errorBuffer[target] += errR * weight;
+        errorBuffer[target + 1] += errG * weight;
+        errorBuffer[target + 2] += errB * weight;
       }
     }
 
-    currentRow = nextRow;
+    // This row's buffer gets reused for row y + rows
+    errorBuffer.fill(0, currentRow, currentRow + rowLength);
   }
 }
+
 function applyDitheringAtLowerResolution(
   data: Uint8ClampedArray,
   width: number,
   height: number,
   palette: [number, number, number][],
-  intensity: number,
-  resolution: number,
-  type: 'bayer' | 'floydSteinberg' | 'jjn' | 'stucki' | 'sierra'
+  type: DitheringType,
+  options: DitheringOptions,
+  resolution: number
 ): void {
   // Calculate lower resolution dimensions
   const scaledWidth = Math.max(2, Math.floor(width * resolution));
   const scaledHeight = Math.max(2, Math.floor(height * resolution));
-  const scaleX = width / scaledWidth;
-  const scaleY = height / scaledHeight;
 
   // Create downscaled image data
   const scaledData = new Uint8ClampedArray(scaledWidth * scaledHeight * 4);
-  
+
   // Downscale by averaging
   for (let y = 0; y < scaledHeight; y++) {
     for (let x = 0; x < scaledWidth; x++) {
       let r = 0, g = 0, b = 0, a = 0, count = 0;
-      
-      const x0 = Math.floor(x * scaleX);
-      const y0 = Math.floor(y * scaleY);
-      const x1 = Math.floor((x + 1) * scaleX);
-      const y1 = Math.floor((y + 1) * scaleY);
-      
+
+      // Integer box bounds - the GPU quantize pass averages exactly the same boxes
+      const x0 = Math.floor((x * width) / scaledWidth);
+      const y0 = Math.floor((y * height) / scaledHeight);
+      const x1 = Math.floor(((x + 1) * width) / scaledWidth);
+      const y1 = Math.floor(((y + 1) * height) / scaledHeight);
+
       for (let py = y0; py < y1; py++) {
         for (let px = x0; px < x1; px++) {
           const idx = (py * width + px) * 4;
@@ -508,36 +406,27 @@ function applyDitheringAtLowerResolution(
           count++;
         }
       }
-      
+
+      // Rounded half up, like the GPU pass
       const scaledIdx = (y * scaledWidth + x) * 4;
-      scaledData[scaledIdx] = r / count;
-      scaledData[scaledIdx + 1] = g / count;
-      scaledData[scaledIdx + 2] = b / count;
-      scaledData[scaledIdx + 3] = a / count;
+      scaledData[scaledIdx] = Math.floor(r / count + 0.5);
+      scaledData[scaledIdx + 1] = Math.floor(g / count + 0.5);
+      scaledData[scaledIdx + 2] = Math.floor(b / count + 0.5);
+      scaledData[scaledIdx + 3] = Math.floor(a / count + 0.5);
     }
   }
 
   // Apply dithering to scaled data
-  if (type === 'bayer') {
-    applyBayerDithering(scaledData, scaledWidth, scaledHeight, palette, intensity, 1.0);
-  } else if (type === 'floydSteinberg') {
-    applyFloydSteinbergDithering(scaledData, scaledWidth, scaledHeight, palette, intensity, 1.0);
-  } else if (type === 'jjn') {
-    applyJJNDithering(scaledData, scaledWidth, scaledHeight, palette, intensity, 1.0);
-  } else if (type === 'stucki') {
-    applyStuckiDithering(scaledData, scaledWidth, scaledHeight, palette, intensity, 1.0);
-  } else if (type === 'sierra') {
-    applySierraDithering(scaledData, scaledWidth, scaledHeight, palette, intensity, 1.0);
-  }
+  applyDithering(scaledData, scaledWidth, scaledHeight, palette, type, { ...options, resolution: 1.0 });
 
-  // Upscale back to original resolution using nearest-neighbor
+  // Upscale back to original resolution using nearest-neighbor (integer math, like the GPU pixelation pass)
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
-      const srcX = Math.floor(x / scaleX);
-      const srcY = Math.floor(y / scaleY);
+      const srcX = Math.floor((x * scaledWidth) / width);
+      const srcY = Math.floor((y * scaledHeight) / height);
       const srcIdx = (srcY * scaledWidth + srcX) * 4;
       const dstIdx = (y * width + x) * 4;
-      
+
       data[dstIdx] = scaledData[srcIdx];
       data[dstIdx + 1] = scaledData[srcIdx + 1];
       data[dstIdx + 2] = scaledData[srcIdx + 2];
@@ -546,67 +435,20 @@ function applyDitheringAtLowerResolution(
   }
 }
 
-// Cache for nearest color lookups - LRU cache for frequently used colors
-const colorCache = new Map<number, [number, number, number]>();
-const MAX_CACHE_SIZE = 8192;
-
-/**
- * Find the nearest color in a palette using Euclidean distance with caching
- */
-function findNearestColor(
-  r: number,
-  g: number,
-  b: number,
-  palette: [number, number, number][]
-): [number, number, number] {
-  // Create cache key from RGB values
-  const key = (r << 16) | (g << 8) | b;
-  
-  // Check cache first (huge performance boost)
-  if (colorCache.has(key)) {
-    return colorCache.get(key)!;
-  }
-
-  let minDist = Infinity;
-  let nearest = palette[0];
-
-  // Hardcoded palette optimization - cache precomputed squared values
-  for (const [pr, pg, pb] of palette) {
-    const dr = r - pr;
-    const dg = g - pg;
-    const db = b - pb;
-    const dist = dr * dr + dg * dg + db * db;
-    
-    if (dist < minDist) {
-      minDist = dist;
-      nearest = [pr, pg, pb];
-    }
-  }
-
-  // Store in cache with LRU eviction
-  if (colorCache.size >= MAX_CACHE_SIZE) {
-    const firstKey = colorCache.keys().next().value;
-    if (firstKey !== undefined) colorCache.delete(firstKey);
-  }
-  colorCache.set(key, nearest);
-
-  return nearest;
-}
-
 /**
  * Reduce colors to nearest palette colors without dithering
- * Optimized with cached color lookups
+ * Uses the palette's shared lookup table
  */
 export function reduceColorsTopalette(
   data: Uint8ClampedArray,
-  palette: [number, number, number][]
+  palette: [number, number, number][],
+  metric: ColorDistanceMetric = 'rgb'
 ): void {
-  // Clear cache at start of frame for consistency
-  colorCache.clear();
-  
+  const lookup = getPaletteLookup(palette, metric);
+
   // Process in chunks for better cache locality
   const chunkSize = Math.min(64, data.length / 4);
-  
+
   for (let i = 0; i < data.length; i += 4 * chunkSize) {
     for (let j = 0; j < chunkSize && i + j * 4 < data.length; j++) {
       const idx = i + j * 4;
@@ -614,7 +456,7 @@ export function reduceColorsTopalette(
       const g = data[idx + 1];
       const b = data[idx + 2];
 
-      const [pr, pg, pb] = findNearestColor(r, g, b, palette);
+      const [pr, pg, pb] = lookup.nearest(r, g, b);
       data[idx] = pr;
       data[idx + 1] = pg;
       data[idx + 2] = pb;
@@ -0,0 +1,371 @@
+/**
+ * Effect stack
+ * Post-processing is an ordered list of effects, each reading the frame the previous one produced.
+ * The same list drives the live preview and every export, so reordering (pixelate → dither vs
+ * dither → pixelate) looks the same everywhere.
+ */
+
+import type { EffectConfig, EffectParams, EffectType } from '../types';
+import { imageDataToASCIICells, renderASCIIToCanvas } from './asciiRenderer';
+import { BackgroundSettings, createBackgroundSampler, isFlatBackground } from './background';
+import { applyCRT, getPersistenceWarmupSeconds, PhosphorState } from './crt';
+import { applyDithering, reduceColorsTopalette, TemporalDitherState } from './dithering';
+import { applyHardwareConstraint, hardwareConstraints } from './hardwareConstraints';
+import { getCycledPalette, getCyclesPerLoop, remapPaletteColors } from './paletteCycling';
+import { getPalette } from './palettes';
+import { applyPixelArtCleanup } from './pixelArtCleanup';
+import { getPixelGrid, PixelGrid, pixelateImageData, samplingBlendsColors } from './pixelation';
+
+type RGB = [number, number, number];
+
+export const effectTypeList: { value: EffectType; label: string }[] = [
+  { value: 'dither', label: 'Dither / Palette' },
+  { value: 'hardware', label: 'Hardware Constraint' },
+  { value: 'paletteCycle', label: 'Palette Cycling' },
+  { value: 'pixelate', label: 'Pixelate' },
+  { value: 'cleanup', label: 'Pixel-Art Cleanup' },
+  { value: 'crt', label: 'CRT Display' },
+  { value: 'ascii', label: 'ASCII' },
+];
+
+export function getEffectLabel(type: EffectType): string {
+  return effectTypeList.find(e => e.value === type)?.label ?? type;
+}
+
+const defaultEffectParams: { [T in EffectType]: EffectParams<T> } = {
+  dither: {
+    ditheringType: 'bayer',
+    intensity: 0.3,
+    resolution: 0.2,
+    serpentine: false,
+    temporalStability: false,
+    paletteType: 'full',
+    colorDistance: 'rgb',
+  },
+  hardware: {
+    mode: 'zxspectrum',
+    colorDistance: 'rgb',
+  },
+  paletteCycle: {
+    ranges: [{ start: 0, end: 15, reverse: false }],
+    period: 1,
+  },
+  pixelate: {
+    pixelSize: 4,
+    aspect: 1,
+    sampling: 'corner',
+    snapToExport: false,
+  },
+  cleanup: {
+    removeOrphans: true,
+    outline: true,
+    outlineColor: '#000000',
+    outlineThickness: 1,
+    innerHighlight: 0,
+    backgroundTolerance: 0.1,
+  },
+  crt: {
+    scanlines: 0.5,
+    scanlineSpacing: 3,
+    mask: 'apertureGrille',
+    maskStrength: 0.3,
+    curvature: 0.08,
+    vignette: 0.4,
+    bloom: 0.3,
+    persistence: 0,
+    noise: 0.05,
+    flicker: 0.2,
+    flickerRate: 10,
+  },
+  ascii: {
+    charset: 'standard',
+    resolution: 60,
+    opacity: 1,
+    backgroundOpacity: 1,
+    textColor: '#00ff00',
+    fontSize: 12,
+    fontWeight: 'bold',
+    invert: false,
+    contrast: 1.2,
+    gamma: 1.0,
+    colorMode: true,
+    brightnessBoost: 1.0,
+  },
+};
+
+function createEffectId(): string {
+  return `fx-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function createEffect<T extends EffectType>(
+  type: T,
+  params: Partial<EffectParams<T>> = {}
+): Extract<EffectConfig, { type: T }> {
+  const effect = {
+    id: createEffectId(),
+    type,
+    enabled: true,
+    params: { ...defaultEffectParams[type], ...params },
+  } as EffectConfig;
+  return effect as Extract<EffectConfig, { type: T }>;
+}
+
+/**
+ * Copy of an effect with its own id (so it gets its own temporal dithering state)
+ */
+export function duplicateEffect(effect: EffectConfig): EffectConfig {
+  return { ...effect, id: createEffectId(), params: structuredClone(effect.params) } as EffectConfig;
+}
+
+/**
+ * Palette an effect leaves the frame in: undefined if it doesn't change the palette,
+ * null if the frame is no longer restricted to one
+ */
+export function getEffectPalette(effect: EffectConfig): RGB[] | null | undefined {
+  switch (effect.type) {
+    case 'dither':
+      // Full color without dithering is a no-op; with dithering it snaps to the generated full palette
+      if (effect.params.ditheringType === 'none' && effect.params.paletteType === 'full') return undefined;
+      return getPalette(effect.params.paletteType).colors;
+    case 'hardware':
+      return hardwareConstraints[effect.params.mode].palette;
+    case 'pixelate':
+      return samplingBlendsColors(effect.params.sampling) ? null : undefined;
+    case 'cleanup':
+      // Orphan removal only reuses neighbouring colors; outlines and highlights add new ones
+      return effect.params.outline || effect.params.innerHighlight > 0 ? null : undefined;
+    case 'crt':
+      return null;
+    case 'ascii':
+      return null;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Whether the stack carries state from frame to frame, so frames must be processed in order
+ */
+export function hasTemporalEffects(effects: EffectConfig[]): boolean {
+  return effects.some(effect => effect.enabled && (
+    (effect.type === 'dither' && effect.params.temporalStability) ||
+    (effect.type === 'crt' && effect.params.persistence > 0)
+  ));
+}
+
+/**
+ * Seconds of the loop's end to process before its first frame, so frame-to-frame state
+ * (phosphor persistence) starts the loop the way the loop's own end leaves it
+ */
+export function getStackWarmupSeconds(effects: EffectConfig[]): number {
+  return Math.max(0, ...effects.map(effect => (effect.enabled && effect.type === 'crt' ? getPersistenceWarmupSeconds(effect.params) : 0)));
+}
+
+/**
+ * The palette every output pixel belongs to after the whole stack, or null if colors are unrestricted
+ */
+export function getStackOutputPalette(effects: EffectConfig[]): RGB[] | null {
+  let palette: RGB[] | null = null;
+  for (const effect of effects) {
+    if (!effect.enabled) continue;
+    const next = getEffectPalette(effect);
+    if (next !== undefined) palette = next;
+  }
+  return palette;
+}
+
+/**
+ * Block grid of the nearest pixelate effect to `index`, searching `first` direction before the other
+ * (1px blocks without one)
+ */
+function getNearestPixelGrid(
+  effects: EffectConfig[],
+  index: number,
+  first: 'after' | 'before',
+  width: number,
+  height: number,
+  context: EffectStackContext
+): PixelGrid {
+  const after = effects.slice(index + 1).find(e => e.type === 'pixelate');
+  const before = effects.slice(0, index).reverse().find(e => e.type === 'pixelate');
+  const pixelate = first === 'after' ? after ?? before : before ?? after;
+  if (pixelate?.type !== 'pixelate') return { blockWidth: 1, blockHeight: 1, originX: 0, originY: 0 };
+  return getPixelGrid(pixelate.params, width, height, context.exportWidth, context.exportHeight);
+}
+
+/**
+ * Per-effect state that carries from frame to frame. Temporal dithering restarts at every loop boundary;
+ * phosphor glow carries across it, since the loop's last frames lead into its first.
+ */
+export class EffectStackState {
+  private temporal: Map<string, TemporalDitherState> = new Map();
+  private phosphor: Map<string, PhosphorState> = new Map();
+
+  getTemporal(effectId: string): TemporalDitherState {
+    let state = this.temporal.get(effectId);
+    if (!state) {
+      state = new TemporalDitherState();
+      this.temporal.set(effectId, state);
+    }
+    return state;
+  }
+
+  getPhosphor(effectId: string): PhosphorState {
+    let state = this.phosphor.get(effectId);
+    if (!state) {
+      state = new PhosphorState();
+      this.phosphor.set(effectId, state);
+    }
+    return state;
+  }
+
+  reset(): void {
+    this.temporal.forEach(state => state.reset());
+  }
+}
+
+export interface EffectStackContext {
+  loopT: number; // 0-1, position of this frame in the loop
+  loopDuration: number; // seconds
+  background: BackgroundSettings;
+  exportWidth: number; // export resolution - snapped pixel grids and the background are laid out on its crop
+  exportHeight: number;
+  state?: EffectStackState;
+}
+
+// ASCII is drawn with canvas text, so it needs a 2D context to render into (offscreen, so it works in workers)
+let asciiCanvas: OffscreenCanvas | null = null;
+
+function getAsciiContext(width: number, height: number): OffscreenCanvasRenderingContext2D | null {
+  if (!asciiCanvas) asciiCanvas = new OffscreenCanvas(width, height);
+  if (asciiCanvas.width !== width || asciiCanvas.height !== height) {
+    asciiCanvas.width = width;
+    asciiCanvas.height = height;
+  }
+  return asciiCanvas.getContext('2d', { willReadFrequently: true });
+}
+
+function applyAscii(imageData: ImageData, params: EffectParams<'ascii'>, context: EffectStackContext): void {
+  const { width, height } = imageData;
+  const ctx = getAsciiContext(width, height);
+  if (!ctx) return;
+  const { background } = context;
+
+  const frame = imageDataToASCIICells(imageData, width, height, {
+    charset: params.charset,
+    resolution: params.resolution,
+    invert: params.invert,
+    contrast: params.contrast,
+    gamma: params.gamma,
+    colorMode: params.colorMode,
+    textColor: params.textColor,
+    backgroundColor: background.backgroundColor,
+    // Gradients and patterns vary across the frame - compare each cell against what's behind it
+    backgroundAt: isFlatBackground(background)
+      ? undefined
+      : createBackgroundSampler(background, width, height, context.exportWidth, context.exportHeight, context.loopT),
+  });
+
+  // The incoming frame shows through a translucent background, like the old overlay did
+  ctx.putImageData(imageData, 0, 0);
+  renderASCIIToCanvas(ctx, frame, width, height, {
+    charset: params.charset,
+    resolution: params.resolution,
+    colorMode: params.colorMode,
+    textColor: params.textColor,
+    backgroundColor: background.backgroundColor,
+    fontSize: params.fontSize,
+    fontWeight: params.fontWeight,
+    textOpacity: params.opacity,
+    backgroundOpacity: params.backgroundOpacity,
+    brightnessBoost: params.brightnessBoost,
+  });
+  imageData.data.set(ctx.getImageData(0, 0, width, height).data);
+}
+
+/**
+ * Run the first `count` enabled effects of the stack on a frame, in place
+ */
+export function applyEffectStack(
+  imageData: ImageData,
+  effects: EffectConfig[],
+  context: EffectStackContext,
+  count: number = Infinity
+): void {
+  const { data, width, height } = imageData;
+  const enabled = effects.filter(e => e.enabled);
+  // Palette the frame is currently restricted to - what palette cycling rotates
+  let palette: RGB[] | null = null;
+
+  for (let i = 0; i < Math.min(count, enabled.length); i++) {
+    const effect = enabled[i];
+
+    switch (effect.type) {
+      case 'dither': {
+        const { params } = effect;
+        const effectPalette = getEffectPalette(effect);
+        if (!effectPalette) break;
+        applyDithering(data, width, height, effectPalette, params.ditheringType, {
+          intensity: params.intensity,
+          resolution: params.resolution,
+          metric: params.colorDistance,
+          serpentine: params.serpentine,
+          temporal: params.temporalStability ? context.state?.getTemporal(effect.id) : undefined,
+        });
+        palette = effectPalette;
+        break;
+      }
+      case 'hardware': {
+        const constraint = hardwareConstraints[effect.params.mode];
+        // The constraint expects pixels already on its palette
+        if (palette !== constraint.palette) reduceColorsTopalette(data, constraint.palette, effect.params.colorDistance);
+        applyHardwareConstraint(data, width, height, effect.params.mode, {
+          metric: effect.params.colorDistance,
+          // Attribute cells are counted in hardware pixels - the blocks of the pixelate effect that follows
+          grid: getNearestPixelGrid(enabled, i, 'after', width, height, context),
+        });
+        palette = constraint.palette;
+        break;
+      }
+      case 'paletteCycle': {
+        // Cycling rotates palette indices, so it needs a reduced palette before it
+        if (!palette) break;
+        const cyclesPerLoop = getCyclesPerLoop(effect.params.period, context.loopDuration);
+        remapPaletteColors(data, palette, getCycledPalette(palette, effect.params.ranges, context.loopT, cyclesPerLoop));
+        break;
+      }
+      case 'pixelate':
+        pixelateImageData(
+          data,
+          width,
+          height,
+          getPixelGrid(effect.params, width, height, context.exportWidth, context.exportHeight),
+          effect.params.sampling
+        );
+        if (samplingBlendsColors(effect.params.sampling)) palette = null;
+        break;
+      case 'cleanup': {
+        const { params } = effect;
+        // Sprite pixels are the blocks of the pixelation before it
+        applyPixelArtCleanup(data, width, height, getNearestPixelGrid(enabled, i, 'before', width, height, context), {
+          removeOrphans: params.removeOrphans,
+          outlineColor: params.outline ? params.outlineColor : null,
+          outlineThickness: params.outlineThickness,
+          innerHighlight: params.innerHighlight,
+          backgroundColor: context.background.backgroundColor,
+          backgroundTolerance: params.backgroundTolerance,
+        });
+        if (getEffectPalette(effect) === null) palette = null;
+        break;
+      }
+      case 'crt':
+        applyCRT(data, width, height, effect.params, context.loopT, context.loopDuration, context.state?.getPhosphor(effect.id));
+        palette = null;
+        break;
+      case 'ascii':
+        applyAscii(imageData, effect.params, context);
+        palette = null;
+        break;
+    }
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Effect worker pool
+ * Runs processFrame in module workers so CPU effects (error diffusion, hardware constraints, ASCII)
+ * never block the UI thread. Frames travel as transferred ImageBitmaps or pixel buffers - nothing is copied.
+ * The preview and exports share one pool.
+ */
+
+import { pickBackgroundSettings } from './background';
+import { customPaletteStore, CustomPalette } from './customPalettes';
+import type { FrameSettings } from './frameProcessor';
+
+interface EffectWorkerJob {
+  settings: FrameSettings;
+  loopT: number;
+  count?: number; // only run the first `count` enabled effects
+  stream?: string; // frames of one stream share per-effect state, in the order they were posted
+}
+
+type EffectWorkerFrame =
+  | { kind: 'bitmap'; bitmap: ImageBitmap }
+  | { kind: 'pixels'; buffer: ArrayBuffer; width: number; height: number };
+
+export type EffectWorkerRequest =
+  | (EffectWorkerFrame & EffectWorkerJob & {
+    id: number;
+    customPalettes?: CustomPalette[]; // sent whenever the main thread's palettes changed
+  })
+  | { kind: 'endStream'; stream: string };
+
+export type EffectWorkerResponse =
+  | { id: number; kind: 'bitmap'; bitmap: ImageBitmap }
+  | { id: number; kind: 'pixels'; buffer: ArrayBuffer; width: number; height: number }
+  | { id: number; kind: 'error'; message: string };
+
+interface PendingJob {
+  resolve: (response: EffectWorkerResponse) => void;
+  reject: (error: Error) => void;
+}
+
+export class EffectWorkerPool {
+  private workers: Worker[];
+  private syncedPalettes: (CustomPalette[] | null)[];
+  private pending: Map<number, PendingJob> = new Map();
+  private nextId = 0;
+  /** Set when a worker failed (e.g. couldn't load) - the pool is replaced by main-thread processing */
+  failed = false;
+
+  constructor(size: number) {
+    this.workers = Array.from({ length: size }, () => {
+      const worker = new Worker(new URL('../workers/effectWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<EffectWorkerResponse>) => this.settle(e.data);
+      worker.onerror = (e) => this.fail(e.message);
+      return worker;
+    });
+    this.syncedPalettes = this.workers.map(() => null);
+  }
+
+  get size(): number {
+    return this.workers.length;
+  }
+
+  /**
+   * Process a frame given as an ImageBitmap (transferred, so it can't be used afterwards)
+   */
+  async processBitmap(
+    workerIndex: number,
+    bitmap: ImageBitmap,
+    settings: FrameSettings,
+    loopT: number,
+    options: { count?: number; stream?: string } = {}
+  ): Promise<ImageBitmap> {
+    const response = await this.post(workerIndex, { kind: 'bitmap', bitmap, settings, loopT, ...options }, [bitmap]);
+    if (response.kind !== 'bitmap') throw new Error('Unexpected effect worker response');
+    return response.bitmap;
+  }
+
+  /**
+   * Process ImageData. Its buffer is transferred to the worker and back, so use the returned ImageData.
+   */
+  async processImageData(
+    workerIndex: number,
+    imageData: ImageData,
+    settings: FrameSettings,
+    loopT: number,
+    options: { count?: number; stream?: string } = {}
+  ): Promise<ImageData> {
+    const { width, height } = imageData;
+    const buffer = imageData.data.buffer as ArrayBuffer;
+    const response = await this.post(workerIndex, { kind: 'pixels', buffer, width, height, settings, loopT, ...options }, [buffer]);
+    if (response.kind !== 'pixels') throw new Error('Unexpected effect worker response');
+    return new ImageData(new Uint8ClampedArray(response.buffer), response.width, response.height);
+  }
+
+  /** Drop a stream's per-effect state on every worker */
+  endStream(stream: string): void {
+    this.workers.forEach(worker => worker.postMessage({ kind: 'endStream', stream } satisfies EffectWorkerRequest));
+  }
+
+  dispose(): void {
+    this.workers.forEach(worker => worker.terminate());
+    this.pending.forEach(job => job.reject(new Error('Effect worker pool disposed')));
+    this.pending.clear();
+  }
+
+  private post(
+    workerIndex: number,
+    job: EffectWorkerFrame & EffectWorkerJob,
+    transfer: Transferable[]
+  ): Promise<EffectWorkerResponse> {
+    const index = workerIndex % this.workers.length;
+    const id = this.nextId++;
+
+    // Workers can't read localStorage - send the custom palettes along when they changed
+    const palettes = customPaletteStore.getAll();
+    const customPalettes = this.syncedPalettes[index] !== palettes ? palettes : undefined;
+    this.syncedPalettes[index] = palettes;
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      // Only the fields processFrame reads - not the whole settings object
+      const { effects, loopDuration, exportWidth, exportHeight } = job.settings;
+      const settings: FrameSettings = { effects, loopDuration, exportWidth, exportHeight, ...pickBackgroundSettings(job.settings) };
+      this.workers[index].postMessage({ ...job, settings, id, customPalettes } as EffectWorkerRequest, transfer);
+    });
+  }
+
+  private fail(message: string): void {
+    console.error('Effect worker error:', message);
+    this.failed = true;
+    this.pending.forEach(job => job.reject(new Error(message || 'Effect worker failed')));
+    this.pending.clear();
+  }
+
+  private settle(response: EffectWorkerResponse): void {
+    const job = this.pending.get(response.id);
+    if (!job) return;
+    this.pending.delete(response.id);
+    if (response.kind === 'error') job.reject(new Error(response.message));
+    else job.resolve(response);
+  }
+}
+
+let sharedPool: EffectWorkerPool | null | undefined;
+
+/**
+ * The shared pool, created on first use - null where module workers or OffscreenCanvas are unavailable
+ * (callers then run processFrame on the main thread)
+ */
+export function getEffectWorkerPool(): EffectWorkerPool | null {
+  if (sharedPool?.failed) {
+    sharedPool.dispose();
+    sharedPool = null;
+  }
+  if (sharedPool !== undefined) return sharedPool;
+
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined' || typeof createImageBitmap === 'undefined') {
+    sharedPool = null;
+    return sharedPool;
+  }
+
+  try {
+    // Leave a core for the UI thread and WebGL
+    const size = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+    sharedPool = new EffectWorkerPool(size);
+  } catch (e) {
+    console.warn('Effect workers unavailable, processing on the main thread:', e);
+    sharedPool = null;
+  }
+  return sharedPool;
+}
@@ -0,0 +1,135 @@
+/**
+ * Frame processor
+ * The one place a rendered frame becomes an output frame. The live preview and every export path
+ * run frames through processFrame (or hand the same stack tail to the GPU engine), so an exported
+ * file always matches what the preview showed.
+ */
+
+import type { AnimationSettings, EffectConfig } from '../types';
+import { applyEffectStack, EffectStackState, getEffectPalette } from './effectStack';
+import type { GPUEffectsEngine, GPURetroOptions } from './gpuShaders';
+import { getCycledPalette, getCyclesPerLoop } from './paletteCycling';
+import { getPixelGrid } from './pixelation';
+import { BackgroundSettings, pickBackgroundSettings } from './background';
+
+export type FrameSettings = Pick<AnimationSettings, 'effects' | 'loopDuration' | 'exportWidth' | 'exportHeight'> & BackgroundSettings;
+
+export interface FrameContext {
+  loopT: number; // 0-1, position of the frame in the loop
+  state?: EffectStackState; // carries temporal dithering between consecutive frames
+  count?: number; // only run the first `count` enabled effects (the rest run on the GPU)
+}
+
+/**
+ * Run the settings' effect stack on a frame, in place
+ */
+export function processFrame(imageData: ImageData, settings: FrameSettings, context: FrameContext = { loopT: 0 }): void {
+  applyEffectStack(imageData, settings.effects, {
+    loopT: context.loopT,
+    loopDuration: settings.loopDuration,
+    background: pickBackgroundSettings(settings),
+    exportWidth: settings.exportWidth,
+    exportHeight: settings.exportHeight,
+    state: context.state,
+  }, context.count);
+}
+
+/**
+ * Processes a sequence of frames, restarting per-effect state whenever the loop wraps
+ * (or the preview is scrubbed backwards) so every loop repeats exactly
+ */
+export class FrameProcessor {
+  private state = new EffectStackState();
+  private lastLoopT = 0;
+
+  process(imageData: ImageData, settings: FrameSettings, loopT: number, count?: number): void {
+    this.advance(loopT);
+    processFrame(imageData, settings, { loopT, state: this.state, count });
+  }
+
+  /** Move to a loop position without processing a frame (e.g. when the GPU runs the whole stack) */
+  advance(loopT: number): void {
+    if (loopT < this.lastLoopT) this.state.reset();
+    this.lastLoopT = loopT;
+  }
+}
+
+/**
+ * Loop position of export frame `index` - the same clock time the exporter renders it at
+ */
+export function getExportFrameLoopT(settings: Pick<AnimationSettings, 'exportFps' | 'loopDuration'>, index: number): number {
+  return (index / settings.exportFps / settings.loopDuration) % 1;
+}
+
+type DitherEffect = Extract<EffectConfig, { type: 'dither' }>;
+type PaletteCycleEffect = Extract<EffectConfig, { type: 'paletteCycle' }>;
+type PixelateEffect = Extract<EffectConfig, { type: 'pixelate' }>;
+
+export interface GPUTail {
+  start: number; // index of the first enabled effect the GPU runs; everything before it runs through processFrame
+  dither: DitherEffect | null;
+  cycle: PaletteCycleEffect | null;
+  pixelate: PixelateEffect | null;
+}
+
+/**
+ * Split the enabled effects into a CPU head and the tail the GPU engine runs in one pass:
+ * [dither (ordered or palette only)] [palette cycling] [pixelate (corner sampling)], each part optional.
+ * Error diffusion, temporal stability, other pixelate sampling, hardware constraints and ASCII stay on the CPU.
+ */
+export function planGPUTail(effects: EffectConfig[], engine: GPUEffectsEngine): GPUTail {
+  const enabled = effects.filter(effect => effect.enabled);
+  const tail: GPUTail = { start: enabled.length, dither: null, cycle: null, pixelate: null };
+
+  const last = enabled[tail.start - 1];
+  if (last?.type === 'pixelate' && last.params.sampling === 'corner') {
+    tail.pixelate = last;
+    tail.start--;
+  }
+
+  const cycle = enabled[tail.start - 1];
+  const ditherIndex = cycle?.type === 'paletteCycle' ? tail.start - 2 : tail.start - 1;
+  const dither = enabled[ditherIndex];
+  if (
+    dither?.type === 'dither' &&
+    !dither.params.temporalStability &&
+    (dither.params.ditheringType === 'none' || engine.supportsDithering(dither.params.ditheringType))
+  ) {
+    tail.dither = dither;
+    tail.cycle = cycle?.type === 'paletteCycle' ? cycle : null;
+    tail.start = ditherIndex;
+  }
+
+  return tail;
+}
+
+/**
+ * GPU engine options equivalent to running the tail's effects through processFrame on a width × height frame
+ */
+export function getGPUTailOptions(
+  tail: GPUTail,
+  settings: FrameSettings,
+  loopT: number,
+  width: number,
+  height: number
+): GPURetroOptions {
+  const dither = tail.dither?.params;
+  const palette = (tail.dither && getEffectPalette(tail.dither)) || [];
+  const outputPalette = tail.cycle && palette.length > 0
+    ? getCycledPalette(palette, tail.cycle.params.ranges, loopT, getCyclesPerLoop(tail.cycle.params.period, settings.loopDuration))
+    : palette;
+
+  return {
+    ditheringEnabled: dither !== undefined && dither.ditheringType !== 'none',
+    ditheringType: dither?.ditheringType ?? 'none',
+    ditheringIntensity: dither?.intensity ?? 1,
+    ditheringResolution: dither?.resolution ?? 1,
+    palette,
+    outputPalette,
+    colorDistance: dither?.colorDistance ?? 'rgb',
+    reducePalette: palette.length > 0,
+    pixelGrid: tail.pixelate
+      ? getPixelGrid(tail.pixelate.params, width, height, settings.exportWidth, settings.exportHeight)
+      : null,
+  };
+}
@@ -1,104 +1,276 @@
 /**
  * GPU-Accelerated Shaders for Performance
- * Uses WebGL 2.0 context for efficient pixelation and dithering
+ * Uses WebGL 2.0 render targets for pixelation, ordered dithering and palette reduction.
+ * Error-diffusion dithering is inherently sequential, so it stays on the CPU (see dithering.ts).
  */
 
-const PIXELATION_VERTEX_SHADER = `#version 300 es
+import { DitheringType, getThresholdMap, isOrderedDithering } from './dithering';
+import { ThresholdMap } from './thresholdMaps';
+import { ColorDistanceMetric, toMetricSpace } from './colorDistance';
+import type { PixelGrid } from './pixelation';
+
+const FULLSCREEN_VERTEX_SHADER = `#version 300 es
 precision highp float;
 
 in vec2 position;
-in vec2 texCoord;
-
-out vec2 vTexCoord;
 
 void main() {
   gl_Position = vec4(position, 0.0, 1.0);
-  vTexCoord = texCoord;
 }`;
 
+/*
+ * Textures are uploaded with FLIP_Y, so texel row 0 is the bottom of the image - the same
+ * orientation as gl_FragCoord. Dither patterns and pixel blocks are anchored to the top-left
+ * corner (topRow) so they line up with the CPU implementation used by exports.
+ */
+
 const PIXELATION_FRAGMENT_SHADER = `#version 300 es
 precision highp float;
 
 uniform sampler2D uTexture;
-uniform vec2 uPixelSize;
-uniform vec2 uTexSize;
+uniform vec2 uSourceSize;
+uniform vec2 uTargetSize;
+uniform vec2 uBlockSize; // pixels per block, may be fractional
+uniform vec2 uBlockOrigin; // top-left corner of block (0, 0), in pixels from the top-left
 
-in vec2 vTexCoord;
 out vec4 fragColor;
 
+// Start of the block containing pixel p - the same rounded edges as getBlockEdges
+vec2 blockStart(vec2 p) {
+  vec2 index = floor((p - uBlockOrigin) / uBlockSize);
+  vec2 previous = floor(uBlockOrigin + (index - 1.0) * uBlockSize + 0.5);
+  vec2 start = floor(uBlockOrigin + index * uBlockSize + 0.5);
+  vec2 next = floor(uBlockOrigin + (index + 1.0) * uBlockSize + 0.5);
+  // Rounding can move p across an edge into a neighbouring block
+  start = mix(start, previous, step(p + 1.0, start));
+  start = mix(start, next, step(next, p));
+  return max(start, vec2(0.0));
+}
+
 void main() {
-  vec2 pixelCoord = floor(vTexCoord * uTexSize / uPixelSize) * uPixelSize / uTexSize;
-  fragColor = texture(uTexture, pixelCoord);
+  ivec2 target = ivec2(gl_FragCoord.xy);
+  int height = int(uTargetSize.y);
+  int topRow = height - 1 - target.y;
+
+  // Sample the top-left corner of each block, like pixelateImageData's corner sampling
+  ivec2 corner = ivec2(blockStart(vec2(float(target.x), float(topRow))));
+
+  // Scale from the top like applyDitheringAtLowerResolution, then flip to the texture's rows
+  ivec2 sourceSize = ivec2(uSourceSize);
+  ivec2 source = corner * sourceSize / ivec2(uTargetSize);
+  source.y = sourceSize.y - 1 - source.y;
+  fragColor = texelFetch(uTexture, clamp(source, ivec2(0), sourceSize - 1), 0);
 }`;
 
-const DITHERING_FRAGMENT_SHADER = `#version 300 es
+const QUANTIZE_FRAGMENT_SHADER = `#version 300 es
 precision highp float;
 
 uniform sampler2D uTexture;
-uniform vec2 uTexSize;
+uniform sampler2D uPalette; // row 0: RGB (0-255), row 1: the same colors in the metric's space
+uniform int uPaletteSize;
+uniform int uMetric;
+uniform vec2 uSourceSize;
+uniform vec2 uTargetSize;
+uniform bool uDither;
+uniform sampler2D uThreshold; // tiled threshold map from thresholdMaps.ts (0..1)
+uniform int uThresholdSize;
 uniform float uIntensity;
-uniform float uResolution;
 
-in vec2 vTexCoord;
 out vec4 fragColor;
 
-// Bayer 4x4 matrix
-const mat4 bayerMatrix = mat4(
-  0.0, 8.0, 2.0, 10.0,
-  12.0, 4.0, 14.0, 6.0,
-  3.0, 11.0, 1.0, 9.0,
-  15.0, 7.0, 13.0, 5.0
-) / 16.0;
-
-vec3 dither(vec3 color, vec2 texCoord) {
-  vec2 pixelCoord = texCoord * uTexSize;
-  vec2 bayerCoord = mod(pixelCoord, 4.0);
-  float threshold = bayerMatrix[int(bayerCoord.x)][int(bayerCoord.y)];
-  
-  return color + (threshold - 0.5) * uIntensity / 255.0;
+const int METRIC_REDMEAN = 1;
+const int METRIC_CIEDE2000 = 2;
+const int METRIC_OKLAB = 3;
+const float DEG = 0.017453292519943295;
+
+// Conversions mirror colorDistance.ts
+vec3 srgbToLinear(vec3 color) {
+  vec3 c = color / 255.0;
+  return mix(c / 12.92, pow((c + 0.055) / 1.055, vec3(2.4)), step(vec3(0.04045), c));
 }
 
-void main() {
-  vec4 texColor = texture(uTexture, vTexCoord);
-  vec3 dithered = dither(texColor.rgb, vTexCoord);
-  fragColor = vec4(dithered, texColor.a);
-}`;
+vec3 cbrt(vec3 v) {
+  return sign(v) * pow(abs(v), vec3(1.0 / 3.0));
+}
 
-const PALETTE_REDUCTION_FRAGMENT_SHADER = `#version 300 es
-precision highp float;
+vec3 rgbToOklab(vec3 color) {
+  vec3 c = srgbToLinear(color);
+  vec3 lms = cbrt(vec3(
+    0.4122214708 * c.r + 0.5363325363 * c.g + 0.0514459929 * c.b,
+    0.2119034982 * c.r + 0.6806995451 * c.g + 0.1073969566 * c.b,
+    0.0883024619 * c.r + 0.2817188376 * c.g + 0.6299787005 * c.b
+  ));
+  return vec3(
+    0.2104542553 * lms.x + 0.7936177850 * lms.y - 0.0040720468 * lms.z,
+    1.9779984951 * lms.x - 2.4285922050 * lms.y + 0.4505937099 * lms.z,
+    0.0259040371 * lms.x + 0.7827717662 * lms.y - 0.8086757660 * lms.z
+  );
+}
 
-uniform sampler2D uTexture;
-uniform vec3 uPalette[256];
-uniform int uPaletteSize;
+vec3 rgbToLab(vec3 color) {
+  vec3 c = srgbToLinear(color);
+  vec3 xyz = vec3(
+    (0.4124564 * c.r + 0.3575761 * c.g + 0.1804375 * c.b) / 0.95047,
+    0.2126729 * c.r + 0.7151522 * c.g + 0.0721750 * c.b,
+    (0.0193339 * c.r + 0.1191920 * c.g + 0.9503041 * c.b) / 1.08883
+  );
+  vec3 f = mix(7.787 * xyz + 16.0 / 116.0, cbrt(xyz), step(vec3(0.008856), xyz));
+  return vec3(116.0 * f.y - 16.0, 500.0 * (f.x - f.y), 200.0 * (f.y - f.z));
+}
 
-in vec2 vTexCoord;
-out vec4 fragColor;
+float hueAngle(float b, float a) {
+  if (a == 0.0 && b == 0.0) return 0.0;
+  float h = atan(b, a) / DEG;
+  return h < 0.0 ? h + 360.0 : h;
+}
+
+float ciede2000(vec3 lab1, vec3 lab2) {
+  float C1 = length(lab1.yz);
+  float C2 = length(lab2.yz);
+  float Cbar7 = pow((C1 + C2) / 2.0, 7.0);
+  float G = 0.5 * (1.0 - sqrt(Cbar7 / (Cbar7 + 6103515625.0)));
+
+  float a1p = lab1.y * (1.0 + G);
+  float a2p = lab2.y * (1.0 + G);
+  float C1p = length(vec2(a1p, lab1.z));
+  float C2p = length(vec2(a2p, lab2.z));
+  float h1p = hueAngle(lab1.z, a1p);
+  float h2p = hueAngle(lab2.z, a2p);
+
+  float dLp = lab2.x - lab1.x;
+  float dCp = C2p - C1p;
+
+  float dhp = 0.0;
+  if (C1p * C2p != 0.0) {
+    dhp = h2p - h1p;
+    if (dhp > 180.0) dhp -= 360.0;
+    else if (dhp < -180.0) dhp += 360.0;
+  }
+  float dHp = 2.0 * sqrt(C1p * C2p) * sin(dhp / 2.0 * DEG);
+
+  float Lbarp = (lab1.x + lab2.x) / 2.0;
+  float Cbarp = (C1p + C2p) / 2.0;
+
+  float hbarp = h1p + h2p;
+  if (C1p * C2p != 0.0) {
+    if (abs(h1p - h2p) > 180.0) {
+      hbarp = h1p + h2p < 360.0 ? (h1p + h2p + 360.0) / 2.0 : (h1p + h2p - 360.0) / 2.0;
+    } else {
+      hbarp = (h1p + h2p) / 2.0;
+    }
+  }
+
+  float T = 1.0
+    - 0.17 * cos((hbarp - 30.0) * DEG)
+    + 0.24 * cos(2.0 * hbarp * DEG)
+    + 0.32 * cos((3.0 * hbarp + 6.0) * DEG)
+    - 0.20 * cos((4.0 * hbarp - 63.0) * DEG);
+
+  float dTheta = 30.0 * exp(-pow((hbarp - 275.0) / 25.0, 2.0));
+  float Cbarp7 = pow(Cbarp, 7.0);
+  float Rc = 2.0 * sqrt(Cbarp7 / (Cbarp7 + 6103515625.0));
+  float Lterm = pow(Lbarp - 50.0, 2.0);
+  float Sl = 1.0 + 0.015 * Lterm / sqrt(20.0 + Lterm);
+  float Sc = 1.0 + 0.045 * Cbarp;
+  float Sh = 1.0 + 0.015 * Cbarp * T;
+  float Rt = -sin(2.0 * dTheta * DEG) * Rc;
+
+  float l = dLp / Sl;
+  float c = dCp / Sc;
+  float h = dHp / Sh;
+  return sqrt(l * l + c * c + h * h + Rt * c * h);
+}
+
+vec3 toMetricSpace(vec3 color) {
+  if (uMetric == METRIC_OKLAB) return rgbToOklab(color);
+  if (uMetric == METRIC_CIEDE2000) return rgbToLab(color);
+  return color;
+}
+
+float metricDistance(vec3 a, vec3 b) {
+  if (uMetric == METRIC_CIEDE2000) return ciede2000(a, b);
+
+  vec3 d = a - b;
+  if (uMetric == METRIC_REDMEAN) {
+    float rMean = (a.r + b.r) / 2.0;
+    return (2.0 + rMean / 256.0) * d.r * d.r + 4.0 * d.g * d.g + (2.0 + (255.0 - rMean) / 256.0) * d.b * d.b;
+  }
+  return dot(d, d);
+}
 
 vec3 findNearestColor(vec3 color) {
+  vec3 target = toMetricSpace(color);
   float minDist = 1e10;
   vec3 nearest = color;
-  
-  for (int i = 0; i < 256; i++) {
-    if (i >= uPaletteSize) break;
-    
-    vec3 dist = color - uPalette[i];
-    float d = dot(dist, dist);
-    
+
+  for (int i = 0; i < uPaletteSize; i++) {
+    float d = metricDistance(target, texelFetch(uPalette, ivec2(i, 1), 0).rgb);
+
     if (d < minDist) {
       minDist = d;
-      nearest = uPalette[i];
+      nearest = texelFetch(uPalette, ivec2(i, 0), 0).rgb;
     }
   }
-  
+
   return nearest;
 }
 
 void main() {
-  vec4 texColor = texture(uTexture, vTexCoord);
-  vec3 reduced = findNearestColor(texColor.rgb);
-  fragColor = vec4(reduced, texColor.a);
+  ivec2 target = ivec2(gl_FragCoord.xy);
+  ivec2 sourceSize = ivec2(uSourceSize);
+  ivec2 targetSize = ivec2(uTargetSize);
+  int topRow = targetSize.y - 1 - target.y;
+
+  // Box-average the source pixels under this target pixel, with the same top-left anchored
+  // integer box bounds as applyDitheringAtLowerResolution (a 1×1 box at full resolution)
+  ivec2 start = ivec2(target.x, topRow) * sourceSize / targetSize;
+  ivec2 end = max((ivec2(target.x, topRow) + 1) * sourceSize / targetSize, start + 1);
+  // Summed as whole 0-255 values so the average rounds exactly like the CPU's
+  vec4 sum = vec4(0.0);
+  for (int y = start.y; y < end.y; y++) {
+    for (int x = start.x; x < end.x; x++) {
+      vec4 texel = texelFetch(uTexture, clamp(ivec2(x, sourceSize.y - 1 - y), ivec2(0), sourceSize - 1), 0);
+      sum += floor(texel * 255.0 + 0.5);
+    }
+  }
+  vec4 average = floor(sum / float((end.x - start.x) * (end.y - start.y)) + 0.5);
+  vec4 texColor = average / 255.0;
+  vec3 color = average.rgb;
+
+  if (uDither) {
+    float threshold = texelFetch(uThreshold, ivec2(target.x % uThresholdSize, topRow % uThresholdSize), 0).r;
+    color = clamp(color + (threshold - 0.5) * 255.0 * uIntensity, 0.0, 255.0);
+  }
+
+  fragColor = vec4(findNearestColor(floor(color)) / 255.0, texColor.a);
 }`;
 
+const METRIC_INDEX: Record<ColorDistanceMetric, number> = {
+  rgb: 0,
+  redmean: 1,
+  ciede2000: 2,
+  oklab: 3,
+};
+
+export interface GPURetroOptions {
+  ditheringEnabled: boolean;
+  ditheringType: DitheringType;
+  ditheringIntensity: number;
+  ditheringResolution: number;
+  palette: [number, number, number][];
+  outputPalette?: [number, number, number][]; // color written for each palette entry (palette cycling), defaults to palette
+  colorDistance: ColorDistanceMetric;
+  reducePalette: boolean;
+  pixelGrid: PixelGrid | null; // null = no pixelation
+}
+
+interface RenderTarget {
+  framebuffer: WebGLFramebuffer;
+  texture: WebGLTexture;
+  width: number;
+  height: number;
+}
+
 /**
  * WebGL shader program manager
  */
@@ -120,6 +292,8 @@ class ShaderProgram {
 
     this.gl.attachShader(program, vertexShader);
     this.gl.attachShader(program, fragmentShader);
+    // Keep the quad's position attribute at a fixed location shared by all programs
+    this.gl.bindAttribLocation(program, 0, 'position');
     this.gl.linkProgram(program);
 
     if (!this.gl.getProgramParameter(program, this.gl.LINK_STATUS)) {
@@ -127,6 +301,9 @@ class ShaderProgram {
       throw new Error('Failed to link WebGL program');
     }
 
+    this.gl.deleteShader(vertexShader);
+    this.gl.deleteShader(fragmentShader);
+
     return program;
   }
 
@@ -153,10 +330,6 @@ class ShaderProgram {
     return this.gl.getUniformLocation(this.program, name);
   }
 
-  getAttribLocation(name: string): number {
-    return this.gl.getAttribLocation(this.program, name);
-  }
-
   dispose(): void {
     this.gl.deleteProgram(this.program);
   }
@@ -164,24 +337,32 @@ class ShaderProgram {
 
 /**
  * GPU Effects Engine - handles GPU-accelerated visual effects
+ * Renders into the canvas it was initialized with: source frame → (quantize target) → pixelate → canvas.
  */
 export class GPUEffectsEngine {
   private gl: WebGL2RenderingContext | null = null;
   private pixelationProgram: ShaderProgram | null = null;
-  private ditheringProgram: ShaderProgram | null = null;
-  private paletteProgram: ShaderProgram | null = null;
+  private quantizeProgram: ShaderProgram | null = null;
   private quad: WebGLVertexArrayObject | null = null;
-  private framebuffer: WebGLFramebuffer | null = null;
-  private texture: WebGLTexture | null = null;
+  private quadBuffer: WebGLBuffer | null = null;
+  private sourceTexture: WebGLTexture | null = null;
+  private paletteTexture: WebGLTexture | null = null;
+  private uploadedPalette: [number, number, number][] | null = null;
+  private uploadedOutputPalette: [number, number, number][] | null = null;
+  private uploadedMetric: ColorDistanceMetric | null = null;
+  private thresholdTexture: WebGLTexture | null = null;
+  private uploadedThresholdMap: ThresholdMap | null = null;
+  private quantizeTarget: RenderTarget | null = null;
 
   /**
-   * Initialize GPU effects from canvas
+   * Initialize GPU effects on the output canvas. Returns false when WebGL2 is unavailable.
    */
   initializeFromCanvas(canvas: HTMLCanvasElement): boolean {
     try {
       const gl = canvas.getContext('webgl2', {
         preserveDrawingBuffer: true,
         antialias: false,
+        alpha: false,
       });
 
       if (!gl) return false;
@@ -189,23 +370,37 @@ export class GPUEffectsEngine {
       this.gl = gl;
       this.setupQuad();
       this.createPrograms();
-      this.createFramebuffer(canvas.width, canvas.height);
+      this.sourceTexture = this.createTexture();
+      this.paletteTexture = this.createTexture();
+      this.thresholdTexture = this.createTexture();
 
       return true;
     } catch (e) {
       console.warn('GPU effects not available:', e);
+      this.dispose();
       return false;
     }
   }
 
+  get isReady(): boolean {
+    return this.gl !== null && !this.gl.isContextLost();
+  }
+
+  /**
+   * Only ordered (threshold map) dithering maps onto a fragment shader; diffusion needs the CPU path
+   */
+  supportsDithering(type: DitheringType): boolean {
+    return isOrderedDithering(type);
+  }
+
   private setupQuad(): void {
     if (!this.gl) return;
 
     const positions = new Float32Array([
-      -1, -1, 0, 0,
-      1, -1, 1, 0,
-      -1, 1, 0, 1,
-      1, 1, 1, 1,
+      -1, -1,
+      1, -1,
+      -1, 1,
+      1, 1,
     ]);
 
     const vao = this.gl.createVertexArray();
@@ -216,8 +411,12 @@ export class GPUEffectsEngine {
     const vbo = this.gl.createBuffer();
     this.gl.bindBuffer(this.gl.ARRAY_BUFFER, vbo);
     this.gl.bufferData(this.gl.ARRAY_BUFFER, positions, this.gl.STATIC_DRAW);
+    this.gl.enableVertexAttribArray(0);
+    this.gl.vertexAttribPointer(0, 2, this.gl.FLOAT, false, 0, 0);
+    this.gl.bindVertexArray(null);
 
     this.quad = vao;
+    this.quadBuffer = vbo;
   }
 
   private createPrograms(): void {
@@ -225,149 +424,229 @@ export class GPUEffectsEngine {
 
     this.pixelationProgram = new ShaderProgram(
       this.gl,
-      PIXELATION_VERTEX_SHADER,
+      FULLSCREEN_VERTEX_SHADER,
       PIXELATION_FRAGMENT_SHADER
     );
 
-    this.ditheringProgram = new ShaderProgram(
-      this.gl,
-      PIXELATION_VERTEX_SHADER,
-      DITHERING_FRAGMENT_SHADER
-    );
-
-    this.paletteProgram = new ShaderProgram(
+    this.quantizeProgram = new ShaderProgram(
       this.gl,
-      PIXELATION_VERTEX_SHADER,
-      PALETTE_REDUCTION_FRAGMENT_SHADER
+      FULLSCREEN_VERTEX_SHADER,
+      QUANTIZE_FRAGMENT_SHADER
     );
   }
 
-  private createFramebuffer(width: number, height: number): void {
-    if (!this.gl) return;
-
-    const fb = this.gl.createFramebuffer();
-    const tex = this.gl.createTexture();
+  private createTexture(): WebGLTexture {
+    const gl = this.gl!;
+    const tex = gl.createTexture();
+    if (!tex) throw new Error('Failed to create texture');
 
-    if (!fb || !tex) throw new Error('Failed to create framebuffer resources');
+    gl.bindTexture(gl.TEXTURE_2D, tex);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
 
-    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, fb);
-    this.gl.bindTexture(this.gl.TEXTURE_2D, tex);
+    return tex;
+  }
 
-    this.gl.texImage2D(
-      this.gl.TEXTURE_2D,
-      0,
-      this.gl.RGBA,
-      width,
-      height,
-      0,
-      this.gl.RGBA,
-      this.gl.UNSIGNED_BYTE,
-      null
-    );
+  /**
+   * (Re)create the intermediate render target when the quantize resolution changes
+   */
+  private ensureQuantizeTarget(width: number, height: number): RenderTarget {
+    const gl = this.gl!;
+    const existing = this.quantizeTarget;
+    if (existing && existing.width === width && existing.height === height) return existing;
+
+    if (existing) {
+      gl.deleteFramebuffer(existing.framebuffer);
+      gl.deleteTexture(existing.texture);
+    }
 
-    this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MIN_FILTER, this.gl.NEAREST);
-    this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MAG_FILTER, this.gl.NEAREST);
+    const texture = this.createTexture();
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
 
-    this.gl.framebufferTexture2D(
-      this.gl.FRAMEBUFFER,
-      this.gl.COLOR_ATTACHMENT0,
-      this.gl.TEXTURE_2D,
-      tex,
-      0
-    );
+    const framebuffer = gl.createFramebuffer();
+    if (!framebuffer) throw new Error('Failed to create framebuffer');
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
 
-    this.framebuffer = fb;
-    this.texture = tex;
+    this.quantizeTarget = { framebuffer, texture, width, height };
+    return this.quantizeTarget;
   }
 
   /**
-   * Apply pixelation effect using GPU
+   * Upload the palette as an N×2 float texture - output RGB plus the matched colors pre-converted
+   * into the metric's space (re-uploaded only when a palette or the metric changes)
    */
-  applyPixelation(
-    sourceCanvas: HTMLCanvasElement,
-    targetCanvas: HTMLCanvasElement,
-    pixelSize: number
-  ): boolean {
-    if (!this.gl || !this.pixelationProgram) return false;
-
-    try {
-      const program = this.pixelationProgram;
-      program.use();
+  private uploadPalette(
+    palette: [number, number, number][],
+    outputPalette: [number, number, number][],
+    metric: ColorDistanceMetric
+  ): void {
+    if (palette === this.uploadedPalette && outputPalette === this.uploadedOutputPalette && metric === this.uploadedMetric) return;
+    const gl = this.gl!;
+
+    const width = Math.max(1, palette.length);
+    const data = new Float32Array(width * 2 * 4);
+    palette.forEach(([r, g, b], i) => {
+      const converted = toMetricSpace(metric, r, g, b);
+      data.set([...(outputPalette[i] ?? [r, g, b]), 255], i * 4);
+      data.set([...converted, 1], (width + i) * 4);
+    });
+
+    gl.bindTexture(gl.TEXTURE_2D, this.paletteTexture);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA32F, width, 2, 0, gl.RGBA, gl.FLOAT, data);
+
+    this.uploadedPalette = palette;
+    this.uploadedOutputPalette = outputPalette;
+    this.uploadedMetric = metric;
+  }
 
-      const uPixelSize = program.getUniformLocation('uPixelSize');
-      const uTexSize = program.getUniformLocation('uTexSize');
+  /**
+   * Upload a threshold map as a single-channel float texture
+   */
+  private uploadThresholdMap(map: ThresholdMap): void {
+    if (map === this.uploadedThresholdMap) return;
+    const gl = this.gl!;
 
-      this.gl.uniform2f(uPixelSize, pixelSize, pixelSize);
-      this.gl.uniform2f(uTexSize, sourceCanvas.width, sourceCanvas.height);
+    gl.bindTexture(gl.TEXTURE_2D, this.thresholdTexture);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.R32F, map.size, map.size, 0, gl.RED, gl.FLOAT, map.values);
 
-      // Render using quad
-      if (this.quad) {
-        this.gl.bindVertexArray(this.quad);
-        this.gl.drawArrays(this.gl.TRIANGLE_STRIP, 0, 4);
-      }
+    this.uploadedThresholdMap = map;
+  }
 
-      return true;
-    } catch (e) {
-      console.warn('Pixelation failed:', e);
-      return false;
-    }
+  private drawQuad(): void {
+    const gl = this.gl!;
+    gl.bindVertexArray(this.quad);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    gl.bindVertexArray(null);
   }
 
   /**
-   * Apply dithering effect using GPU
+   * Run the retro pipeline on a source frame and draw the result into the engine's canvas.
+   * Returns false if the frame could not be processed (caller should fall back to the CPU path).
    */
-  applyDithering(
-    sourceCanvas: HTMLCanvasElement,
-    intensity: number,
-    resolution: number
-  ): boolean {
-    if (!this.gl || !this.ditheringProgram) return false;
+  render(source: TexImageSource, width: number, height: number, options: GPURetroOptions): boolean {
+    const gl = this.gl;
+    if (!gl || gl.isContextLost() || !this.pixelationProgram || !this.quantizeProgram) return false;
 
     try {
-      const program = this.ditheringProgram;
+      const canvas = gl.canvas;
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+
+      // Upload the source frame
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, this.sourceTexture);
+      gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, source);
+
+      let inputTexture = this.sourceTexture;
+      let inputWidth = width;
+      let inputHeight = height;
+
+      const dither = options.ditheringEnabled && this.supportsDithering(options.ditheringType);
+      if ((dither || options.reducePalette) && options.palette.length > 0) {
+        // Dithering at lower resolution renders into a smaller target that the pixelation pass upscales
+        const resolution = dither ? Math.min(1, options.ditheringResolution) : 1;
+        const target = this.ensureQuantizeTarget(
+          Math.max(2, Math.floor(width * resolution)),
+          Math.max(2, Math.floor(height * resolution))
+        );
+
+        this.uploadPalette(options.palette, options.outputPalette ?? options.palette, options.colorDistance);
+        const thresholdMap = isOrderedDithering(options.ditheringType) ? getThresholdMap(options.ditheringType) : null;
+        if (thresholdMap) this.uploadThresholdMap(thresholdMap);
+
+        const program = this.quantizeProgram;
+        program.use();
+        gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+        gl.viewport(0, 0, target.width, target.height);
+
+        gl.activeTexture(gl.TEXTURE0);
+        gl.bindTexture(gl.TEXTURE_2D, inputTexture);
+        gl.activeTexture(gl.TEXTURE1);
+        gl.bindTexture(gl.TEXTURE_2D, this.paletteTexture);
+        gl.activeTexture(gl.TEXTURE2);
+        gl.bindTexture(gl.TEXTURE_2D, this.thresholdTexture);
+
+        gl.uniform1i(program.getUniformLocation('uTexture'), 0);
+        gl.uniform1i(program.getUniformLocation('uPalette'), 1);
+        gl.uniform1i(program.getUniformLocation('uPaletteSize'), options.palette.length);
+        gl.uniform1i(program.getUniformLocation('uMetric'), METRIC_INDEX[options.colorDistance]);
+        gl.uniform2f(program.getUniformLocation('uSourceSize'), inputWidth, inputHeight);
+        gl.uniform2f(program.getUniformLocation('uTargetSize'), target.width, target.height);
+        gl.uniform1i(program.getUniformLocation('uDither'), dither ? 1 : 0);
+        gl.uniform1i(program.getUniformLocation('uThreshold'), 2);
+        gl.uniform1i(program.getUniformLocation('uThresholdSize'), thresholdMap?.size ?? 1);
+        gl.uniform1f(program.getUniformLocation('uIntensity'), options.ditheringIntensity);
+
+        this.drawQuad();
+
+        inputTexture = target.texture;
+        inputWidth = target.width;
+        inputHeight = target.height;
+      }
+
+      // Final pass to the canvas - pixelates, or just upscales without a pixel grid
+      const program = this.pixelationProgram;
       program.use();
+      gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+      gl.viewport(0, 0, width, height);
 
-      const uIntensity = program.getUniformLocation('uIntensity');
-      const uTexSize = program.getUniformLocation('uTexSize');
-      const uResolution = program.getUniformLocation('uResolution');
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, inputTexture);
 
-      this.gl.uniform1f(uIntensity, intensity);
-      this.gl.uniform2f(uTexSize, sourceCanvas.width, sourceCanvas.height);
-      this.gl.uniform1f(uResolution, resolution);
+      gl.uniform1i(program.getUniformLocation('uTexture'), 0);
+      gl.uniform2f(program.getUniformLocation('uSourceSize'), inputWidth, inputHeight);
+      gl.uniform2f(program.getUniformLocation('uTargetSize'), width, height);
+      const grid = options.pixelGrid ?? { blockWidth: 1, blockHeight: 1, originX: 0, originY: 0 };
+      gl.uniform2f(program.getUniformLocation('uBlockSize'), grid.blockWidth, grid.blockHeight);
+      gl.uniform2f(program.getUniformLocation('uBlockOrigin'), grid.originX, grid.originY);
 
-      if (this.quad) {
-        this.gl.bindVertexArray(this.quad);
-        this.gl.drawArrays(this.gl.TRIANGLE_STRIP, 0, 4);
-      }
+      this.drawQuad();
 
       return true;
     } catch (e) {
-      console.warn('Dithering failed:', e);
+      console.warn('GPU retro effects failed:', e);
       return false;
     }
   }
 
-  resizeFramebuffer(width: number, height: number): void {
-    if (!this.gl || !this.texture) return;
-
-    this.gl.bindTexture(this.gl.TEXTURE_2D, this.texture);
-    this.gl.texImage2D(
-      this.gl.TEXTURE_2D,
-      0,
-      this.gl.RGBA,
-      width,
-      height,
-      0,
-      this.gl.RGBA,
-      this.gl.UNSIGNED_BYTE,
-      null
-    );
-  }
-
   dispose(): void {
+    const gl = this.gl;
+    if (gl) {
+      if (this.quantizeTarget) {
+        gl.deleteFramebuffer(this.quantizeTarget.framebuffer);
+        gl.deleteTexture(this.quantizeTarget.texture);
+      }
+      if (this.sourceTexture) gl.deleteTexture(this.sourceTexture);
+      if (this.paletteTexture) gl.deleteTexture(this.paletteTexture);
+      if (this.thresholdTexture) gl.deleteTexture(this.thresholdTexture);
+      if (this.quadBuffer) gl.deleteBuffer(this.quadBuffer);
+      if (this.quad) gl.deleteVertexArray(this.quad);
+    }
     if (this.pixelationProgram) this.pixelationProgram.dispose();
-    if (this.ditheringProgram) this.ditheringProgram.dispose();
-    if (this.paletteProgram) this.paletteProgram.dispose();
+    if (this.quantizeProgram) this.quantizeProgram.dispose();
+
+    this.gl = null;
+    this.pixelationProgram = null;
+    this.quantizeProgram = null;
+    this.quad = null;
+    this.quadBuffer = null;
+    this.sourceTexture = null;
+    this.paletteTexture = null;
+    this.uploadedPalette = null;
+    this.uploadedOutputPalette = null;
+    this.uploadedMetric = null;
+    this.thresholdTexture = null;
+    this.uploadedThresholdMap = null;
+    this.quantizeTarget = null;
   }
 }
 
@@ -0,0 +1,120 @@
+/**
+ * Gradient material
+ * A MeshStandardMaterial that blends from its color to color2 across the mesh - by height, radially,
+ * by normal direction, or as a band sweeping up the mesh a whole number of times per loop. The blend
+ * replaces the diffuse and emissive colors before lighting, so metalness/roughness shading is unchanged.
+ * Positions are normalized to the geometry's bounding box (see setBounds), so it fits any geometry,
+ * including text.
+ */
+
+import * as THREE from 'three';
+import type { GradientMode } from '../types';
+
+export const gradientModeList: { value: GradientMode; label: string }[] = [
+  { value: 'height', label: 'Height' },
+  { value: 'radial', label: 'Radial' },
+  { value: 'normal', label: 'Normal Direction' },
+  { value: 'sweep', label: 'Animated Sweep' },
+];
+
+const gradientModeIndex: Record<GradientMode, number> = {
+  height: 0,
+  radial: 1,
+  normal: 2,
+  sweep: 3,
+};
+
+export class GradientMaterial extends THREE.MeshStandardMaterial {
+  color2 = new THREE.Color();
+  gradientMode: GradientMode = 'height';
+  sweepCycles = 1; // whole sweeps per loop
+  sweepPhase = 0; // 0-1, offsets this material's sweep (staggers multiple shapes)
+  loopT = 0; // set every frame by whoever animates the mesh
+
+  private readonly gradientUniforms = {
+    uGradientColor2: { value: new THREE.Color() },
+    uGradientEmissive2: { value: new THREE.Color() },
+    uGradientMode: { value: 0 },
+    uGradientBoundsMin: { value: new THREE.Vector3() },
+    uGradientBoundsMax: { value: new THREE.Vector3(1, 1, 1) },
+    uGradientSweep: { value: 0 },
+  };
+
+  onBeforeCompile(shader: THREE.WebGLProgramParametersWithUniforms): void {
+    Object.assign(shader.uniforms, this.gradientUniforms);
+
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>
+        varying vec3 vGradientPosition;
+        varying vec3 vGradientNormal;`)
+      .replace('#include <beginnormal_vertex>', `#include <beginnormal_vertex>
+        vGradientNormal = objectNormal;`)
+      .replace('#include <begin_vertex>', `#include <begin_vertex>
+        vGradientPosition = position;`);
+
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', `#include <common>
+        varying vec3 vGradientPosition;
+        varying vec3 vGradientNormal;
+        uniform vec3 uGradientColor2;
+        uniform vec3 uGradientEmissive2;
+        uniform int uGradientMode;
+        uniform vec3 uGradientBoundsMin;
+        uniform vec3 uGradientBoundsMax;
+        uniform float uGradientSweep;`)
+      .replace('#include <color_fragment>', `#include <color_fragment>
+        vec3 gradientSize = max(uGradientBoundsMax - uGradientBoundsMin, vec3(1e-4));
+        vec3 gradientLocal = (vGradientPosition - uGradientBoundsMin) / gradientSize;
+        float gradientT = gradientLocal.y;
+        if (uGradientMode == 1) {
+          gradientT = length(vGradientPosition - (uGradientBoundsMin + uGradientBoundsMax) * 0.5) / (length(gradientSize) * 0.5);
+        } else if (uGradientMode == 2) {
+          gradientT = normalize(vGradientNormal).y * 0.5 + 0.5;
+        } else if (uGradientMode == 3) {
+          gradientT = 0.5 + 0.5 * cos(2.0 * PI * (gradientLocal.y - uGradientSweep));
+        }
+        gradientT = clamp(gradientT, 0.0, 1.0);
+        diffuseColor.rgb = mix(diffuseColor.rgb, uGradientColor2, gradientT);`)
+      .replace('#include <emissivemap_fragment>', `#include <emissivemap_fragment>
+        totalEmissiveRadiance = mix(totalEmissiveRadiance, uGradientEmissive2, gradientT);`);
+  }
+
+  onBeforeRender(): void {
+    // The emissive color follows the diffuse gradient, at the same intensity
+    const uniforms = this.gradientUniforms;
+    uniforms.uGradientColor2.value.copy(this.color2);
+    uniforms.uGradientEmissive2.value.copy(this.color2).multiplyScalar(this.emissiveIntensity);
+    uniforms.uGradientMode.value = gradientModeIndex[this.gradientMode];
+    uniforms.uGradientSweep.value = this.sweepCycles * this.loopT + this.sweepPhase;
+  }
+
+  /**
+   * Bounding box of the geometry the material is drawn on - set again whenever that geometry is
+   * created or swapped
+   */
+  setBounds(bounds: THREE.Box3): void {
+    this.gradientUniforms.uGradientBoundsMin.value.copy(bounds.min);
+    this.gradientUniforms.uGradientBoundsMax.value.copy(bounds.max);
+  }
+
+  copy(source: GradientMaterial): this {
+    super.copy(source);
+    this.color2.copy(source.color2);
+    this.gradientMode = source.gradientMode;
+    this.sweepCycles = source.sweepCycles;
+    this.sweepPhase = source.sweepPhase;
+    this.loopT = source.loopT;
+    this.gradientUniforms.uGradientBoundsMin.value.copy(source.gradientUniforms.uGradientBoundsMin.value);
+    this.gradientUniforms.uGradientBoundsMax.value.copy(source.gradientUniforms.uGradientBoundsMax.value);
+    return this;
+  }
+}
+
+/**
+ * Point the gradient sweeps of every mesh under object at a loop position
+ */
+export function setGradientLoopT(object: THREE.Object3D, loopT: number): void {
+  object.traverse(child => {
+    if (child instanceof THREE.Mesh && child.material instanceof GradientMaterial) child.material.loopT = loopT;
+  });
+}
@@ -0,0 +1,337 @@
+/**
+ * Hardware color constraints
+ * Emulates the layout limits of retro video hardware on top of palette reduction / dithering:
+ * colors are chosen per attribute cell (ZX Spectrum, C64 multicolor, NES) or per screen (CGA, EGA),
+ * and every pixel is snapped to the colors its cell is allowed to show.
+ */
+
+import { ColorDistanceMetric, metricDistance, toMetricSpace } from './colorDistance';
+import { getPaletteLookup } from './paletteLookup';
+import { palettes } from './palettes';
+import { getBlockEdges, PixelGrid } from './pixelation';
+
+export type HardwareConstraintMode = 'none' | 'zxspectrum' | 'c64multicolor' | 'cga' | 'ega' | 'nes';
+
+type RGB = [number, number, number];
+
+interface HardwareConstraint {
+  label: string;
+  palette: RGB[];
+  cellWidth: number; // in hardware pixels (Infinity = whole screen)
+  cellHeight: number;
+  pixelWidth: number; // screen blocks per hardware pixel horizontally (2 = double-wide)
+  colorsPerCell: number; // including the shared colors
+  sharedColors: number; // colors every cell shows (C64 background, NES backdrop), picked per frame
+  colorGroups?: number[][]; // a cell's colors must all come from one group (ZX BRIGHT bit, CGA palettes)
+  subPalettes?: number; // cells pick one of this many per-frame color sets (NES attribute palettes)
+}
+
+export interface HardwareConstraintOptions {
+  metric: ColorDistanceMetric;
+  grid: PixelGrid; // screen blocks of one hardware pixel (the pixelation grid), widened for double-wide modes
+}
+
+// IBM CGA/EGA default 16 colors (RGBI)
+const cgaColors: RGB[] = [
+  [0, 0, 0], [0, 0, 170], [0, 170, 0], [0, 170, 170],
+  [170, 0, 0], [170, 0, 170], [170, 85, 0], [170, 170, 170],
+  [85, 85, 85], [85, 85, 255], [85, 255, 85], [85, 255, 255],
+  [255, 85, 85], [255, 85, 255], [255, 255, 85], [255, 255, 255],
+];
+
+// EGA: 2 bits per channel (64 colors), any 16 on screen at once
+const egaColors: RGB[] = Array.from({ length: 64 }, (_, i) => {
+  // EGA palette register bits: secondary RGB (rgb) in 3-5, primary RGB in 0-2
+  const level = (primary: number, secondary: number) => primary * 170 + secondary * 85;
+  return [
+    level((i >> 2) & 1, (i >> 5) & 1),
+    level((i >> 1) & 1, (i >> 4) & 1),
+    level(i & 1, (i >> 3) & 1),
+  ] as RGB;
+});
+
+export const hardwareConstraints: Record<Exclude<HardwareConstraintMode, 'none'>, HardwareConstraint> = {
+  // 8×8 attribute cells: one INK and one PAPER color, both from the same BRIGHT half of the palette
+  zxspectrum: {
+    label: 'ZX Spectrum (2 colors per 8×8)',
+    palette: palettes.zxspectrum.colors,
+    cellWidth: 8,
+    cellHeight: 8,
+    pixelWidth: 1,
+    colorsPerCell: 2,
+    sharedColors: 0,
+    colorGroups: [[0, 1, 2, 3, 4, 5, 6, 7], [8, 9, 10, 11, 12, 13, 14, 15]],
+  },
+  // Multicolor bitmap: double-wide pixels, 4×8 cells with a screen-wide background plus 3 colors
+  c64multicolor: {
+    label: 'C64 Multicolor (4 colors per 4×8, wide pixels)',
+    palette: palettes.commodore64.colors,
+    cellWidth: 4,
+    cellHeight: 8,
+    pixelWidth: 2,
+    colorsPerCell: 4,
+    sharedColors: 1,
+  },
+  // 320×200 mode 4: black background and one of the four fixed 3-color palettes
+  cga: {
+    label: 'CGA (4 colors, fixed palettes)',
+    palette: cgaColors,
+    cellWidth: Infinity,
+    cellHeight: Infinity,
+    pixelWidth: 1,
+    colorsPerCell: 4,
+    sharedColors: 0,
+    colorGroups: [[0, 2, 4, 6], [0, 10, 12, 14], [0, 3, 5, 7], [0, 11, 13, 15]],
+  },
+  ega: {
+    label: 'EGA (16 of 64 colors)',
+    palette: egaColors,
+    cellWidth: Infinity,
+    cellHeight: Infinity,
+    pixelWidth: 1,
+    colorsPerCell: 16,
+    sharedColors: 0,
+  },
+  // Background attributes: each 16×16 area uses one of 4 sub-palettes (backdrop + 3 colors)
+  nes: {
+    label: 'NES (4 colors per 16×16, 4 sub-palettes)',
+    palette: palettes.nes.colors,
+    cellWidth: 16,
+    cellHeight: 16,
+    pixelWidth: 1,
+    colorsPerCell: 4,
+    sharedColors: 1,
+    subPalettes: 4,
+  },
+};
+
+export const hardwareConstraintList: { value: Exclude<HardwareConstraintMode, 'none'>; label: string }[] =
+  (Object.keys(hardwareConstraints) as Exclude<HardwareConstraintMode, 'none'>[]).map(value => ({
+    value,
+    label: hardwareConstraints[value].label,
+  }));
+
+// Palette index → count of hardware pixels with that color
+type Histogram = Map<number, number>;
+
+function histogramError(histogram: Histogram, colors: number[], distances: Float64Array, n: number): number {
+  let error = 0;
+  histogram.forEach((count, index) => {
+    let best = Infinity;
+    for (const color of colors) best = Math.min(best, distances[index * n + color]);
+    error += best * count;
+  });
+  return error;
+}
+
+/**
+ * Greedily grow `base` to `size` colors, each step adding the candidate that lowers the cell's error most
+ */
+function chooseColors(
+  histogram: Histogram,
+  base: number[],
+  candidates: number[],
+  size: number,
+  distances: Float64Array,
+  n: number
+): { colors: number[]; error: number } {
+  const colors = base.slice();
+  let error = colors.length > 0 ? histogramError(histogram, colors, distances, n) : Infinity;
+
+  while (colors.length < size) {
+    let bestCandidate = -1;
+    let bestError = error;
+    for (const candidate of candidates) {
+      if (colors.includes(candidate)) continue;
+      const candidateError = histogramError(histogram, [...colors, candidate], distances, n);
+      if (candidateError < bestError) {
+        bestError = candidateError;
+        bestCandidate = candidate;
+      }
+    }
+    if (bestCandidate < 0) break;
+    colors.push(bestCandidate);
+    error = bestError;
+  }
+
+  return { colors, error };
+}
+
+/**
+ * Apply a hardware constraint in place. Expects data already reduced (or dithered) to the
+ * constraint's palette; output blocks are filled, so a later corner-sampled pixelation keeps them.
+ */
+export function applyHardwareConstraint(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  mode: HardwareConstraintMode,
+  options: HardwareConstraintOptions
+): void {
+  if (mode === 'none') return;
+
+  const constraint = hardwareConstraints[mode];
+  const { palette } = constraint;
+  const n = palette.length;
+  const lookup = getPaletteLookup(palette, options.metric);
+
+  // Pairwise palette distances - palettes here are at most 64 colors
+  const metricColors = palette.map(([r, g, b]) => toMetricSpace(options.metric, r, g, b));
+  const distances = new Float64Array(n * n);
+  for (let a = 0; a < n; a++) {
+    for (let b = 0; b < n; b++) distances[a * n + b] = metricDistance(options.metric, metricColors[a], metricColors[b]);
+  }
+
+  // Hardware pixel grid: each hardware pixel is read from its top-left screen pixel.
+  // Double-wide modes widen the blocks unless they're already wide enough (a 2:1 pixelate aspect).
+  const { grid } = options;
+  const blockHeight = Math.max(1, grid.blockHeight);
+  const blockWidth = Math.max(grid.blockWidth, blockHeight * constraint.pixelWidth);
+  const edgesX = getBlockEdges(blockWidth, grid.originX, width);
+  const edgesY = getBlockEdges(blockHeight, grid.originY, height);
+  const gridWidth = edgesX.length - 1;
+  const gridHeight = edgesY.length - 1;
+  const indices = new Uint8Array(gridWidth * gridHeight);
+  for (let gy = 0; gy < gridHeight; gy++) {
+    for (let gx = 0; gx < gridWidth; gx++) {
+      const i = (edgesY[gy] * width + edgesX[gx]) * 4;
+      indices[gy * gridWidth + gx] = lookup.nearestIndex(data[i], data[i + 1], data[i + 2]);
+    }
+  }
+
+  const cellWidth = Math.min(constraint.cellWidth, gridWidth);
+  const cellHeight = Math.min(constraint.cellHeight, gridHeight);
+  // Attribute cells start at the grid origin - a snapped grid can have partial cells before it
+  const shiftX = Number.isFinite(constraint.cellWidth) ? getCellShift(edgesX, grid.originX, cellWidth) : 0;
+  const shiftY = Number.isFinite(constraint.cellHeight) ? getCellShift(edgesY, grid.originY, cellHeight) : 0;
+  const cellsX = Math.ceil((gridWidth + shiftX) / cellWidth);
+  const cellsY = Math.ceil((gridHeight + shiftY) / cellHeight);
+
+  const histograms: Histogram[] = [];
+  const frameHistogram: Histogram = new Map();
+  for (let cy = 0; cy < cellsY; cy++) {
+    for (let cx = 0; cx < cellsX; cx++) {
+      const histogram: Histogram = new Map();
+      for (let gy = Math.max(0, cy * cellHeight - shiftY); gy < Math.min(gridHeight, (cy + 1) * cellHeight - shiftY); gy++) {
+        for (let gx = Math.max(0, cx * cellWidth - shiftX); gx < Math.min(gridWidth, (cx + 1) * cellWidth - shiftX); gx++) {
+          const index = indices[gy * gridWidth + gx];
+          histogram.set(index, (histogram.get(index) ?? 0) + 1);
+          frameHistogram.set(index, (frameHistogram.get(index) ?? 0) + 1);
+        }
+      }
+      histograms.push(histogram);
+    }
+  }
+
+  // Shared colors are the most common ones on screen (background / backdrop)
+  const shared = [...frameHistogram.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+    .slice(0, constraint.sharedColors)
+    .map(([index]) => index);
+
+  const chooseCellColors = (histogram: Histogram): number[] => {
+    const groups = constraint.colorGroups ?? [[...histogram.keys()]];
+    let best: { colors: number[]; error: number } | null = null;
+    for (const group of groups) {
+      const result = chooseColors(histogram, shared, group, constraint.colorsPerCell, distances, n);
+      if (!best || result.error < best.error) best = result;
+    }
+    return best!.colors;
+  };
+
+  let cellColors = histograms.map(chooseCellColors);
+
+  if (constraint.subPalettes) {
+    cellColors = assignSubPalettes(histograms, cellColors, constraint.subPalettes, distances, n);
+  }
+
+  // Snap every hardware pixel to its cell's nearest allowed color and fill its screen block
+  for (let gy = 0; gy < gridHeight; gy++) {
+    const cy = Math.floor((gy + shiftY) / cellHeight);
+    for (let gx = 0; gx < gridWidth; gx++) {
+      const colors = cellColors[cy * cellsX + Math.floor((gx + shiftX) / cellWidth)];
+      const index = indices[gy * gridWidth + gx];
+      let mapped = colors[0];
+      for (const color of colors) {
+        if (distances[index * n + color] < distances[index * n + mapped]) mapped = color;
+      }
+
+      const [r, g, b] = palette[mapped];
+      for (let y = edgesY[gy]; y < edgesY[gy + 1]; y++) {
+        for (let x = edgesX[gx]; x < edgesX[gx + 1]; x++) {
+          const i = (y * width + x) * 4;
+          data[i] = r;
+          data[i + 1] = g;
+          data[i + 2] = b;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Hardware pixels to pad the grid by so cell boundaries fall on the block starting at the origin
+ */
+function getCellShift(edges: number[], origin: number, cellSize: number): number {
+  const lead = Math.max(0, edges.indexOf(Math.round(origin)));
+  return (cellSize - (lead % cellSize)) % cellSize;
+}
+
+// Only the most common cell color sets are considered as sub-palettes
+const MAX_SUB_PALETTE_CANDIDATES = 16;
+
+/**
+ * Limit cells to `count` shared color sets: pick the sets (from the most common per-cell choices)
+ * that together fit all cells best, then give each cell the set that fits it best
+ */
+function assignSubPalettes(
+  histograms: Histogram[],
+  cellColors: number[][],
+  count: number,
+  distances: Float64Array,
+  n: number
+): number[][] {
+  const setCounts = new Map<string, { colors: number[]; cells: number }>();
+  for (const colors of cellColors) {
+    const key = colors.slice().sort((a, b) => a - b).join(',');
+    const entry = setCounts.get(key);
+    if (entry) entry.cells++;
+    else setCounts.set(key, { colors, cells: 1 });
+  }
+
+  const candidates = [...setCounts.values()]
+    .sort((a, b) => b.cells - a.cells)
+    .slice(0, MAX_SUB_PALETTE_CANDIDATES)
+    .map(entry => entry.colors);
+
+  // errors[c][cell] = error of the cell when it uses candidate c
+  const errors = candidates.map(colors => histograms.map(histogram => histogramError(histogram, colors, distances, n)));
+
+  const chosen: number[] = [];
+  const cellBest = new Float64Array(histograms.length).fill(Infinity);
+  while (chosen.length < Math.min(count, candidates.length)) {
+    let bestCandidate = -1;
+    let bestTotal = Infinity;
+    candidates.forEach((_, c) => {
+      if (chosen.includes(c)) return;
+      let total = 0;
+      for (let cell = 0; cell < histograms.length; cell++) total += Math.min(cellBest[cell], errors[c][cell]);
+      if (total < bestTotal) {
+        bestTotal = total;
+        bestCandidate = c;
+      }
+    });
+    chosen.push(bestCandidate);
+    for (let cell = 0; cell < histograms.length; cell++) {
+      cellBest[cell] = Math.min(cellBest[cell], errors[bestCandidate][cell]);
+    }
+  }
+
+  return histograms.map((_, cell) => {
+    let best = chosen[0];
+    for (const c of chosen) {
+      if (errors[c][cell] < errors[best][cell]) best = c;
+    }
+    return candidates[best];
+  });
+}
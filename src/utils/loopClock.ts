@@ -0,0 +1,121 @@
+/**
+ * Loop Clock
+ * Single source of truth for where the animation is inside its loop.
+ * The scene, the camera, the progress bar and the exporter all read loopT from here,
+ * so scrubbing, export and preview always agree on which frame is showing.
+ */
+
+type LoopClockListener = () => void;
+
+export class LoopClock {
+  private duration: number;
+  private time = 0; // seconds into the current loop, 0..duration
+  private paused = false;
+  private listeners: Set<LoopClockListener> = new Set();
+
+  constructor(loopDuration: number) {
+    this.duration = Math.max(0.001, loopDuration);
+  }
+
+  /**
+   * Loop position from 0 to 1. Only an explicit seek/setTime can land exactly on 1 (the loop end);
+   * normal playback wraps back to 0.
+   */
+  get loopT(): number {
+    return this.time / this.duration;
+  }
+
+  /** Seconds into the current loop */
+  get elapsed(): number {
+    return this.time;
+  }
+
+  get loopDuration(): number {
+    return this.duration;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Change the loop length while keeping the same relative position
+   */
+  setLoopDuration(loopDuration: number): void {
+    const duration = Math.max(0.001, loopDuration);
+    if (duration === this.duration) return;
+    const loopT = this.loopT;
+    this.duration = duration;
+    this.time = loopT * duration;
+    this.notify();
+  }
+
+  play(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    this.notify();
+  }
+
+  pause(): void {
+    if (this.paused) return;
+    this.paused = true;
+    this.notify();
+  }
+
+  togglePlayback(): void {
+    if (this.paused) this.play();
+    else this.pause();
+  }
+
+  /**
+   * Advance by real elapsed time (called once per rendered frame while playing)
+   */
+  tick(delta: number): void {
+    if (this.paused || delta <= 0) return;
+    this.time = wrap(this.time + delta, this.duration);
+    this.notify();
+  }
+
+  /**
+   * Jump to a loop position (0-1). 1 is kept as the exact loop end instead of wrapping to 0.
+   */
+  seek(loopT: number): void {
+    this.time = Math.max(0, Math.min(1, loopT)) * this.duration;
+    this.notify();
+  }
+
+  /**
+   * Jump to an absolute time in seconds; times past the loop end wrap around
+   */
+  setTime(seconds: number): void {
+    this.time = wrap(seconds, this.duration);
+    this.notify();
+  }
+
+  /**
+   * Move by whole frames at the given frame rate (negative steps go backwards)
+   */
+  step(frames: number, fps: number): void {
+    const frameDuration = 1 / fps;
+    // Snap to the frame grid first so repeated stepping never accumulates drift
+    const currentFrame = Math.round(this.time / frameDuration);
+    this.time = wrap((currentFrame + frames) * frameDuration, this.duration);
+    this.notify();
+  }
+
+  subscribe = (listener: LoopClockListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+function wrap(time: number, duration: number): number {
+  const wrapped = time % duration;
+  return wrapped < 0 ? wrapped + duration : wrapped;
+}
@@ -0,0 +1,142 @@
+/**
+ * Seamless loop verification
+ * Compares the first frame with the frame at the very end of the loop (t = 1) and
+ * flags settings that mathematically cannot return to their starting state.
+ */
+
+import { AnimationSettings, AnimationType } from '../types';
+
+export interface LoopSettingIssue {
+  parameter: keyof AnimationSettings;
+  value: number;
+  message: string;
+}
+
+export interface FrameDifference {
+  maxDifference: number;      // 0-255, largest per-channel difference of any pixel
+  meanDifference: number;     // 0-255, averaged over all pixels
+  mismatchedPixels: number;   // pixels above SEAM_PIXEL_TOLERANCE
+  mismatchRatio: number;      // mismatchedPixels / total pixels
+  heatmap: ImageData;         // per-pixel difference visualization
+}
+
+export interface LoopVerificationReport {
+  seamless: boolean;
+  difference: FrameDifference;
+  issues: LoopSettingIssue[];
+}
+
+// Per-pixel difference (max channel delta) below which pixels count as matching - absorbs antialiasing noise
+const SEAM_PIXEL_TOLERANCE = 8;
+// Fraction of mismatched pixels still considered seamless
+const SEAM_MISMATCH_RATIO = 0.0001;
+
+// Animation types whose motion multiplies the loop phase by `frequency`
+const FREQUENCY_ANIMATIONS: ReadonlySet<AnimationType> = new Set<AnimationType>([
+  'breathe', 'wave', 'pendulum', 'bounce', 'twist', 'pulse', 'figure8', 'helix',
+  'ripple', 'swirl', 'sineScroller', 'copperbars', 'bobs', 'rasterbars', 'plasma',
+]);
+
+function isWhole(value: number): boolean {
+  return Math.abs(value - Math.round(value)) < 1e-6;
+}
+
+/**
+ * Find settings that prevent the animation from ending where it started.
+ * At t = 1 useShapeAnimation's phase is 2π·speed, so speed (and speed·frequency for
+ * frequency-driven animations) must be whole numbers; the camera completes
+ * cameraAutoRotateSpeed·0.5 turns per loop, which must be whole too.
+ */
+export function analyzeLoopSettings(settings: AnimationSettings): LoopSettingIssue[] {
+  const issues: LoopSettingIssue[] = [];
+
+  if (!isWhole(settings.speed)) {
+    issues.push({
+      parameter: 'speed',
+      value: settings.speed,
+      message: `Speed ${settings.speed}x completes a partial cycle per loop - use a whole number (e.g. ${Math.max(1, Math.round(settings.speed))}x)`,
+    });
+  }
+
+  if (FREQUENCY_ANIMATIONS.has(settings.animationType) && !isWhole(settings.frequency * settings.speed)) {
+    issues.push({
+      parameter: 'frequency',
+      value: settings.frequency,
+      message: `Frequency ${settings.frequency}x does not complete whole oscillations per loop - use a whole number (e.g. ${Math.max(1, Math.round(settings.frequency))}x)`,
+    });
+  }
+
+  if (settings.cameraAutoRotate && !isWhole(settings.cameraAutoRotateSpeed * 0.5)) {
+    const turns = settings.cameraAutoRotateSpeed * 0.5;
+    issues.push({
+      parameter: 'cameraAutoRotateSpeed',
+      value: settings.cameraAutoRotateSpeed,
+      message: `Camera rotates ${turns.toFixed(2)} turns per loop - use an even rotate speed (e.g. ${Math.max(2, Math.round(turns) * 2)})`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Per-pixel difference between two equally sized frames, with a heatmap
+ * (transparent dark = identical, red → yellow → white = increasingly different)
+ */
+export function compareFrames(first: ImageData, last: ImageData): FrameDifference {
+  if (first.width !== last.width || first.height !== last.height) {
+    throw new Error('Cannot compare frames of different sizes');
+  }
+
+  const a = first.data;
+  const b = last.data;
+  const heatmap = new ImageData(first.width, first.height);
+  const heat = heatmap.data;
+  const pixelCount = first.width * first.height;
+
+  let maxDifference = 0;
+  let totalDifference = 0;
+  let mismatchedPixels = 0;
+
+  for (let i = 0; i < a.length; i += 4) {
+    const diff = Math.max(
+      Math.abs(a[i] - b[i]),
+      Math.abs(a[i + 1] - b[i + 1]),
+      Math.abs(a[i + 2] - b[i + 2])
+    );
+
+    if (diff > maxDifference) maxDifference = diff;
+    totalDifference += diff;
+    if (diff > SEAM_PIXEL_TOLERANCE) mismatchedPixels++;
+
+    // Boost small differences so they remain visible
+    const level = Math.min(1, diff / 64);
+    heat[i] = level > 0 ? 128 + level * 127 : 20;
+    heat[i + 1] = level > 0.5 ? (level - 0.5) * 2 * 255 : 20;
+    heat[i + 2] = level > 0.9 ? (level - 0.9) * 10 * 255 : 20;
+    heat[i + 3] = diff > SEAM_PIXEL_TOLERANCE ? 255 : 96;
+  }
+
+  return {
+    maxDifference,
+    meanDifference: totalDifference / pixelCount,
+    mismatchedPixels,
+    mismatchRatio: mismatchedPixels / pixelCount,
+    heatmap,
+  };
+}
+
+/**
+ * Combine the pixel comparison with the settings analysis
+ */
+export function buildLoopVerificationReport(
+  settings: AnimationSettings,
+  first: ImageData,
+  last: ImageData
+): LoopVerificationReport {
+  const difference = compareFrames(first, last);
+  return {
+    seamless: difference.mismatchRatio <= SEAM_MISMATCH_RATIO,
+    difference,
+    issues: analyzeLoopSettings(settings),
+  };
+}
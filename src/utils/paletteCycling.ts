@@ -0,0 +1,84 @@
+/**
+ * Palette cycling (color cycling)
+ * Rotates colors within index ranges of the reduced palette over time. The rotation period is
+ * snapped to a whole fraction of the loop, so every range is back where it started when the loop wraps.
+ */
+
+type RGB = [number, number, number];
+
+export interface PaletteCycleRange {
+  start: number; // first palette index (inclusive)
+  end: number; // last palette index (inclusive)
+  reverse: boolean;
+}
+
+/**
+ * Number of full rotations per loop for a requested period (seconds per rotation), at least one
+ */
+export function getCyclesPerLoop(period: number, loopDuration: number): number {
+  if (period <= 0) return 1;
+  return Math.max(1, Math.round(loopDuration / period));
+}
+
+/**
+ * The period actually used: the requested one snapped so it divides loopDuration evenly
+ */
+export function snapCyclePeriod(period: number, loopDuration: number): number {
+  return loopDuration / getCyclesPerLoop(period, loopDuration);
+}
+
+/**
+ * Palette with each range rotated for the given loop position (0-1).
+ * Rotation is stepwise - a range of N colors shifts one index at a time, N steps per period.
+ */
+export function getCycledPalette(
+  palette: RGB[],
+  ranges: PaletteCycleRange[],
+  loopT: number,
+  cyclesPerLoop: number
+): RGB[] {
+  const phase = (((loopT * cyclesPerLoop) % 1) + 1) % 1;
+  const cycled = palette.slice();
+
+  for (const range of ranges) {
+    const start = Math.max(0, Math.min(range.start, range.end));
+    const end = Math.min(palette.length - 1, Math.max(range.start, range.end));
+    const length = end - start + 1;
+    if (length < 2) continue;
+
+    const step = Math.floor(phase * length) % length;
+    const shift = range.reverse ? length - step : step;
+    for (let i = 0; i < length; i++) {
+      cycled[start + ((i + shift) % length)] = palette[start + i];
+    }
+  }
+
+  return cycled;
+}
+
+/**
+ * Replace every pixel that has a `from` palette color with the color at the same index in `to`.
+ * Run after palette reduction, when every pixel is exactly a palette color.
+ */
+export function remapPaletteColors(data: Uint8ClampedArray, from: RGB[], to: RGB[]): void {
+  const mapping = new Map<number, number>();
+  from.forEach(([r, g, b], i) => {
+    const key = (r << 16) | (g << 8) | b;
+    // Duplicate palette entries map like the first one
+    if (!mapping.has(key)) mapping.set(key, (to[i][0] << 16) | (to[i][1] << 8) | to[i][2]);
+  });
+
+  let lastKey = -1;
+  let lastValue = -1;
+  for (let i = 0; i < data.length; i += 4) {
+    const key = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+    if (key !== lastKey) {
+      lastKey = key;
+      lastValue = mapping.get(key) ?? -1;
+    }
+    if (lastValue < 0) continue;
+    data[i] = lastValue >> 16;
+    data[i + 1] = (lastValue >> 8) & 0xff;
+    data[i + 2] = lastValue & 0xff;
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * Palette extraction
+ * Derives an N-color palette from a reference image with median-cut, k-means (in OKLab)
+ * or octree quantization.
+ */
+
+import { oklabToRgb, rgbToOklab } from './colorDistance';
+import { mulberry32 } from './random';
+
+export type PaletteExtractionMethod = 'medianCut' | 'kmeans' | 'octree';
+
+type RGB = [number, number, number];
+
+export const paletteExtractionMethods: { value: PaletteExtractionMethod; label: string }[] = [
+  { value: 'medianCut', label: 'Median Cut (Fast)' },
+  { value: 'kmeans', label: 'K-Means in OKLab (Perceptual)' },
+  { value: 'octree', label: 'Octree' },
+];
+
+// Enough pixels for a stable result without making k-means slow
+const MAX_SAMPLES = 40000;
+// K-means cost is samples × colors × iterations, so it clusters a sparser subset
+const KMEANS_MAX_SAMPLES = 8000;
+const KMEANS_ITERATIONS = 16;
+const KMEANS_SEED = 0x5eed;
+
+/**
+ * Collect opaque pixels, evenly strided down to at most MAX_SAMPLES
+ */
+export function samplePixels(imageData: ImageData, maxSamples: number = MAX_SAMPLES): RGB[] {
+  const { data } = imageData;
+  const pixelCount = data.length / 4;
+  const stride = Math.max(1, Math.ceil(pixelCount / maxSamples));
+  const pixels: RGB[] = [];
+
+  for (let p = 0; p < pixelCount; p += stride) {
+    const i = p * 4;
+    if (data[i + 3] < 128) continue;
+    pixels.push([data[i], data[i + 1], data[i + 2]]);
+  }
+  return pixels;
+}
+
+/**
+ * Sample pixels evenly across a sequence of frames, so every frame contributes to the palette
+ */
+export function sampleFramePixels(frames: ImageData[], maxSamples: number = MAX_SAMPLES): RGB[] {
+  const perFrame = Math.max(1, Math.floor(maxSamples / Math.max(1, frames.length)));
+  return frames.flatMap(frame => samplePixels(frame, perFrame));
+}
+
+function averageColor(pixels: RGB[]): RGB {
+  let r = 0, g = 0, b = 0;
+  for (const [pr, pg, pb] of pixels) {
+    r += pr;
+    g += pg;
+    b += pb;
+  }
+  const n = Math.max(1, pixels.length);
+  return [Math.round(r / n), Math.round(g / n), Math.round(b / n)];
+}
+
+/**
+ * Median cut: repeatedly split the box with the widest channel range (weighted by pixel count)
+ * at its median, then average each box
+ */
+function medianCut(pixels: RGB[], count: number): RGB[] {
+  const channelRange = (box: RGB[], channel: number) => {
+    let min = 255, max = 0;
+    for (const pixel of box) {
+      if (pixel[channel] < min) min = pixel[channel];
+      if (pixel[channel] > max) max = pixel[channel];
+    }
+    return max - min;
+  };
+  const widestChannel = (box: RGB[]) => {
+    const ranges = [0, 1, 2].map(c => channelRange(box, c));
+    const channel = ranges.indexOf(Math.max(...ranges));
+    return { channel, range: ranges[channel] };
+  };
+
+  const boxes: RGB[][] = [pixels];
+  while (boxes.length < count) {
+    let bestIndex = -1;
+    let bestScore = 0;
+    boxes.forEach((box, i) => {
+      if (box.length < 2) return;
+      const score = widestChannel(box).range * Math.sqrt(box.length);
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    });
+    if (bestIndex < 0) break;
+
+    const box = boxes[bestIndex];
+    const { channel } = widestChannel(box);
+    box.sort((a, b) => a[channel] - b[channel]);
+    // Move the cut off a run of equal values so the same color doesn't end up in both halves
+    const median = box.length >> 1;
+    let cut = median;
+    while (cut > 0 && box[cut - 1][channel] === box[cut][channel]) cut--;
+    if (cut === 0) {
+      cut = median;
+      while (cut < box.length - 1 && box[cut - 1][channel] === box[cut][channel]) cut++;
+    }
+    boxes.splice(bestIndex, 1, box.slice(0, cut), box.slice(cut));
+  }
+
+  return boxes.map(averageColor);
+}
+
+/**
+ * K-means in OKLab with k-means++ seeding (seeded, so the same image always gives the same palette)
+ */
+function kMeansOklab(pixels: RGB[], count: number): RGB[] {
+  const stride = Math.max(1, Math.ceil(pixels.length / KMEANS_MAX_SAMPLES));
+  const points = pixels.filter((_, i) => i % stride === 0).map(([r, g, b]) => rgbToOklab(r, g, b));
+  const random = mulberry32(KMEANS_SEED);
+  const k = Math.min(count, points.length);
+
+  const distance = (a: number[], b: number[]) => {
+    const d0 = a[0] - b[0];
+    const d1 = a[1] - b[1];
+    const d2 = a[2] - b[2];
+    return d0 * d0 + d1 * d1 + d2 * d2;
+  };
+
+  // k-means++: each next center is picked with probability proportional to its squared distance
+  const centers: number[][] = [points[Math.floor(random() * points.length)].slice()];
+  const nearestDist = points.map(p => distance(p, centers[0]));
+  while (centers.length < k) {
+    const total = nearestDist.reduce((sum, d) => sum + d, 0);
+    if (total === 0) break;
+    let target = random() * total;
+    let index = 0;
+    for (; index < points.length - 1; index++) {
+      target -= nearestDist[index];
+      if (target <= 0) break;
+    }
+    centers.push(points[index].slice());
+    points.forEach((p, i) => {
+      nearestDist[i] = Math.min(nearestDist[i], distance(p, centers[centers.length - 1]));
+    });
+  }
+
+  const assignment = new Int32Array(points.length);
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    let changed = false;
+    points.forEach((p, i) => {
+      let best = 0;
+      let bestDist = Infinity;
+      centers.forEach((c, j) => {
+        const d = distance(p, c);
+        if (d < bestDist) {
+          bestDist = d;
+          best = j;
+        }
+      });
+      if (assignment[i] !== best) {
+        assignment[i] = best;
+        changed = true;
+      }
+    });
+
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    points.forEach((p, i) => {
+      const sum = sums[assignment[i]];
+      sum[0] += p[0];
+      sum[1] += p[1];
+      sum[2] += p[2];
+      sum[3]++;
+    });
+    sums.forEach((sum, j) => {
+      // Empty clusters keep their previous center
+      if (sum[3] > 0) centers[j] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]];
+    });
+
+    if (!changed && iteration > 0) break;
+  }
+
+  return centers.map(([L, a, b]) => oklabToRgb(L, a, b));
+}
+
+interface OctreeNode {
+  r: number;
+  g: number;
+  b: number;
+  pixelCount: number;
+  children: (OctreeNode | null)[];
+  isLeaf: boolean;
+}
+
+const OCTREE_DEPTH = 8;
+
+/**
+ * Octree quantization: insert every pixel into an 8-level tree, then fold the least populated
+ * deepest nodes into their parents until only `count` leaves remain
+ */
+function octree(pixels: RGB[], count: number): RGB[] {
+  const createNode = (level: number): OctreeNode => ({
+    r: 0, g: 0, b: 0, pixelCount: 0,
+    children: new Array(8).fill(null),
+    isLeaf: level === OCTREE_DEPTH,
+  });
+
+  const root = createNode(0);
+  const levels: OctreeNode[][] = Array.from({ length: OCTREE_DEPTH }, () => []);
+  let leafCount = 0;
+
+  for (const [r, g, b] of pixels) {
+    let node = root;
+    for (let level = 0; level < OCTREE_DEPTH && !node.isLeaf; level++) {
+      const shift = 7 - level;
+      const index = (((r >> shift) & 1) << 2) | (((g >> shift) & 1) << 1) | ((b >> shift) & 1);
+      let child = node.children[index];
+      if (!child) {
+        child = createNode(level + 1);
+        node.children[index] = child;
+        if (child.isLeaf) leafCount++;
+        else levels[level + 1].push(child);
+      }
+      node = child;
+    }
+    node.r += r;
+    node.g += g;
+    node.b += b;
+    node.pixelCount++;
+  }
+
+  // Fold the deepest nodes first, least populated first within a level
+  for (let level = OCTREE_DEPTH - 1; level >= 1 && leafCount > count; level--) {
+    const candidates = levels[level].sort((a, b) => subtreeCount(a) - subtreeCount(b));
+    for (const node of candidates) {
+      if (leafCount <= count) break;
+      let merged = 0;
+      for (let i = 0; i < 8; i++) {
+        const child = node.children[i];
+        if (!child) continue;
+        node.r += child.r;
+        node.g += child.g;
+        node.b += child.b;
+        node.pixelCount += child.pixelCount;
+        node.children[i] = null;
+        merged++;
+      }
+      node.isLeaf = true;
+      leafCount -= merged - 1;
+    }
+  }
+
+  const colors: RGB[] = [];
+  const collect = (node: OctreeNode) => {
+    if (node.isLeaf) {
+      if (node.pixelCount > 0) {
+        colors.push([
+          Math.round(node.r / node.pixelCount),
+          Math.round(node.g / node.pixelCount),
+          Math.round(node.b / node.pixelCount),
+        ]);
+      }
+      return;
+    }
+    node.children.forEach(child => child && collect(child));
+  };
+  collect(root);
+  return colors;
+}
+
+function subtreeCount(node: OctreeNode): number {
+  if (node.isLeaf) return node.pixelCount;
+  return node.children.reduce((sum, child) => sum + (child ? subtreeCount(child) : 0), 0);
+}
+
+/**
+ * Derive a palette of up to `count` colors (fewer if the image has fewer distinct colors),
+ * sorted dark to light
+ */
+export function extractPalette(pixels: RGB[], count: number, method: PaletteExtractionMethod): RGB[] {
+  if (pixels.length === 0) return [];
+
+  let colors: RGB[];
+  switch (method) {
+    case 'kmeans':
+      colors = kMeansOklab(pixels, count);
+      break;
+    case 'octree':
+      colors = octree(pixels, count);
+      break;
+    default:
+      colors = medianCut(pixels.slice(), count);
+  }
+
+  // Drop duplicates, then order by perceived lightness
+  const unique = new Map<number, RGB>();
+  for (const color of colors) unique.set((color[0] << 16) | (color[1] << 8) | color[2], color);
+  return [...unique.values()].sort((a, b) => rgbToOklab(...a)[0] - rgbToOklab(...b)[0]);
+}
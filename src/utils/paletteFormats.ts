@@ -0,0 +1,287 @@
+/**
+ * Palette file formats
+ * Import and export for GIMP (.gpl), Paint.NET (.txt), JASC (.pal), Lospec (.hex) and Adobe (.ase) palettes.
+ */
+
+import { Palette } from './palettes';
+import { labToRgb } from './colorDistance';
+
+export type PaletteFormat = 'gpl' | 'txt' | 'pal' | 'hex' | 'ase';
+
+type RGB = [number, number, number];
+
+export const paletteFormats: { value: PaletteFormat; label: string }[] = [
+  { value: 'gpl', label: 'GIMP (.gpl)' },
+  { value: 'txt', label: 'Paint.NET (.txt)' },
+  { value: 'pal', label: 'JASC (.pal)' },
+  { value: 'hex', label: 'Lospec (.hex)' },
+  { value: 'ase', label: 'Adobe Swatch Exchange (.ase)' },
+];
+
+const clampChannel = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+
+function toHex([r, g, b]: RGB): string {
+  return [r, g, b].map(c => c.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): RGB | null {
+  const clean = hex.trim().replace(/^#/, '');
+  // Paint.NET stores AARRGGBB - the alpha byte is dropped
+  const rgb = clean.length === 8 ? clean.slice(2) : clean;
+  if (!/^[0-9a-f]{6}$/i.test(rgb)) return null;
+  return [parseInt(rgb.slice(0, 2), 16), parseInt(rgb.slice(2, 4), 16), parseInt(rgb.slice(4, 6), 16)];
+}
+
+function baseName(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '') || 'Imported Palette';
+}
+
+function parseGpl(text: string, fallbackName: string): Palette {
+  const lines = text.split(/\r?\n/);
+  if (!lines[0]?.startsWith('GIMP Palette')) throw new Error('Not a GIMP palette (missing "GIMP Palette" header)');
+
+  let name = fallbackName;
+  const colors: RGB[] = [];
+  for (const line of lines.slice(1)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    if (trimmed.startsWith('Name:')) {
+      name = trimmed.slice(5).trim() || name;
+      continue;
+    }
+    if (trimmed.startsWith('Columns:')) continue;
+
+    const match = trimmed.match(/^(\d+)\s+(\d+)\s+(\d+)/);
+    if (match) colors.push([clampChannel(+match[1]), clampChannel(+match[2]), clampChannel(+match[3])]);
+  }
+  return { name, colors };
+}
+
+function parsePaintNet(text: string, fallbackName: string): Palette {
+  const colors: RGB[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith(';')) continue;
+    const color = fromHex(trimmed);
+    if (color) colors.push(color);
+  }
+  return { name: fallbackName, colors };
+}
+
+function parseJasc(text: string, fallbackName: string): Palette {
+  const lines = text.split(/\r?\n/).map(line => line.trim());
+  if (lines[0] !== 'JASC-PAL') throw new Error('Not a JASC palette (missing "JASC-PAL" header)');
+
+  const count = parseInt(lines[2], 10);
+  const colors: RGB[] = [];
+  for (const line of lines.slice(3)) {
+    const match = line.match(/^(\d+)\s+(\d+)\s+(\d+)/);
+    if (match) colors.push([clampChannel(+match[1]), clampChannel(+match[2]), clampChannel(+match[3])]);
+    if (!Number.isNaN(count) && colors.length >= count) break;
+  }
+  return { name: fallbackName, colors };
+}
+
+function parseHexList(text: string, fallbackName: string): Palette {
+  const colors: RGB[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const color = fromHex(line);
+    if (color) colors.push(color);
+  }
+  return { name: fallbackName, colors };
+}
+
+/**
+ * Adobe Swatch Exchange: "ASEF", version, block count, then color/group blocks (all big-endian).
+ * RGB, Gray, CMYK and LAB entries are converted to sRGB.
+ */
+// Values per color in each ASE color model
+const aseChannels: Record<string, number> = { 'RGB ': 3, 'Gray': 1, 'CMYK': 4, 'LAB ': 3 };
+
+function parseAse(buffer: ArrayBuffer, fallbackName: string): Palette {
+  if (buffer.byteLength < 12) throw new Error('Not an Adobe Swatch Exchange file (too short for an ASE header)');
+  const view = new DataView(buffer);
+  const signature = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3));
+  if (signature !== 'ASEF') throw new Error('Not an Adobe Swatch Exchange file (missing "ASEF" signature)');
+
+  const blockCount = view.getUint32(8);
+  const colors: RGB[] = [];
+  let name = fallbackName;
+  let offset = 12;
+
+  for (let block = 0; block < blockCount && offset + 6 <= buffer.byteLength; block++) {
+    const type = view.getUint16(offset);
+    const length = view.getUint32(offset + 2);
+    const start = offset + 6;
+    offset = start + length;
+    if (offset > buffer.byteLength) throw new Error(`Truncated ASE file: block ${block + 1} runs past the end of the file`);
+
+    if (type !== 0x0001 && type !== 0xc001) continue;
+
+    // UTF-16BE name, length in characters including the null terminator
+    if (start + 2 > offset) throw new Error(`Invalid ASE file: block ${block + 1} is too short for its name`);
+    const nameLength = view.getUint16(start);
+    if (start + 2 + nameLength * 2 > offset) throw new Error(`Invalid ASE file: the name of block ${block + 1} runs past the block`);
+    let blockName = '';
+    for (let i = 0; i < nameLength - 1; i++) {
+      blockName += String.fromCharCode(view.getUint16(start + 2 + i * 2));
+    }
+
+    // Group start - use the first group's name as the palette name
+    if (type === 0xc001) {
+      if (blockName && name === fallbackName) name = blockName;
+      continue;
+    }
+
+    const modelOffset = start + 2 + nameLength * 2;
+    if (modelOffset + 4 > offset) throw new Error(`Invalid ASE file: color ${block + 1} has no color model`);
+    const model = String.fromCharCode(
+      view.getUint8(modelOffset), view.getUint8(modelOffset + 1), view.getUint8(modelOffset + 2), view.getUint8(modelOffset + 3)
+    );
+    const value = (i: number) => view.getFloat32(modelOffset + 4 + i * 4);
+    if (modelOffset + 4 + (aseChannels[model] ?? 0) * 4 > offset) {
+      throw new Error(`Invalid ASE file: color ${block + 1} is missing ${model.trim()} values`);
+    }
+
+    if (model === 'RGB ') {
+      colors.push([clampChannel(value(0) * 255), clampChannel(value(1) * 255), clampChannel(value(2) * 255)]);
+    } else if (model === 'Gray') {
+      const gray = clampChannel(value(0) * 255);
+      colors.push([gray, gray, gray]);
+    } else if (model === 'CMYK') {
+      const k = value(3);
+      colors.push([
+        clampChannel(255 * (1 - value(0)) * (1 - k)),
+        clampChannel(255 * (1 - value(1)) * (1 - k)),
+        clampChannel(255 * (1 - value(2)) * (1 - k)),
+      ]);
+    } else if (model === 'LAB ') {
+      // L is stored 0-1, a/b as-is
+      colors.push(labToRgb(value(0) * 100, value(1), value(2)));
+    }
+  }
+
+  return { name, colors };
+}
+
+/**
+ * Detect the format from the file extension
+ */
+export function getPaletteFormat(fileName: string): PaletteFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return paletteFormats.some(format => format.value === extension) ? (extension as PaletteFormat) : null;
+}
+
+/**
+ * Parse a palette file. Throws with a readable message if the file isn't a valid palette.
+ */
+export function parsePaletteFile(fileName: string, contents: ArrayBuffer): Palette {
+  const format = getPaletteFormat(fileName);
+  if (!format) throw new Error(`Unsupported palette file: ${fileName}`);
+
+  const fallbackName = baseName(fileName);
+  const text = format === 'ase' ? '' : new TextDecoder().decode(contents);
+
+  let palette: Palette;
+  switch (format) {
+    case 'gpl':
+      palette = parseGpl(text, fallbackName);
+      break;
+    case 'txt':
+      palette = parsePaintNet(text, fallbackName);
+      break;
+    case 'pal':
+      palette = parseJasc(text, fallbackName);
+      break;
+    case 'hex':
+      palette = parseHexList(text, fallbackName);
+      break;
+    case 'ase':
+      palette = parseAse(contents, fallbackName);
+      break;
+  }
+
+  if (palette.colors.length === 0) throw new Error(`No colors found in ${fileName}`);
+  return palette;
+}
+
+function serializeAse(palette: Palette): ArrayBuffer {
+  const entryName = (i: number) => `#${toHex(palette.colors[i])}`;
+  // Each color block: name length (2) + UTF-16 name with terminator + model (4) + 3 floats + type (2)
+  const blockSizes = palette.colors.map((_, i) => 2 + (entryName(i).length + 1) * 2 + 4 + 12 + 2);
+  const totalSize = 12 + blockSizes.reduce((sum, size) => sum + 6 + size, 0);
+
+  const buffer = new ArrayBuffer(totalSize);
+  const view = new DataView(buffer);
+  'ASEF'.split('').forEach((c, i) => view.setUint8(i, c.charCodeAt(0)));
+  view.setUint16(4, 1); // version 1.0
+  view.setUint16(6, 0);
+  view.setUint32(8, palette.colors.length);
+
+  let offset = 12;
+  palette.colors.forEach((color, i) => {
+    const name = entryName(i);
+    view.setUint16(offset, 0x0001);
+    view.setUint32(offset + 2, blockSizes[i]);
+    offset += 6;
+
+    view.setUint16(offset, name.length + 1);
+    offset += 2;
+    for (let c = 0; c < name.length; c++) {
+      view.setUint16(offset, name.charCodeAt(c));
+      offset += 2;
+    }
+    view.setUint16(offset, 0);
+    offset += 2;
+
+    'RGB '.split('').forEach((c, j) => view.setUint8(offset + j, c.charCodeAt(0)));
+    offset += 4;
+    color.forEach((channel, j) => view.setFloat32(offset + j * 4, channel / 255));
+    offset += 12;
+    view.setUint16(offset, 2); // normal (non-global, non-spot) color
+    offset += 2;
+  });
+
+  return buffer;
+}
+
+/**
+ * Serialize a palette to a downloadable file in the given format
+ */
+export function serializePalette(palette: Palette, format: PaletteFormat): Blob {
+  switch (format) {
+    case 'gpl': {
+      const lines = [
+        'GIMP Palette',
+        `Name: ${palette.name}`,
+        'Columns: 8',
+        '#',
+        ...palette.colors.map(([r, g, b]) =>
+          `${String(r).padStart(3)} ${String(g).padStart(3)} ${String(b).padStart(3)}\t#${toHex([r, g, b])}`
+        ),
+      ];
+      return new Blob([lines.join('\n') + '\n'], { type: 'text/plain' });
+    }
+    case 'txt': {
+      const lines = [
+        `; ${palette.name}`,
+        `; ${palette.colors.length} colors`,
+        ...palette.colors.map(color => `FF${toHex(color).toUpperCase()}`),
+      ];
+      return new Blob([lines.join('\r\n') + '\r\n'], { type: 'text/plain' });
+    }
+    case 'pal': {
+      const lines = [
+        'JASC-PAL',
+        '0100',
+        String(palette.colors.length),
+        ...palette.colors.map(([r, g, b]) => `${r} ${g} ${b}`),
+      ];
+      return new Blob([lines.join('\r\n') + '\r\n'], { type: 'text/plain' });
+    }
+    case 'hex':
+      return new Blob([palette.colors.map(toHex).join('\n') + '\n'], { type: 'text/plain' });
+    case 'ase':
+      return new Blob([serializeAse(palette)], { type: 'application/octet-stream' });
+  }
+}
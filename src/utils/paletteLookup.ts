@@ -0,0 +1,109 @@
+/**
+ * Palette-aware nearest color lookup
+ * Each palette/metric pair gets its own 64³ lookup table, built lazily (a cell is resolved the first
+ * time a color lands in it) and cached, so switching palettes can never return stale colors.
+ * Colors that are exactly a palette entry always map to that entry, so reducing an already reduced
+ * image changes nothing (and matches the GPU's exact search) even where palette colors share a cell.
+ */
+
+import { ColorDistanceMetric, MetricColor, metricDistance, toMetricSpace } from './colorDistance';
+
+type RGB = [number, number, number];
+
+const LUT_BITS = 6;
+const LUT_LEVELS = 1 << LUT_BITS; // 64 levels per channel
+const LUT_SHIFT = 8 - LUT_BITS;
+const CELL_CENTER = (1 << LUT_SHIFT) / 2 - 0.5;
+const UNRESOLVED = -1;
+
+export interface PaletteLookup {
+  palette: RGB[];
+  metric: ColorDistanceMetric;
+  /** Palette index of the nearest color */
+  nearestIndex(r: number, g: number, b: number): number;
+  /** Nearest palette color (the palette's own entry - don't mutate it) */
+  nearest(r: number, g: number, b: number): RGB;
+}
+
+// Keyed by the palette array itself, so lookups are dropped together with their palette
+const lookupCache = new WeakMap<RGB[], Map<ColorDistanceMetric, PaletteLookup>>();
+
+function findNearestIndex(color: MetricColor, paletteColors: MetricColor[], metric: ColorDistanceMetric): number {
+  let minDist = Infinity;
+  let nearest = 0;
+
+  for (let i = 0; i < paletteColors.length; i++) {
+    const dist = metricDistance(metric, color, paletteColors[i]);
+
+    if (dist < minDist) {
+      minDist = dist;
+      nearest = i;
+    }
+  }
+
+  return nearest;
+}
+
+function createPaletteLookup(palette: RGB[], metric: ColorDistanceMetric): PaletteLookup {
+  const table = new Int16Array(LUT_LEVELS * LUT_LEVELS * LUT_LEVELS).fill(UNRESOLVED);
+  // Palette converted into the metric's space once
+  const paletteColors = palette.map(([r, g, b]) => toMetricSpace(metric, r, g, b));
+  const cellOf = (r: number, g: number, b: number) =>
+    ((r >> LUT_SHIFT) << (LUT_BITS * 2)) | ((g >> LUT_SHIFT) << LUT_BITS) | (b >> LUT_SHIFT);
+
+  // Palette entries by packed RGB (first one wins, like the search), and the cells that hold any
+  const exactMatches = new Map<number, number>();
+  const cellHasEntry = new Uint8Array(table.length);
+  palette.forEach(([r, g, b], i) => {
+    const key = (r << 16) | (g << 8) | b;
+    if (!exactMatches.has(key)) exactMatches.set(key, i);
+    cellHasEntry[cellOf(r, g, b)] = 1;
+  });
+
+  const nearestIndex = (r: number, g: number, b: number): number => {
+    const cell = cellOf(r, g, b);
+    if (cellHasEntry[cell]) {
+      const exact = exactMatches.get((r << 16) | (g << 8) | b);
+      if (exact !== undefined) return exact;
+    }
+
+    let index = table[cell];
+    if (index === UNRESOLVED) {
+      // Resolve using the cell's center color
+      const center = toMetricSpace(
+        metric,
+        ((r >> LUT_SHIFT) << LUT_SHIFT) + CELL_CENTER,
+        ((g >> LUT_SHIFT) << LUT_SHIFT) + CELL_CENTER,
+        ((b >> LUT_SHIFT) << LUT_SHIFT) + CELL_CENTER
+      );
+      index = findNearestIndex(center, paletteColors, metric);
+      table[cell] = index;
+    }
+    return index;
+  };
+
+  return {
+    palette,
+    metric,
+    nearestIndex,
+    nearest: (r, g, b) => palette[nearestIndex(r, g, b)],
+  };
+}
+
+/**
+ * Get (or build) the lookup for a palette under the given distance metric
+ */
+export function getPaletteLookup(palette: RGB[], metric: ColorDistanceMetric = 'rgb'): PaletteLookup {
+  let byMetric = lookupCache.get(palette);
+  if (!byMetric) {
+    byMetric = new Map();
+    lookupCache.set(palette, byMetric);
+  }
+
+  let lookup = byMetric.get(metric);
+  if (!lookup) {
+    lookup = createPaletteLookup(palette, metric);
+    byMetric.set(metric, lookup);
+  }
+  return lookup;
+}
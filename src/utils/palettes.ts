@@ -2,6 +2,8 @@
  * Retro color palettes for dithering effects
  */
 
+import { CustomPaletteId, customPaletteStore, isCustomPaletteId } from './customPalettes';
+
 export type PaletteType =
   | 'full'
   | 'nes'
@@ -13,6 +15,9 @@ export type PaletteType =
   | 'apple2'
   | 'grayscale';
 
+// Built-in palette or a user palette from customPalettes.ts
+export type PaletteId = PaletteType | CustomPaletteId;
+
 export interface Palette {
   name: string;
   colors: [number, number, number][];
@@ -339,3 +344,13 @@ export const paletteList: { value: PaletteType; label: string }[] = [
   { value: 'apple2', label: 'Apple II' },
   { value: 'grayscale', label: 'Grayscale' },
 ];
+
+/**
+ * Resolve a built-in or custom palette (a deleted custom palette falls back to full color)
+ */
+export function getPalette(id: PaletteId): Palette {
+  if (isCustomPaletteId(id)) {
+    return customPaletteStore.get(id) ?? palettes.full;
+  }
+  return palettes[id] ?? palettes.full;
+}
@@ -0,0 +1,170 @@
+/**
+ * Pixel-art cleanup
+ * Works on the blocks of a pixelated frame the way a sprite artist would touch up a downscale:
+ * stray single blocks are merged into their surroundings, shapes get a solid outline against the
+ * background and an optional highlight along their top/left inner edge.
+ */
+
+import { getBlockEdges, PixelGrid } from './pixelation';
+
+type RGB = [number, number, number];
+
+export interface PixelArtCleanupOptions {
+  removeOrphans: boolean;
+  outlineColor: string | null; // hex, null = no outline
+  outlineThickness: number; // in blocks
+  innerHighlight: number; // 0-1, 0 = off
+  backgroundColor: string; // hex
+  backgroundTolerance: number; // 0-1, largest per-channel difference from backgroundColor that is still background
+}
+
+function hexToRGB(hex: string): RGB {
+  const h = hex.replace('#', '');
+  return [
+    parseInt(h.substring(0, 2), 16) || 0,
+    parseInt(h.substring(2, 4), 16) || 0,
+    parseInt(h.substring(4, 6), 16) || 0,
+  ];
+}
+
+const NEIGHBOURS_4 = [[0, -1], [-1, 0], [1, 0], [0, 1]];
+const NEIGHBOURS_8 = [[-1, -1], [0, -1], [1, -1], [-1, 0], [1, 0], [-1, 1], [0, 1], [1, 1]];
+
+/**
+ * Clean up a pixelated frame in place. Each block of the grid is one sprite pixel, read from its
+ * top-left screen pixel (blocks are uniform after pixelation).
+ */
+export function applyPixelArtCleanup(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  grid: PixelGrid,
+  options: PixelArtCleanupOptions
+): void {
+  const edgesX = getBlockEdges(grid.blockWidth, grid.originX, width);
+  const edgesY = getBlockEdges(grid.blockHeight, grid.originY, height);
+  const cols = edgesX.length - 1;
+  const rows = edgesY.length - 1;
+  const count = cols * rows;
+
+  // Block colors packed as 0xRRGGBB
+  const original = new Int32Array(count);
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const i = (edgesY[y] * width + edgesX[x]) * 4;
+      original[y * cols + x] = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+    }
+  }
+  const cells = original.slice();
+
+  // Orphans: blocks matching none of their 4 neighbours take the most common color around them.
+  // Decided on the original blocks so removals don't cascade.
+  if (options.removeOrphans) {
+    const counts: Map<number, number> = new Map();
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++) {
+        const color = original[y * cols + x];
+        const isOrphan = NEIGHBOURS_4.every(([dx, dy]) => {
+          const nx = x + dx;
+          const ny = y + dy;
+          return nx < 0 || ny < 0 || nx >= cols || ny >= rows || original[ny * cols + nx] !== color;
+        });
+        if (!isOrphan) continue;
+
+        counts.clear();
+        let best = color;
+        let bestCount = 0;
+        for (const [dx, dy] of NEIGHBOURS_8) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= cols || ny >= rows) continue;
+          const neighbour = original[ny * cols + nx];
+          const c = (counts.get(neighbour) ?? 0) + 1;
+          counts.set(neighbour, c);
+          if (c > bestCount) {
+            best = neighbour;
+            bestCount = c;
+          }
+        }
+        cells[y * cols + x] = best;
+      }
+    }
+  }
+
+  // Shapes are whatever isn't close to the background color
+  const [bgR, bgG, bgB] = hexToRGB(options.backgroundColor);
+  const tolerance = options.backgroundTolerance * 255;
+  const foreground = new Uint8Array(count);
+  for (let i = 0; i < count; i++) {
+    const c = cells[i];
+    foreground[i] = Math.max(
+      Math.abs(((c >> 16) & 255) - bgR),
+      Math.abs(((c >> 8) & 255) - bgG),
+      Math.abs((c & 255) - bgB)
+    ) > tolerance ? 1 : 0;
+  }
+  const isBackground = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < cols && y < rows && !foreground[y * cols + x];
+
+  // Inner highlight: shape blocks with background directly above or to the left (light from the top-left)
+  if (options.innerHighlight > 0) {
+    const amount = Math.min(1, options.innerHighlight);
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++) {
+        const i = y * cols + x;
+        if (!foreground[i] || !(isBackground(x, y - 1) || isBackground(x - 1, y))) continue;
+        const c = cells[i];
+        const lighten = (v: number) => Math.round(v + (255 - v) * amount);
+        cells[i] = (lighten((c >> 16) & 255) << 16) | (lighten((c >> 8) & 255) << 8) | lighten(c & 255);
+      }
+    }
+  }
+
+  // Outline: background blocks within `outlineThickness` steps (4-connected) of a shape
+  if (options.outlineColor) {
+    const [r, g, b] = hexToRGB(options.outlineColor);
+    const outline = (r << 16) | (g << 8) | b;
+    const distance = new Uint8Array(count).fill(255);
+    let frontier: number[] = [];
+    for (let i = 0; i < count; i++) {
+      if (foreground[i]) {
+        distance[i] = 0;
+        frontier.push(i);
+      }
+    }
+    for (let step = 1; step <= options.outlineThickness && frontier.length > 0; step++) {
+      const next: number[] = [];
+      for (const i of frontier) {
+        const x = i % cols;
+        const y = (i - x) / cols;
+        for (const [dx, dy] of NEIGHBOURS_4) {
+          if (!isBackground(x + dx, y + dy)) continue;
+          const n = (y + dy) * cols + x + dx;
+          if (distance[n] !== 255) continue;
+          distance[n] = step;
+          cells[n] = outline;
+          next.push(n);
+        }
+      }
+      frontier = next;
+    }
+  }
+
+  // Write changed blocks back
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const c = cells[y * cols + x];
+      if (c === original[y * cols + x]) continue;
+      const r = (c >> 16) & 255;
+      const g = (c >> 8) & 255;
+      const b = c & 255;
+      for (let py = edgesY[y]; py < edgesY[y + 1]; py++) {
+        for (let i = (py * width + edgesX[x]) * 4, end = (py * width + edgesX[x + 1]) * 4; i < end; i += 4) {
+          data[i] = r;
+          data[i + 1] = g;
+          data[i + 2] = b;
+        }
+      }
+    }
+  }
+}
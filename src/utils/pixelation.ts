@@ -1,96 +1,220 @@
 /**
- * Pixelation and retro effect utilities with GPU optimization
+ * Pixelation utilities
+ * Blocks can be non-square (double-wide C64 pixels) and fractional in size, so a grid snapped to the
+ * export resolution lines up with the export's blocks at any preview size.
  */
 
-// Cache for temporary canvases to avoid allocation churn
-const canvasCache: Map<string, OffscreenCanvas> = new Map();
+import type { PixelateEffectParams } from '../types';
 
-function getOrCreateOffscreenCanvas(key: string, width: number, height: number): OffscreenCanvas {
-  let canvas = canvasCache.get(key);
-  if (!canvas || canvas.width !== width || canvas.height !== height) {
-    canvas = new OffscreenCanvas(width, height);
-    canvasCache.set(key, canvas);
+export type PixelSampling = PixelateEffectParams['sampling'];
+
+export const pixelSamplingList: { value: PixelSampling; label: string }[] = [
+  { value: 'corner', label: 'Corner (fastest)' },
+  { value: 'average', label: 'Box Average' },
+  { value: 'median', label: 'Median Brightness' },
+  { value: 'dominant', label: 'Dominant Color' },
+  { value: 'edge', label: 'Edge Preserving' },
+];
+
+/**
+ * Whether a sampling mode can output colors that weren't in the block (so a reduced palette is lost)
+ */
+export function samplingBlendsColors(sampling: PixelSampling): boolean {
+  return sampling === 'average' || sampling === 'edge';
+}
+
+export interface PixelGrid {
+  blockWidth: number; // pixels per block, may be fractional
+  blockHeight: number;
+  originX: number; // where block (0, 0) starts - blocks extend both ways from it
+  originY: number;
+}
+
+/**
+ * Block grid of a pixelate effect on a width × height frame. Snapped grids count pixels of the
+ * export frame and start at its top-left corner (the export crop of a preview canvas).
+ */
+export function getPixelGrid(
+  params: PixelateEffectParams,
+  width: number,
+  height: number,
+  exportWidth: number,
+  exportHeight: number
+): PixelGrid {
+  let scale = 1;
+  let originX = 0;
+  let originY = 0;
+  if (params.snapToExport) {
+    // Same crop as the exporter: the largest centered region with the export's aspect ratio
+    const cropWidth = Math.min(width, height * exportWidth / exportHeight);
+    const cropHeight = cropWidth * exportHeight / exportWidth;
+    scale = cropWidth / exportWidth;
+    originX = (width - cropWidth) / 2;
+    originY = (height - cropHeight) / 2;
+  }
+
+  const blockHeight = Math.max(1, params.pixelSize * scale);
+  return { blockWidth: Math.max(1, blockHeight * params.aspect), blockHeight, originX, originY };
+}
+
+/**
+ * Block boundaries along one axis, from 0 to limit. Fractional edges round to whole pixels.
+ */
+export function getBlockEdges(size: number, origin: number, limit: number): number[] {
+  const edges = [0];
+  for (let index = Math.floor(-origin / size) + 1; ; index++) {
+    const edge = Math.round(origin + index * size);
+    if (edge >= limit) break;
+    if (edge > edges[edges.length - 1]) edges.push(edge);
   }
-  return canvas;
+  edges.push(limit);
+  return edges;
+}
+
+// Tuned so anti-aliased edges count as edges but shading gradients don't
+const EDGE_LUMA_THRESHOLD = 48;
+
+// Scratch buffers reused across blocks
+const lumaHistogram = new Uint32Array(256);
+const colorCounts: Map<number, number> = new Map();
+
+function luma(data: Uint8ClampedArray, i: number): number {
+  return (data[i] * 77 + data[i + 1] * 150 + data[i + 2] * 29) >> 8;
 }
 
 /**
- * Optimized pixelation using ImageData (much faster than individual getImageData calls)
+ * Pick the color of one block. Writes RGBA into out.
  */
-export function applyPixelation(
-  ctx: CanvasRenderingContext2D,
-  canvas: HTMLCanvasElement,
-  pixelSize: number
+function sampleBlock(
+  data: Uint8ClampedArray,
+  width: number,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  sampling: PixelSampling,
+  out: number[]
 ): void {
-  if (pixelSize <= 1) return;
+  const corner = (y0 * width + x0) * 4;
+
+  switch (sampling) {
+    case 'average': {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let i = (y * width + x0) * 4, end = (y * width + x1) * 4; i < end; i += 4) {
+          r += data[i]; g += data[i + 1]; b += data[i + 2]; a += data[i + 3];
+        }
+      }
+      const n = (x1 - x0) * (y1 - y0);
+      out[0] = r / n; out[1] = g / n; out[2] = b / n; out[3] = a / n;
+      return;
+    }
 
-  const width = canvas.width;
-  const height = canvas.height;
+    case 'median': {
+      // The pixel of median brightness - an existing color, so palettes survive
+      lumaHistogram.fill(0);
+      for (let y = y0; y < y1; y++) {
+        for (let i = (y * width + x0) * 4, end = (y * width + x1) * 4; i < end; i += 4) lumaHistogram[luma(data, i)]++;
+      }
+      let target = ((x1 - x0) * (y1 - y0) - 1) >> 1;
+      let median = 0;
+      while (target >= lumaHistogram[median]) target -= lumaHistogram[median++];
+      for (let y = y0; y < y1; y++) {
+        for (let i = (y * width + x0) * 4, end = (y * width + x1) * 4; i < end; i += 4) {
+          if (luma(data, i) === median) {
+            out[0] = data[i]; out[1] = data[i + 1]; out[2] = data[i + 2]; out[3] = data[i + 3];
+            return;
+          }
+        }
+      }
+      return;
+    }
 
-  // Get entire image data at once (much faster than repeated getImageData calls)
-  const imageData = ctx.getImageData(0, 0, width, height);
-  const data = imageData.data;
+    case 'dominant': {
+      // Most frequent color; ties go to the one seen first (top-left)
+      colorCounts.clear();
+      let best = corner;
+      let bestCount = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let i = (y * width + x0) * 4, end = (y * width + x1) * 4; i < end; i += 4) {
+          const key = ((data[i] << 16) | (data[i + 1] << 8) | data[i + 2]) * 256 + data[i + 3];
+          const count = (colorCounts.get(key) ?? 0) + 1;
+          colorCounts.set(key, count);
+          if (count > bestCount) {
+            best = i;
+            bestCount = count;
+          }
+        }
+      }
+      out[0] = data[best]; out[1] = data[best + 1]; out[2] = data[best + 2]; out[3] = data[best + 3];
+      return;
+    }
 
-  // Process in-place: for each pixel block, apply average color
-  for (let y = 0; y < height; y += pixelSize) {
-    for (let x = 0; x < width; x += pixelSize) {
-      // Sample corner pixel (fast approximation)
-      const pixelIndex = (y * width + x) * 4;
-      const r = data[pixelIndex];
-      const g = data[pixelIndex + 1];
-      const b = data[pixelIndex + 2];
-      const a = data[pixelIndex + 3];
+    case 'edge': {
+      // Flat blocks average; blocks across an edge average only the side covering more of the block,
+      // so edges stay crisp instead of blurring into an in-between color
+      let min = 255, max = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let i = (y * width + x0) * 4, end = (y * width + x1) * 4; i < end; i += 4) {
+          const l = luma(data, i);
+          if (l < min) min = l;
+          if (l > max) max = l;
+        }
+      }
+      const split = max - min < EDGE_LUMA_THRESHOLD ? -1 : (min + max) / 2;
 
-      // Apply color to entire block
-      const blockWidth = Math.min(pixelSize, width - x);
-      const blockHeight = Math.min(pixelSize, height - y);
-
-      for (let by = 0; by < blockHeight; by++) {
-        for (let bx = 0; bx < blockWidth; bx++) {
-          const idx = ((y + by) * width + (x + bx)) * 4;
-          data[idx] = r;
-          data[idx + 1] = g;
-          data[idx + 2] = b;
-          data[idx + 3] = a;
+      const dark = [0, 0, 0, 0, 0];
+      const light = [0, 0, 0, 0, 0];
+      for (let y = y0; y < y1; y++) {
+        for (let i = (y * width + x0) * 4, end = (y * width + x1) * 4; i < end; i += 4) {
+          const side = luma(data, i) < split ? dark : light;
+          side[0] += data[i]; side[1] += data[i + 1]; side[2] += data[i + 2]; side[3] += data[i + 3]; side[4]++;
         }
       }
+      const side = dark[4] > light[4] ? dark : light;
+      out[0] = side[0] / side[4]; out[1] = side[1] / side[4]; out[2] = side[2] / side[4]; out[3] = side[3] / side[4];
+      return;
     }
-  }
 
-  // Write back optimized data all at once
-  ctx.putImageData(imageData, 0, 0);
+    default:
+      out[0] = data[corner]; out[1] = data[corner + 1]; out[2] = data[corner + 2]; out[3] = data[corner + 3];
+  }
 }
 
 /**
- * High-performance pixelation for pre-downsampled images
- * Significantly faster for high-quality output
+ * Pixelate raw RGBA data in place. Corner sampling takes each block's top-left pixel, so
+ * (like median and dominant) it introduces no new colors and a reduced palette stays intact.
  */
-export function applyPixelationFast(
-  ctx: CanvasRenderingContext2D,
-  canvas: HTMLCanvasElement,
-  pixelSize: number
+export function pixelateImageData(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  grid: PixelGrid,
+  sampling: PixelSampling = 'corner'
 ): void {
-  if (pixelSize <= 1) return;
+  if (grid.blockWidth <= 1 && grid.blockHeight <= 1) return;
 
-  const width = canvas.width;
-  const height = canvas.height;
+  const edgesX = getBlockEdges(grid.blockWidth, grid.originX, width);
+  const edgesY = getBlockEdges(grid.blockHeight, grid.originY, height);
+  const color = [0, 0, 0, 0];
 
-  // Create a small temporary canvas at downsampled resolution
-  const smallWidth = Math.ceil(width / pixelSize);
-  const smallHeight = Math.ceil(height / pixelSize);
-  const tempCanvas = getOrCreateOffscreenCanvas('pixelation', smallWidth, smallHeight);
-  const tempCtx = tempCanvas.getContext('2d');
-  if (!tempCtx) return;
-
-  // Downscale to pixelated resolution
-  tempCtx.drawImage(canvas, 0, 0, width, height, 0, 0, smallWidth, smallHeight);
-
-  // Scale back up with nearest-neighbor interpolation
-  ctx.imageSmoothingEnabled = false;
-  ctx.drawImage(tempCanvas, 0, 0, smallWidth, smallHeight, 0, 0, width, height);
-  ctx.imageSmoothingEnabled = true;
-}
+  for (let by = 0; by < edgesY.length - 1; by++) {
+    const y0 = edgesY[by];
+    const y1 = edgesY[by + 1];
+    for (let bx = 0; bx < edgesX.length - 1; bx++) {
+      const x0 = edgesX[bx];
+      const x1 = edgesX[bx + 1];
+      sampleBlock(data, width, x0, y0, x1, y1, sampling, color);
 
-export function clearCanvasCache(): void {
-  canvasCache.clear();
+      // Apply color to entire block
+      for (let y = y0; y < y1; y++) {
+        for (let i = (y * width + x0) * 4, end = (y * width + x1) * 4; i < end; i += 4) {
+          data[i] = color[0];
+          data[i + 1] = color[1];
+          data[i + 2] = color[2];
+          data[i + 3] = color[3];
+        }
+      }
+    }
+  }
 }
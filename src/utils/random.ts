@@ -0,0 +1,19 @@
+/**
+ * Seeded random numbers
+ * Anything that must come out identical on every run (blue noise, palette extraction, procedural
+ * effects inside a loop) uses this instead of Math.random.
+ */
+
+/**
+ * Mulberry32 - small, fast 32-bit PRNG returning floats in [0, 1)
+ */
+export function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * Threshold maps for ordered dithering
+ * Bayer matrices of any power-of-two size, plus a blue-noise map generated with the
+ * void-and-cluster method. Values are normalized to 0..1 (cell centers, so the average
+ * offset is exactly zero) and tiled across the image.
+ */
+
+import { mulberry32 } from './random';
+
+export interface ThresholdMap {
+  size: number;
+  values: Float32Array; // size × size, row-major, 0..1
+}
+
+const BLUE_NOISE_SIZE = 64;
+const BLUE_NOISE_SIGMA = 1.5;
+const BLUE_NOISE_SEED = 0x9e3779b9;
+
+const mapCache = new Map<string, ThresholdMap>();
+
+/**
+ * Bayer matrix built recursively: M(2n) = [[4M, 4M + 2], [4M + 3, 4M + 1]]
+ */
+function buildBayerMatrix(size: number): ThresholdMap {
+  let matrix = [[0]];
+
+  while (matrix.length < size) {
+    const n = matrix.length;
+    const next: number[][] = Array.from({ length: n * 2 }, () => new Array(n * 2).fill(0));
+    for (let y = 0; y < n; y++) {
+      for (let x = 0; x < n; x++) {
+        const v = matrix[y][x] * 4;
+        next[y][x] = v;
+        next[y][x + n] = v + 2;
+        next[y + n][x] = v + 3;
+        next[y + n][x + n] = v + 1;
+      }
+    }
+    matrix = next;
+  }
+
+  const cells = size * size;
+  const values = new Float32Array(cells);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      values[y * size + x] = (matrix[y][x] + 0.5) / cells;
+    }
+  }
+  return { size, values };
+}
+
+/**
+ * Blue noise via void-and-cluster (Ulichney): points are ranked by repeatedly filling the
+ * largest void of a Gaussian-filtered binary pattern, so every threshold level is evenly spread.
+ */
+function buildBlueNoiseMap(size: number): ThresholdMap {
+  const cells = size * size;
+
+  // Toroidal Gaussian splat, indexed by wrapped offset
+  const kernel = new Float32Array(cells);
+  for (let dy = 0; dy < size; dy++) {
+    for (let dx = 0; dx < size; dx++) {
+      const wx = Math.min(dx, size - dx);
+      const wy = Math.min(dy, size - dy);
+      kernel[dy * size + dx] = Math.exp(-(wx * wx + wy * wy) / (2 * BLUE_NOISE_SIGMA * BLUE_NOISE_SIGMA));
+    }
+  }
+
+  const pattern = new Uint8Array(cells);
+  const energy = new Float32Array(cells);
+
+  const splat = (index: number, sign: number) => {
+    const px = index % size;
+    const py = (index / size) | 0;
+    for (let y = 0; y < size; y++) {
+      const ky = ((y - py + size) % size) * size;
+      for (let x = 0; x < size; x++) {
+        energy[y * size + x] += sign * kernel[ky + ((x - px + size) % size)];
+      }
+    }
+  };
+
+  // Tightest cluster = set pixel with most energy; largest void = empty pixel with least
+  const findExtreme = (set: number, wantMax: boolean) => {
+    let best = -1;
+    let bestEnergy = wantMax ? -Infinity : Infinity;
+    for (let i = 0; i < cells; i++) {
+      if (pattern[i] !== set) continue;
+      if (wantMax ? energy[i] > bestEnergy : energy[i] < bestEnergy) {
+        bestEnergy = energy[i];
+        best = i;
+      }
+    }
+    return best;
+  };
+
+  // Initial random pattern (~10% set), then relax it until the tightest cluster is also the largest void
+  const random = mulberry32(BLUE_NOISE_SEED);
+  const initialCount = Math.max(1, Math.floor(cells * 0.1));
+  let placed = 0;
+  while (placed < initialCount) {
+    const i = Math.floor(random() * cells);
+    if (pattern[i]) continue;
+    pattern[i] = 1;
+    splat(i, 1);
+    placed++;
+  }
+
+  for (let iteration = 0; iteration < cells; iteration++) {
+    const cluster = findExtreme(1, true);
+    pattern[cluster] = 0;
+    splat(cluster, -1);
+    const voidIndex = findExtreme(0, false);
+    pattern[voidIndex] = 1;
+    splat(voidIndex, 1);
+    if (voidIndex === cluster) break;
+  }
+
+  const ranks = new Float32Array(cells);
+  const prototype = pattern.slice();
+  const prototypeEnergy = energy.slice();
+
+  // Phase 1: rank the prototype's points by removing tightest clusters
+  for (let rank = initialCount - 1; rank >= 0; rank--) {
+    const cluster = findExtreme(1, true);
+    pattern[cluster] = 0;
+    splat(cluster, -1);
+    ranks[cluster] = rank;
+  }
+
+  // Phase 2: restore the prototype and fill the remaining voids in order
+  pattern.set(prototype);
+  energy.set(prototypeEnergy);
+  for (let rank = initialCount; rank < cells; rank++) {
+    const voidIndex = findExtreme(0, false);
+    pattern[voidIndex] = 1;
+    splat(voidIndex, 1);
+    ranks[voidIndex] = rank;
+  }
+
+  const values = new Float32Array(cells);
+  for (let i = 0; i < cells; i++) {
+    values[i] = (ranks[i] + 0.5) / cells;
+  }
+  return { size, values };
+}
+
+/**
+ * Bayer threshold map (size must be a power of two)
+ */
+export function getBayerMatrix(size: 2 | 4 | 8 | 16): ThresholdMap {
+  const key = `bayer${size}`;
+  let map = mapCache.get(key);
+  if (!map) {
+    map = buildBayerMatrix(size);
+    mapCache.set(key, map);
+  }
+  return map;
+}
+
+/**
+ * Tileable 64×64 blue-noise threshold map (generated once, then cached)
+ */
+export function getBlueNoiseMap(): ThresholdMap {
+  const key = 'blueNoise';
+  let map = mapCache.get(key);
+  if (!map) {
+    map = buildBlueNoiseMap(BLUE_NOISE_SIZE);
+    mapCache.set(key, map);
+  }
+  return map;
+}
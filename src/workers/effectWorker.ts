@@ -0,0 +1,78 @@
+/**
+ * Effect worker
+ * Runs processFrame off the main thread for EffectWorkerPool. Frames arrive as transferred
+ * ImageBitmaps (preview) or pixel buffers (export) and go back the same way.
+ */
+
+import { customPaletteStore } from '../utils/customPalettes';
+import type { EffectWorkerRequest, EffectWorkerResponse } from '../utils/effectWorkerPool';
+import { FrameProcessor, processFrame } from '../utils/frameProcessor';
+
+// Per-stream processors, so temporal dithering carries between the frames of one stream
+const streams = new Map<string, FrameProcessor>();
+let canvas: OffscreenCanvas | null = null;
+
+function getProcessor(stream: string): FrameProcessor {
+  let processor = streams.get(stream);
+  if (!processor) {
+    processor = new FrameProcessor();
+    streams.set(stream, processor);
+  }
+  return processor;
+}
+
+function getContext(width: number, height: number): OffscreenCanvasRenderingContext2D | null {
+  if (!canvas) canvas = new OffscreenCanvas(width, height);
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  return canvas.getContext('2d', { willReadFrequently: true });
+}
+
+function respond(response: EffectWorkerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(response, { transfer });
+}
+
+self.onmessage = (e: MessageEvent<EffectWorkerRequest>) => {
+  const request = e.data;
+
+  if (request.kind === 'endStream') {
+    streams.delete(request.stream);
+    return;
+  }
+
+  try {
+    if (request.customPalettes) customPaletteStore.mirror(request.customPalettes);
+
+    const process = (imageData: ImageData) => {
+      if (request.stream) {
+        getProcessor(request.stream).process(imageData, request.settings, request.loopT, request.count);
+      } else {
+        processFrame(imageData, request.settings, { loopT: request.loopT, count: request.count });
+      }
+    };
+
+    if (request.kind === 'bitmap') {
+      const { width, height } = request.bitmap;
+      const ctx = getContext(width, height);
+      if (!ctx || !canvas) throw new Error('Failed to create worker canvas context');
+
+      ctx.drawImage(request.bitmap, 0, 0);
+      request.bitmap.close();
+      const imageData = ctx.getImageData(0, 0, width, height);
+      process(imageData);
+      ctx.putImageData(imageData, 0, 0);
+
+      const bitmap = canvas.transferToImageBitmap();
+      respond({ id: request.id, kind: 'bitmap', bitmap }, [bitmap]);
+    } else {
+      const imageData = new ImageData(new Uint8ClampedArray(request.buffer), request.width, request.height);
+      process(imageData);
+      const buffer = imageData.data.buffer as ArrayBuffer;
+      respond({ id: request.id, kind: 'pixels', buffer, width: request.width, height: request.height }, [buffer]);
+    }
+  } catch (error) {
+    respond({ id: request.id, kind: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};